@@ -0,0 +1,72 @@
+import { once } from 'events'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { sendViaGateway } from './agentTransport'
+import { GatewayClient, type GatewayConnectionConfig } from './gateway'
+import { startMockGateway, type MockGateway } from './mockGateway'
+
+describe('sendViaGateway', () => {
+  let mock: MockGateway
+  let client: GatewayClient
+
+  async function connect(config: Partial<GatewayConnectionConfig> = {}): Promise<void> {
+    client = new GatewayClient({ url: mock.url, ...config })
+    const connected = once(client, 'connected')
+    client.connect()
+    await connected
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    mock = await startMockGateway()
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await mock.stop()
+    vi.restoreAllMocks()
+  })
+
+  it('collects the streamed reply of the run', async () => {
+    await connect()
+
+    const result = await sendViaGateway(client, {
+      agent: 'main',
+      message: 'hello',
+      idempotencyKey: 'run-1',
+      timeoutMs: 5000
+    })
+
+    expect(result).toMatchObject({ runId: 'run-1', status: 'completed', output: 'Echo: hello' })
+  })
+
+  it('asks the gateway to abort the run when stopped', async () => {
+    await connect()
+    const controller = new AbortController()
+
+    const result = await sendViaGateway(client, {
+      agent: 'main',
+      message: 'hello',
+      sessionId: 'session-1',
+      idempotencyKey: 'run-2',
+      timeoutMs: 5000,
+      signal: controller.signal,
+      onOutput: () => controller.abort()
+    })
+
+    expect(result).toMatchObject({ status: 'aborted', stopped: true, output: 'Echo: ' })
+    await vi.waitFor(() => {
+      const abort = mock.requests.find((request) => request.method === 'chat.abort')
+      expect(abort?.params).toEqual({ runId: 'run-2', sessionId: 'session-1' })
+    })
+  })
+
+  it('refuses to send without the write scope', async () => {
+    await connect({ scopes: ['operator.read'] })
+
+    await expect(
+      sendViaGateway(client, { agent: 'main', message: 'hi', idempotencyKey: 'x', timeoutMs: 5000 })
+    ).rejects.toThrow('operator.write')
+    expect(mock.requests.map((request) => request.method)).not.toContain('agent')
+  })
+})
@@ -0,0 +1,203 @@
+import type { GatewayClient, GatewayEvent } from './gateway'
+import { readSignal, type RunSignal } from './runTracker'
+import { ABORTED_STATUSES, FAILED_STATUSES } from '../shared/statuses'
+
+/** Scope the gateway requires for anything that acts, such as sending messages. */
+export const WRITE_SCOPE = 'operator.write'
+// Reply text kept per run, matching the CLI runner's output limit
+const MAX_OUTPUT_CHARS = 1024 * 1024
+// Time the gateway gets to accept the message; the run itself may take longer
+const ACCEPT_TIMEOUT = 30 * 1000
+// Asks the gateway to stop an agent run
+const ABORT_METHOD = 'chat.abort'
+
+export type AgentTransport = 'gateway' | 'cli'
+
+export interface GatewayAgentRequest {
+  agent: string
+  message: string
+  /** Continues this agent session, like the CLI's `--session-id`. */
+  sessionId?: string
+  /** Lets the gateway drop a retried request instead of running it twice. */
+  idempotencyKey: string
+  /** Gives up on the run after this long. */
+  timeoutMs: number
+  /** Receives reply text as it streams in. */
+  onOutput?: (text: string) => void
+  /** Stops the run. */
+  signal?: AbortSignal
+}
+
+export interface GatewayAgentResult {
+  runId: string
+  status: 'completed' | 'failed' | 'aborted'
+  output: string
+  error?: string
+  /** Stopped through the request's signal. */
+  stopped: boolean
+  timedOut: boolean
+  durationMs: number
+}
+
+type Fields = Record<string, unknown>
+
+function record(value: unknown): Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Fields)
+    : {}
+}
+
+function runIdOf(payload: unknown): string | undefined {
+  const runId = record(payload).runId
+  return typeof runId === 'string' && runId !== '' ? runId : undefined
+}
+
+// Best effort: if the gateway cannot abort, the run finishes unobserved
+function abortRun(client: GatewayClient, runId: string, sessionId: string | undefined): void {
+  client
+    .call(ABORT_METHOD, { runId, sessionId }, { timeoutMs: ACCEPT_TIMEOUT })
+    .catch((error: unknown) => {
+      console.warn(`Failed to abort agent run ${runId}:`, (error as Error).message)
+    })
+}
+
+/**
+ * Sends a message to an agent through the gateway's `agent` RPC and follows
+ * the run's agent and chat events until it ends, collecting the reply. The
+ * RPC only acknowledges the message; the reply arrives as events for the
+ * run id it returns. Events that arrive before the acknowledgement are held
+ * back until the run id is known.
+ *
+ * Stopping through the signal asks the gateway to abort the run, by the
+ * idempotency key if the run id has not arrived yet, and stops following it.
+ */
+export function sendViaGateway(
+  client: GatewayClient,
+  request: GatewayAgentRequest
+): Promise<GatewayAgentResult> {
+  if (!client.hasScope(WRITE_SCOPE)) {
+    return Promise.reject(
+      new Error(
+        `Sending messages needs the ${WRITE_SCOPE} scope, which this profile does not request`
+      )
+    )
+  }
+
+  return new Promise((resolve, reject) => {
+    const started = Date.now()
+    const early: RunSignal[] = []
+    let runId: string | undefined
+    let output = ''
+    let settled = false
+
+    const finish = (
+      status: GatewayAgentResult['status'],
+      error?: string,
+      { stopped = false, timedOut = false } = {}
+    ): void => {
+      if (settled) return
+      settled = true
+      cleanup()
+      resolve({
+        runId: runId ?? request.idempotencyKey,
+        status,
+        output,
+        error,
+        stopped,
+        timedOut,
+        durationMs: Date.now() - started
+      })
+    }
+    const fail = (error: Error): void => {
+      if (settled) return
+      settled = true
+      cleanup()
+      reject(error)
+    }
+
+    const apply = (signal: RunSignal): void => {
+      switch (signal.phase) {
+        case 'output':
+          if (signal.text && output.length < MAX_OUTPUT_CHARS) {
+            const text = signal.text.slice(0, MAX_OUTPUT_CHARS - output.length)
+            output += text
+            request.onOutput?.(text)
+          }
+          return
+        case 'message':
+          // Gateways that do not stream deliver the whole reply as the final chat message
+          if (signal.status !== 'final') return
+          if (!output && signal.text) {
+            output = signal.text.slice(0, MAX_OUTPUT_CHARS)
+            request.onOutput?.(output)
+          }
+          finish('completed')
+          return
+        case 'error':
+          finish('failed', signal.error ?? 'Agent run failed')
+          return
+        case 'end': {
+          const status = signal.status?.toLowerCase() ?? ''
+          if (FAILED_STATUSES.includes(status)) {
+            finish('failed', signal.error ?? `Agent run ${status}`)
+          } else if (ABORTED_STATUSES.includes(status)) {
+            finish('aborted', 'Agent run was aborted')
+          } else {
+            finish('completed')
+          }
+          return
+        }
+      }
+    }
+
+    const onMessage = (event: GatewayEvent): void => {
+      const signal = readSignal(event)
+      if (!signal) return
+      if (!runId) early.push(signal)
+      else if (signal.runId === runId) apply(signal)
+    }
+    const onDisconnected = (): void => fail(new Error('Gateway connection lost during the run'))
+    const onAbort = (): void => {
+      if (settled) return
+      abortRun(client, runId ?? request.idempotencyKey, request.sessionId)
+      finish('aborted', undefined, { stopped: true })
+    }
+    const timer = setTimeout(() => {
+      const seconds = Math.round(request.timeoutMs / 1000)
+      finish('failed', `Timed out after ${seconds}s`, { timedOut: true })
+    }, request.timeoutMs)
+
+    function cleanup(): void {
+      clearTimeout(timer)
+      client.off('message', onMessage)
+      client.off('disconnected', onDisconnected)
+      request.signal?.removeEventListener('abort', onAbort)
+    }
+
+    // Nothing was sent yet, so there is no run to abort
+    if (request.signal?.aborted) {
+      finish('aborted', undefined, { stopped: true })
+      return
+    }
+    client.on('message', onMessage)
+    client.on('disconnected', onDisconnected)
+    request.signal?.addEventListener('abort', onAbort, { once: true })
+
+    const params = {
+      message: request.message,
+      agentId: request.agent,
+      sessionId: request.sessionId,
+      idempotencyKey: request.idempotencyKey
+    }
+    client.call('agent', params, { timeoutMs: ACCEPT_TIMEOUT, signal: request.signal }).then(
+      (payload) => {
+        if (settled) return
+        runId = runIdOf(payload) ?? request.idempotencyKey
+        for (const signal of early.splice(0)) {
+          if (signal.runId === runId) apply(signal)
+        }
+      },
+      (error: unknown) => fail(error as Error)
+    )
+  })
+}
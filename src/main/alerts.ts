@@ -0,0 +1,434 @@
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import type { StoredEvent } from './eventStore'
+import type { GatewaySummary } from '../shared/gateway'
+import { AtomicJsonFile } from './atomicFile'
+import { globToRegExp } from './eventQuery'
+import { cronOutcome } from './metrics'
+import { FAILED_STATUSES } from '../shared/statuses'
+
+const ALERTS_FILE = 'alerts.json'
+// Fired alerts kept for the history view, oldest dropped first
+const MAX_HISTORY = 200
+// Silence and disconnection are time based, so they are re-checked on a timer
+const CHECK_INTERVAL_MS = 30 * 1000
+const MINUTE_MS = 60 * 1000
+
+const SEVERITIES = ['info', 'warning', 'critical'] as const
+export type AlertSeverity = (typeof SEVERITIES)[number]
+
+/** Tab of the app that shows what an alert is about. */
+export type AlertTab = 'dashboard' | 'events' | 'cron'
+
+export type AlertCondition =
+  /** A cron run failed; `job` is a job id or name, empty for any job. */
+  | { kind: 'cronFailed'; job?: string }
+  /** A connected gateway delivered no events for this long. */
+  | { kind: 'silence'; minutes: number }
+  /** A gateway has been trying to reconnect for this long. */
+  | { kind: 'disconnected'; minutes: number }
+  /** An event payload matches `pattern` (`error` or `/error/i`), optionally only for `types`. */
+  | { kind: 'payloadMatch'; pattern: string; types?: string }
+
+export interface AlertRule {
+  id: string
+  name: string
+  enabled: boolean
+  /** Gateway the rule watches, or `all`. */
+  gatewayId: string
+  severity: AlertSeverity
+  /** Minimum time between two alerts of this rule for the same gateway and subject. */
+  cooldownMinutes: number
+  condition: AlertCondition
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id'> & { id?: string }
+
+export interface AlertRecord {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: AlertSeverity
+  gatewayId: string
+  message: string
+  firedAt: number
+  tab: AlertTab
+  /** Event that triggered the alert, for event-driven rules. */
+  eventId?: number
+}
+
+interface AlertsFile {
+  rules: AlertRule[]
+  history: AlertRecord[]
+}
+
+/** The fields of a cron job listing the engine looks at. */
+interface CronJobState {
+  id?: string
+  name?: string
+  state?: {
+    lastRunAtMs?: number
+    status?: string
+    lastStatus?: string
+    lastError?: string
+  }
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+function compilePattern(pattern: string): RegExp {
+  const literal = /^\/(.*)\/([a-z]*)$/s.exec(pattern)
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'i')
+}
+
+function validate(input: AlertRuleInput): void {
+  if (!input.name.trim()) throw new Error('Rule name is required')
+  if (!SEVERITIES.includes(input.severity)) throw new Error(`Unknown severity: ${input.severity}`)
+  if (!(input.cooldownMinutes >= 0)) throw new Error('Cooldown must be zero or more minutes')
+  const condition = input.condition
+  switch (condition.kind) {
+    case 'cronFailed':
+      return
+    case 'silence':
+    case 'disconnected':
+      if (!(condition.minutes > 0)) throw new Error('Duration must be more than zero minutes')
+      return
+    case 'payloadMatch':
+      if (!condition.pattern) throw new Error('Pattern is required')
+      try {
+        compilePattern(condition.pattern)
+      } catch (error: unknown) {
+        throw new Error(`Invalid pattern: ${(error as Error).message}`)
+      }
+      return
+    default:
+      throw new Error(`Unknown condition: ${(condition as { kind: string }).kind}`)
+  }
+}
+
+function jobMatches(filter: string | undefined, id?: string, name?: string): boolean {
+  if (!filter) return true
+  const wanted = filter.trim().toLowerCase()
+  return id?.toLowerCase() === wanted || name?.toLowerCase() === wanted
+}
+
+// A slice of `text` around a match, for the alert message
+function excerpt(text: string, match: RegExpExecArray): string {
+  const start = Math.max(0, match.index - 40)
+  const end = Math.min(text.length, match.index + match[0].length + 40)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * User-defined alert rules evaluated over the gateway event stream, gateway
+ * connection states and cron job listings. Rules and fired alerts persist in
+ * userData. Emits `fired` with each new AlertRecord.
+ */
+export class AlertEngine extends EventEmitter {
+  private file: AtomicJsonFile
+  private data: AlertsFile = { rules: [], history: [] }
+  private patterns = new Map<string, RegExp>()
+  // Cooldowns, keyed by rule, gateway and subject
+  private lastFired = new Map<string, number>()
+  private names = new Map<string, string>()
+  private connected = new Set<string>()
+  private disconnectedSince = new Map<string, number>()
+  private lastEventAt = new Map<string, number>()
+  // Silence and disconnection alert once per episode, keyed like cooldowns
+  private episodes = new Set<string>()
+  // Newest cron run already judged per `<gatewayId>:<jobId>`, and failures seen as events
+  private cronSeen = new Map<string, number>()
+  private cronFailedAt = new Map<string, number>()
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(dir: string) {
+    super()
+    this.file = new AtomicJsonFile(join(dir, ALERTS_FILE))
+  }
+
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.file.path, 'utf-8')) as AlertsFile
+      this.data = {
+        rules: Array.isArray(parsed.rules) ? parsed.rules : [],
+        history: Array.isArray(parsed.history) ? parsed.history : []
+      }
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read alert rules:', (error as Error).message)
+      }
+    }
+    this.compile()
+  }
+
+  start(): void {
+    this.timer ??= setInterval(() => this.check(), CHECK_INTERVAL_MS)
+  }
+
+  dispose(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  rules(): AlertRule[] {
+    return this.data.rules
+  }
+
+  /** Fired alerts, newest first. */
+  history(): AlertRecord[] {
+    return [...this.data.history].reverse()
+  }
+
+  /** Whether any enabled rule needs cron job listings. */
+  watchesCron(): boolean {
+    return this.data.rules.some((rule) => rule.enabled && rule.condition.kind === 'cronFailed')
+  }
+
+  async save(input: AlertRuleInput): Promise<AlertRule> {
+    validate(input)
+    const rule: AlertRule = {
+      id: input.id ?? randomUUID(),
+      name: input.name.trim(),
+      enabled: input.enabled,
+      gatewayId: input.gatewayId || 'all',
+      severity: input.severity,
+      cooldownMinutes: input.cooldownMinutes,
+      condition: input.condition
+    }
+    const index = this.data.rules.findIndex((r) => r.id === rule.id)
+    if (index === -1) {
+      this.data.rules.push(rule)
+    } else {
+      this.data.rules[index] = rule
+    }
+    this.compile()
+    await this.persist()
+    return rule
+  }
+
+  async remove(id: string): Promise<void> {
+    this.data.rules = this.data.rules.filter((rule) => rule.id !== id)
+    this.compile()
+    await this.persist()
+  }
+
+  async clearHistory(): Promise<void> {
+    this.data.history = []
+    await this.persist()
+  }
+
+  ingest(event: StoredEvent): void {
+    if (event.synthetic) return
+    const gatewayId = event.gatewayId
+    this.lastEventAt.set(gatewayId, event.timestamp)
+    for (const rule of this.data.rules) {
+      this.episodes.delete(`${rule.id}:${gatewayId}:silence`)
+    }
+
+    const outcome = cronOutcome(event)
+    const payload = (event.payload ?? {}) as Record<string, unknown>
+    const jobId = str(payload.jobId) ?? str(payload.id)
+    if (outcome === 'failed' && jobId) {
+      this.cronFailedAt.set(`${gatewayId}:${jobId}`, event.timestamp)
+    }
+
+    for (const rule of this.active(gatewayId)) {
+      const condition = rule.condition
+      if (condition.kind === 'cronFailed' && outcome === 'failed') {
+        if (!jobMatches(condition.job, jobId, str(payload.name))) continue
+        const error = str(payload.error) ?? str(payload.status)
+        this.fire(rule, gatewayId, jobId ?? event.type, {
+          message: `Cron job ${jobId ?? 'run'} failed${error ? `: ${error}` : ''}`,
+          tab: 'cron',
+          eventId: event.id
+        })
+      } else if (condition.kind === 'payloadMatch') {
+        if (condition.types && !globToRegExp(condition.types).test(event.type)) continue
+        const pattern = this.patterns.get(rule.id)
+        if (!pattern) continue
+        const text = JSON.stringify(event.payload ?? null)
+        // Patterns written with the g or y flag keep state between calls
+        pattern.lastIndex = 0
+        const match = pattern.exec(text)
+        if (!match) continue
+        this.fire(rule, gatewayId, '', {
+          message: `${event.type}: ${excerpt(text, match)}`,
+          tab: 'events',
+          eventId: event.id
+        })
+      }
+    }
+  }
+
+  /** Tracks connection states for the silence and disconnection rules. */
+  updateStatus(summary: GatewaySummary): void {
+    const { id, name, status } = summary
+    this.names.set(id, name)
+    if (status.connected) {
+      // Silence is measured from the moment the gateway (re)connects
+      if (!this.connected.has(id)) {
+        this.lastEventAt.set(id, Math.max(this.lastEventAt.get(id) ?? 0, Date.now()))
+      }
+      this.connected.add(id)
+      this.disconnectedSince.delete(id)
+      this.clearEpisodes(id, 'disconnected')
+    } else {
+      this.connected.delete(id)
+      this.clearEpisodes(id, 'silence')
+      // An idle gateway was disconnected on purpose
+      if (status.state === 'idle') {
+        this.disconnectedSince.delete(id)
+      } else if (!this.disconnectedSince.has(id)) {
+        this.disconnectedSince.set(id, Date.now())
+      }
+    }
+  }
+
+  forgetGateway(gatewayId: string): void {
+    this.names.delete(gatewayId)
+    this.connected.delete(gatewayId)
+    this.disconnectedSince.delete(gatewayId)
+    this.lastEventAt.delete(gatewayId)
+  }
+
+  /**
+   * Judges a cron job listing. The first listing of a gateway only records
+   * the latest runs, so failures from before the app started stay quiet.
+   */
+  checkCronJobs(gatewayId: string, jobs: unknown[]): void {
+    for (const job of jobs as CronJobState[]) {
+      const lastRun = job.state?.lastRunAtMs
+      if (!job.id || lastRun === undefined) continue
+      const key = `${gatewayId}:${job.id}`
+      const seen = this.cronSeen.get(key)
+      this.cronSeen.set(key, lastRun)
+      if (seen === undefined || lastRun <= seen) continue
+
+      const status = (job.state?.lastStatus ?? job.state?.status)?.toLowerCase()
+      if (!FAILED_STATUSES.includes(status ?? '')) continue
+      // Already alerted on from its cron event
+      if ((this.cronFailedAt.get(key) ?? 0) >= lastRun) continue
+
+      for (const rule of this.active(gatewayId)) {
+        if (rule.condition.kind !== 'cronFailed') continue
+        if (!jobMatches(rule.condition.job, job.id, job.name)) continue
+        const error = job.state?.lastError
+        this.fire(rule, gatewayId, job.id, {
+          message: `Cron job ${job.name ?? job.id} failed${error ? `: ${error}` : ''}`,
+          tab: 'cron'
+        })
+      }
+    }
+  }
+
+  /** Evaluates the time-based rules; runs on a timer once started. */
+  check(now = Date.now()): void {
+    for (const rule of this.data.rules) {
+      if (!rule.enabled) continue
+      const condition = rule.condition
+      if (condition.kind === 'silence') {
+        for (const gatewayId of this.connected) {
+          if (!this.applies(rule, gatewayId)) continue
+          const quietFor = now - (this.lastEventAt.get(gatewayId) ?? now)
+          if (quietFor < condition.minutes * MINUTE_MS) continue
+          this.fireOnce(rule, gatewayId, 'silence', now, {
+            message: `No events from ${this.nameOf(gatewayId)} for ${Math.floor(quietFor / MINUTE_MS)} minutes`,
+            tab: 'events'
+          })
+        }
+      } else if (condition.kind === 'disconnected') {
+        for (const [gatewayId, since] of this.disconnectedSince) {
+          if (!this.applies(rule, gatewayId)) continue
+          const downFor = now - since
+          if (downFor < condition.minutes * MINUTE_MS) continue
+          this.fireOnce(rule, gatewayId, 'disconnected', now, {
+            message: `${this.nameOf(gatewayId)} has been disconnected for ${Math.floor(downFor / MINUTE_MS)} minutes`,
+            tab: 'dashboard'
+          })
+        }
+      }
+    }
+  }
+
+  private active(gatewayId: string): AlertRule[] {
+    return this.data.rules.filter((rule) => rule.enabled && this.applies(rule, gatewayId))
+  }
+
+  private applies(rule: AlertRule, gatewayId: string): boolean {
+    return rule.gatewayId === 'all' || rule.gatewayId === gatewayId
+  }
+
+  private nameOf(gatewayId: string): string {
+    return this.names.get(gatewayId) ?? gatewayId
+  }
+
+  private clearEpisodes(gatewayId: string, kind: 'silence' | 'disconnected'): void {
+    for (const rule of this.data.rules) {
+      this.episodes.delete(`${rule.id}:${gatewayId}:${kind}`)
+    }
+  }
+
+  private fireOnce(
+    rule: AlertRule,
+    gatewayId: string,
+    kind: 'silence' | 'disconnected',
+    now: number,
+    alert: Pick<AlertRecord, 'message' | 'tab'>
+  ): void {
+    const key = `${rule.id}:${gatewayId}:${kind}`
+    if (this.episodes.has(key)) return
+    this.episodes.add(key)
+    this.fire(rule, gatewayId, kind, alert, now)
+  }
+
+  private fire(
+    rule: AlertRule,
+    gatewayId: string,
+    subject: string,
+    alert: Pick<AlertRecord, 'message' | 'tab' | 'eventId'>,
+    now = Date.now()
+  ): void {
+    const key = `${rule.id}:${gatewayId}:${subject}`
+    const last = this.lastFired.get(key)
+    if (last !== undefined && now - last < rule.cooldownMinutes * MINUTE_MS) return
+    this.lastFired.set(key, now)
+
+    const record: AlertRecord = {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      gatewayId,
+      firedAt: now,
+      ...alert
+    }
+    this.data.history.push(record)
+    if (this.data.history.length > MAX_HISTORY) {
+      this.data.history.splice(0, this.data.history.length - MAX_HISTORY)
+    }
+    this.persist().catch((error: unknown) => {
+      console.error('Failed to save alert history:', (error as Error).message)
+    })
+    this.emit('fired', record)
+  }
+
+  private compile(): void {
+    this.patterns.clear()
+    for (const rule of this.data.rules) {
+      if (rule.condition.kind !== 'payloadMatch') continue
+      try {
+        this.patterns.set(rule.id, compilePattern(rule.condition.pattern))
+      } catch (error: unknown) {
+        console.error(`Invalid pattern in alert rule ${rule.name}:`, (error as Error).message)
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(this.data)
+  }
+}
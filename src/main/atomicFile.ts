@@ -0,0 +1,36 @@
+import { rename, writeFile } from 'fs/promises'
+
+/**
+ * A JSON file that is replaced whole: each write goes to a temporary file
+ * that is then renamed over the original, so a crash leaves either the old
+ * or the new content. Writes run one at a time in the order they were made.
+ */
+export class AtomicJsonFile {
+  readonly path: string
+  private mode: number | undefined
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(path: string, mode?: number) {
+    this.path = path
+    this.mode = mode
+  }
+
+  /** Serializes `data` now and writes it once earlier writes have finished. */
+  write(data: unknown): Promise<void> {
+    const content = JSON.stringify(data, null, 2)
+    const temp = `${this.path}.tmp`
+    const write = this.queue.then(async () => {
+      await writeFile(temp, content, { mode: this.mode })
+      await rename(temp, this.path)
+    })
+    this.queue = write.catch(() => undefined)
+    return write
+  }
+
+  /** Renames an unreadable file out of the way so the next write cannot replace it. */
+  async setAside(): Promise<string> {
+    const aside = `${this.path}.corrupt-${Date.now()}`
+    await rename(this.path, aside)
+    return aside
+  }
+}
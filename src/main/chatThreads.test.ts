@@ -0,0 +1,52 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ChatThreadStore } from './chatThreads'
+
+describe('ChatThreadStore persistence', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    dir = await mkdtemp(join(tmpdir(), 'clawd-threads-'))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('keeps every message when saves overlap', async () => {
+    const store = new ChatThreadStore(dir)
+    await store.load()
+    const thread = await store.create('main')
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        store.append(thread.id, { role: 'user', text: `message ${i}` })
+      )
+    )
+
+    const reloaded = new ChatThreadStore(dir)
+    await reloaded.load()
+    expect(reloaded.get(thread.id)?.messages.map((m) => m.text)).toEqual(
+      Array.from({ length: 20 }, (_, i) => `message ${i}`)
+    )
+    expect(await readdir(dir)).toEqual(['threads.json'])
+  })
+
+  it('moves a corrupt file aside instead of overwriting it', async () => {
+    await writeFile(join(dir, 'threads.json'), '{"threads": [')
+
+    const store = new ChatThreadStore(dir)
+    await store.load()
+    await store.create('main')
+
+    const files = await readdir(dir)
+    const aside = files.find((name) => name.startsWith('threads.json.corrupt-'))
+    expect(aside).toBeDefined()
+    expect(await readFile(join(dir, aside!), 'utf-8')).toBe('{"threads": [')
+    expect(store.list()).toHaveLength(1)
+  })
+})
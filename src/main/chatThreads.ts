@@ -0,0 +1,221 @@
+import { randomUUID } from 'crypto'
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import type { AgentTransport } from './agentTransport'
+import { AtomicJsonFile } from './atomicFile'
+
+const THREADS_FILE = 'threads.json'
+const TITLE_LENGTH = 60
+const SNIPPET_RADIUS = 40
+const MAX_SEARCH_RESULTS = 100
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'agent'
+  text: string
+  at: number
+  /** Agent replies: how the run ended. */
+  exitCode?: number | null
+  durationMs?: number
+  stopped?: boolean
+  error?: string
+  /** Agent replies: whether the gateway or the CLI carried the message. */
+  transport?: AgentTransport
+}
+
+export interface ChatThread {
+  id: string
+  agent: string
+  title: string
+  /** Passed to the CLI so every message continues the same agent session. */
+  sessionId: string
+  createdAt: number
+  updatedAt: number
+  messages: ChatMessage[]
+}
+
+export interface ChatThreadSummary {
+  id: string
+  agent: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  messageCount: number
+  /** Start of the latest message. */
+  preview: string
+}
+
+export interface ChatSearchResult {
+  threadId: string
+  agent: string
+  title: string
+  messageId: string
+  role: ChatMessage['role']
+  at: number
+  /** Text around the first match. */
+  snippet: string
+}
+
+function summarize(thread: ChatThread): ChatThreadSummary {
+  const last = thread.messages[thread.messages.length - 1]
+  return {
+    id: thread.id,
+    agent: thread.agent,
+    title: thread.title,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    messageCount: thread.messages.length,
+    preview: last ? last.text.slice(0, 120) : ''
+  }
+}
+
+function titleFrom(text: string): string {
+  const line = text.trim().split('\n')[0]
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS)
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ')
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * Conversations from the send tab, one list of threads per agent, kept in
+ * userData so they survive restarts.
+ */
+export class ChatThreadStore {
+  private file: AtomicJsonFile
+  private threads = new Map<string, ChatThread>()
+
+  constructor(dir: string) {
+    this.file = new AtomicJsonFile(join(dir, THREADS_FILE), 0o600)
+  }
+
+  async load(): Promise<void> {
+    let content: string
+    try {
+      content = await readFile(this.file.path, 'utf-8')
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read chat threads:', (error as Error).message)
+      }
+      return
+    }
+    try {
+      const parsed = JSON.parse(content) as { threads?: ChatThread[] }
+      for (const thread of parsed.threads ?? []) this.threads.set(thread.id, thread)
+    } catch (error: unknown) {
+      console.error('Chat threads file is corrupt:', (error as Error).message)
+      // Keep the damaged history for recovery instead of overwriting it on the next save
+      await this.file.setAside().then(
+        (aside) => console.error(`Moved it to ${aside}`),
+        (renameError: unknown) => {
+          console.error('Failed to move it aside:', (renameError as Error).message)
+        }
+      )
+    }
+  }
+
+  /** Threads of one agent, or all of them, most recently active first. */
+  list(agent?: string): ChatThreadSummary[] {
+    return [...this.threads.values()]
+      .filter((thread) => !agent || thread.agent === agent)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(summarize)
+  }
+
+  get(id: string): ChatThread | undefined {
+    return this.threads.get(id)
+  }
+
+  /** Starts an empty thread; it takes its title from the first message. */
+  async create(agent: string): Promise<ChatThread> {
+    const now = Date.now()
+    const thread: ChatThread = {
+      id: randomUUID(),
+      agent,
+      title: '',
+      sessionId: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    }
+    this.threads.set(thread.id, thread)
+    await this.persist()
+    return thread
+  }
+
+  async rename(id: string, title: string): Promise<ChatThread> {
+    const thread = this.require(id)
+    thread.title = title.trim()
+    await this.persist()
+    return thread
+  }
+
+  async remove(id: string): Promise<void> {
+    this.threads.delete(id)
+    await this.persist()
+  }
+
+  async append(id: string, message: Omit<ChatMessage, 'id' | 'at'>): Promise<ChatMessage> {
+    const thread = this.require(id)
+    const entry: ChatMessage = { id: randomUUID(), at: Date.now(), ...message }
+    thread.messages.push(entry)
+    thread.updatedAt = entry.at
+    if (!thread.title && message.role === 'user') thread.title = titleFrom(message.text)
+    await this.persist()
+    return entry
+  }
+
+  /** Case-insensitive substring search over every message, newest first. */
+  search(query: string): ChatSearchResult[] {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return []
+    const results: ChatSearchResult[] = []
+    for (const thread of this.threads.values()) {
+      for (const message of thread.messages) {
+        const index = message.text.toLowerCase().indexOf(needle)
+        if (index === -1) continue
+        results.push({
+          threadId: thread.id,
+          agent: thread.agent,
+          title: thread.title,
+          messageId: message.id,
+          role: message.role,
+          at: message.at,
+          snippet: snippetAround(message.text, index, needle.length)
+        })
+      }
+    }
+    return results.sort((a, b) => b.at - a.at).slice(0, MAX_SEARCH_RESULTS)
+  }
+
+  /** The thread as a Markdown transcript. */
+  toMarkdown(id: string): string {
+    const thread = this.require(id)
+    const lines = [
+      `# ${thread.title || 'Untitled thread'}`,
+      '',
+      `Agent: ${thread.agent} · Started ${new Date(thread.createdAt).toLocaleString()}`
+    ]
+    for (const message of thread.messages) {
+      const time = new Date(message.at).toLocaleString()
+      lines.push('', `## ${message.role === 'user' ? 'You' : thread.agent} (${time})`, '')
+      lines.push(message.text || '_No output_')
+      if (message.error) lines.push('', `> Error: ${message.error}`)
+    }
+    return `${lines.join('\n')}\n`
+  }
+
+  private require(id: string): ChatThread {
+    const thread = this.threads.get(id)
+    if (!thread) throw new Error(`Unknown thread: ${id}`)
+    return thread
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write({ threads: [...this.threads.values()] })
+  }
+}
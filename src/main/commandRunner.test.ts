@@ -0,0 +1,197 @@
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { CommandError, CommandRunner, assertName, cmdShimTarget } from './commandRunner'
+
+// Stands in for clawdbot: echoes its argv as JSON, or misbehaves on request
+const FAKE_CLI = `#!/usr/bin/env node
+const { spawn } = require('child_process')
+const [mode, ...rest] = process.argv.slice(2)
+if (mode === 'group') {
+  // A helper that outlives its parent unless the whole group is signalled
+  const helper = spawn('sleep', ['30'], { stdio: 'ignore' })
+  process.stdout.write(String(helper.pid) + '\\n')
+  setInterval(() => undefined, 1000)
+} else if (mode === 'flood') {
+  process.stdout.write('o'.repeat(Number(rest[0])))
+  process.stderr.write('e'.repeat(Number(rest[0])))
+} else {
+  process.stdout.write(JSON.stringify(process.argv.slice(2)))
+}
+`
+
+async function isAlive(pid: number): Promise<boolean> {
+  try {
+    process.kill(pid, 0)
+  } catch {
+    return false
+  }
+  // Orphans may linger as zombies until something reaps them
+  const stat = await readFile(`/proc/${pid}/stat`, 'utf-8').catch(() => '')
+  return !/^\d+ \(.*\) Z/.test(stat)
+}
+
+async function waitUntilDead(pid: number, timeoutMs = 3000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (!(await isAlive(pid))) return true
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+  return false
+}
+
+describe('assertName', () => {
+  it.each(['main', 'morning-briefing', 'agent.v2', 'ops@host', 'ns:skill_1'])(
+    'accepts %s',
+    (name) => {
+      expect(assertName(name, 'skill name')).toBe(name)
+    }
+  )
+
+  it.each([
+    ['a leading dash', '-rf'],
+    ['a long option', '--help'],
+    ['a space', 'a b'],
+    ['a tab', 'a\tb'],
+    ['a newline', 'a\nb'],
+    ['a semicolon', 'a;rm'],
+    ['command substitution', '$(id)'],
+    ['backticks', '`id`'],
+    ['a backslash', 'a\\b'],
+    ['a pipe', 'a|b'],
+    ['an empty string', '']
+  ])('rejects %s', (_, name) => {
+    expect(() => assertName(name, 'skill name')).toThrow(CommandError)
+  })
+
+  it('rejects values that are not strings', () => {
+    expect(() => assertName(['main'], 'agent name')).toThrow('Invalid agent name')
+    expect(() => assertName(undefined, 'agent name')).toThrow(CommandError)
+  })
+})
+
+describe.skipIf(process.platform === 'win32')('CommandRunner', () => {
+  let dir: string
+  let runner: CommandRunner
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'clawd-cli-'))
+    const binary = join(dir, 'clawdbot')
+    await writeFile(binary, FAKE_CLI)
+    await chmod(binary, 0o755)
+    runner = new CommandRunner(dir)
+    await runner.setBinary(binary)
+  })
+
+  afterEach(async () => {
+    runner.killAll()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('passes shell metacharacters to the child as literal arguments', async () => {
+    const marker = join(dir, 'pwned')
+    const hostile = [
+      `--message=$(touch ${marker})`,
+      `\`touch ${marker}\``,
+      `; touch ${marker}`,
+      `| touch ${marker} && echo "quoted" 'single' \\ * ?`,
+      '%PATH% !history $HOME\nsecond line'
+    ]
+
+    const result = await runner.runChecked(['agent', ...hostile])
+
+    expect(JSON.parse(result.stdout)).toEqual(['agent', ...hostile])
+    expect(existsSync(marker)).toBe(false)
+  })
+
+  it('kills the whole process group on timeout', async () => {
+    let helperPid: number | undefined
+    const result = await runner.run(['group'], {
+      timeoutMs: 300,
+      onOutput: (stream, text) => {
+        if (stream === 'stdout') helperPid ??= Number(text.trim())
+      }
+    })
+
+    expect(result.timedOut).toBe(true)
+    expect(result.exitCode).toBeNull()
+    expect(result.signal).toBe('SIGTERM')
+    expect(helperPid).toBeGreaterThan(0)
+    expect(await waitUntilDead(helperPid!)).toBe(true)
+  })
+
+  it('stops a run through kill()', async () => {
+    const running = runner.start(['group'], { timeoutMs: 10_000 })
+    setTimeout(() => runner.kill(running.id), 200)
+
+    const result = await running.result
+    expect(result.killed).toBe(true)
+    expect(result.timedOut).toBe(false)
+  })
+
+  it('keeps at most maxOutputBytes of stdout and stderr', async () => {
+    const streamed = { stdout: 0, stderr: 0 }
+    const result = await runner.run(['flood', '200000'], {
+      maxOutputBytes: 1000,
+      onOutput: (stream, text) => {
+        streamed[stream] += text.length
+      }
+    })
+
+    expect(result.exitCode).toBe(0)
+    expect(result.truncated).toBe(true)
+    expect(result.stdout).toBe('o'.repeat(1000))
+    expect(result.stderr).toBe('e'.repeat(1000))
+    expect(streamed).toEqual({ stdout: 1000, stderr: 1000 })
+  })
+
+  it('runs the script an npm .cmd shim points at with Node', async () => {
+    await writeFile(join(dir, 'cli.js'), FAKE_CLI.split('\n').slice(1).join('\n'))
+    const shim = join(dir, 'clawdbot.cmd')
+    await writeFile(shim, `@ECHO off\r\n"%_prog%"  "%dp0%\\cli.js" %*\r\n`)
+    await chmod(shim, 0o755)
+    await runner.setBinary(shim)
+
+    const result = await runner.runChecked(['agent', '--message=a & b'])
+    expect(JSON.parse(result.stdout)).toEqual(['agent', '--message=a & b'])
+  })
+})
+
+describe('cmdShimTarget', () => {
+  it('reads the script from a current npm shim', () => {
+    const shim = [
+      '@ECHO off',
+      'GOTO start',
+      ':find_dp0',
+      'SET dp0=%~dp0',
+      'EXIT /b',
+      ':start',
+      'SETLOCAL',
+      'CALL :find_dp0',
+      'IF EXIST "%dp0%\\node.exe" (',
+      '  SET "_prog=%dp0%\\node.exe"',
+      ') ELSE (',
+      '  SET "_prog=node"',
+      ')',
+      'endLocal & goto #_undefined_# 2>NUL || title %COMSPEC% & "%_prog%"  "%dp0%\\node_modules\\clawdbot\\dist\\cli.js" %*'
+    ].join('\r\n')
+    expect(cmdShimTarget(shim)).toBe('node_modules\\clawdbot\\dist\\cli.js')
+  })
+
+  it('reads the script from an older shim', () => {
+    const shim = [
+      '@IF EXIST "%~dp0\\node.exe" (',
+      '  "%~dp0\\node.exe"  "%~dp0\\node_modules\\clawdbot\\bin\\clawdbot.js" %*',
+      ') ELSE (',
+      '  node  "%~dp0\\node_modules\\clawdbot\\bin\\clawdbot.js" %*',
+      ')'
+    ].join('\r\n')
+    expect(cmdShimTarget(shim)).toBe('node_modules\\clawdbot\\bin\\clawdbot.js')
+  })
+
+  it('returns nothing for a batch file that is not a shim', () => {
+    expect(cmdShimTarget('@echo off\r\nclawdbot-real.exe %*\r\n')).toBeUndefined()
+  })
+})
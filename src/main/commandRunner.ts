@@ -0,0 +1,414 @@
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import { constants } from 'fs'
+import { access, readFile, writeFile } from 'fs/promises'
+import { homedir } from 'os'
+import { StringDecoder } from 'string_decoder'
+import { delimiter, dirname, extname, isAbsolute, join } from 'path'
+
+const CLI_FILE = 'cli.json'
+const IS_WINDOWS = process.platform === 'win32'
+// npm installs a `.cmd` shim on Windows, which is resolved to the script it runs
+const BINARY_NAMES = IS_WINDOWS ? ['clawdbot.exe', 'clawdbot.cmd'] : ['clawdbot']
+const SHIM_EXTENSIONS = ['.cmd', '.bat']
+// Apps started from the dock or a desktop launcher don't get the login shell's
+// PATH, so the usual install locations are searched as well
+const EXTRA_DIRS = [
+  ...(IS_WINDOWS && process.env['APPDATA'] ? [join(process.env['APPDATA'], 'npm')] : []),
+  join(homedir(), '.local', 'bin'),
+  join(homedir(), '.npm-global', 'bin'),
+  join(homedir(), '.bun', 'bin'),
+  '/opt/homebrew/bin',
+  '/usr/local/bin',
+  '/usr/bin'
+]
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024
+// Time a process gets to exit after SIGTERM before it is killed outright
+const KILL_GRACE_MS = 2000
+const PROCESS_GROUPS = !IS_WINDOWS
+
+export interface RunOptions {
+  /** Kills the process after this long. Defaults to 30s. */
+  timeoutMs?: number
+  /** Bytes kept per stream; the rest is read and discarded. Defaults to 1 MB. */
+  maxOutputBytes?: number
+  /** Written to stdin, which is then closed. */
+  input?: string
+  /** Receives output as it arrives, up to maxOutputBytes per stream. */
+  onOutput?: (stream: OutputStream, text: string) => void
+}
+
+export type OutputStream = 'stdout' | 'stderr'
+
+/** How a command ended. A non-zero exit is a result, not an exception. */
+export interface RunResult {
+  args: string[]
+  exitCode: number | null
+  /** Signal that ended the process, if it did not exit on its own. */
+  signal: NodeJS.Signals | null
+  stdout: string
+  stderr: string
+  /** Output went past maxOutputBytes and was cut short. */
+  truncated: boolean
+  timedOut: boolean
+  /** Stopped through kill() or killAll(). */
+  killed: boolean
+  durationMs: number
+}
+
+export interface RunningCommand {
+  id: string
+  /** Settles when the process has exited; rejects only if it could not be started. */
+  result: Promise<RunResult>
+  kill(): void
+}
+
+/** The program actually spawned for the CLI, and what goes before its arguments. */
+interface Launcher {
+  /** The resolved binary this launches. */
+  binary: string
+  file: string
+  args: string[]
+  env?: NodeJS.ProcessEnv
+}
+
+export interface CliInfo {
+  /** Path set in settings; detected automatically when absent. */
+  binary?: string
+  /** Executable that will be run, when one was found. */
+  resolved?: string
+  error?: string
+}
+
+/** A command that could not be run, exited with an error, or timed out. */
+export class CommandError extends Error {
+  result?: RunResult
+
+  constructor(message: string, result?: RunResult) {
+    super(message)
+    this.name = 'CommandError'
+    this.result = result
+  }
+}
+
+/**
+ * Rejects values that the CLI could mistake for a flag or that are not plain
+ * names, before they are passed as positional arguments.
+ */
+export function assertName(value: unknown, what: string): string {
+  if (typeof value !== 'string' || !/^[\w][\w.@:-]*$/.test(value)) {
+    throw new CommandError(`Invalid ${what}: ${JSON.stringify(value)}`)
+  }
+  return value
+}
+
+/** One-line description of a failed result, preferring what the CLI printed. */
+export function describeFailure(result: RunResult): string {
+  if (result.timedOut) return `Timed out after ${Math.round(result.durationMs / 1000)}s`
+  if (result.killed) return 'Stopped'
+  const output = (result.stderr.trim() || result.stdout.trim()).split('\n').slice(-3).join('\n')
+  const reason = result.signal ? `killed by ${result.signal}` : `exit code ${result.exitCode}`
+  return output ? `${output} (${reason})` : `clawdbot failed with ${reason}`
+}
+
+/**
+ * Finds the script an npm `.cmd` shim runs, relative to the shim's folder.
+ * Node refuses to spawn batch files without a shell, so the script is run
+ * with the app's own Node instead.
+ */
+export function cmdShimTarget(content: string): string | undefined {
+  // Shims quote their targets as "%dp0%\path" (newer) or "%~dp0\path" (older)
+  const targets = [...content.matchAll(/"%~?dp0%?\\([^"]+)"/g)]
+    .map((match) => match[1])
+    .filter((path) => !/(^|\\)node(\.exe)?$/i.test(path))
+  return targets.at(-1)
+}
+
+async function isExecutable(path: string): Promise<boolean> {
+  try {
+    await access(path, constants.X_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Collects a stream up to a byte limit, keeping whole chunks until the last
+class OutputBuffer {
+  private chunks: Buffer[] = []
+  private bytes = 0
+  // Holds back partial UTF-8 sequences between live chunks
+  private decoder = new StringDecoder('utf-8')
+  truncated = false
+
+  constructor(private limit: number) {}
+
+  /** Keeps what fits and returns it as text, for live output. */
+  push(chunk: Buffer): string {
+    const room = this.limit - this.bytes
+    if (room <= 0) {
+      this.truncated = true
+      return ''
+    }
+    if (chunk.length > room) {
+      this.truncated = true
+      chunk = chunk.subarray(0, room)
+    }
+    this.chunks.push(chunk)
+    this.bytes += chunk.length
+    return this.decoder.write(chunk)
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf-8')
+  }
+}
+
+/**
+ * Runs the clawdbot CLI without a shell: arguments go to the process as an
+ * array, so nothing in them is ever interpreted. Finds the binary on PATH
+ * and in common install locations unless a path is configured, enforces a
+ * timeout and an output limit on every run, and keeps track of running
+ * processes so they can be stopped.
+ */
+export class CommandRunner {
+  private path: string
+  private binary: string | undefined
+  private resolved: string | undefined
+  private launcher: Launcher | undefined
+  // Kill functions of running commands by id
+  private children = new Map<string, () => void>()
+
+  constructor(dir: string) {
+    this.path = join(dir, CLI_FILE)
+  }
+
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8')) as { binary?: string }
+      this.binary = parsed.binary || undefined
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read CLI settings:', (error as Error).message)
+      }
+    }
+  }
+
+  async info(): Promise<CliInfo> {
+    try {
+      return { binary: this.binary, resolved: await this.resolveBinary() }
+    } catch (error: unknown) {
+      return { binary: this.binary, error: (error as Error).message }
+    }
+  }
+
+  /** Sets the path of the clawdbot executable; empty restores automatic detection. */
+  async setBinary(binary: string): Promise<CliInfo> {
+    const trimmed = binary.trim()
+    if (trimmed && !isAbsolute(trimmed)) throw new Error('Binary path must be absolute')
+    this.binary = trimmed || undefined
+    this.resolved = undefined
+    this.launcher = undefined
+    await writeFile(this.path, JSON.stringify({ binary: this.binary }, null, 2))
+    return this.info()
+  }
+
+  /** Path of the executable to run: the configured one, CLAWDBOT_BIN, or a search. */
+  async resolveBinary(): Promise<string> {
+    if (this.resolved) return this.resolved
+    const explicit = this.binary ?? process.env['CLAWDBOT_BIN']
+    if (explicit) {
+      if (!(await isExecutable(explicit))) throw new CommandError(`Not executable: ${explicit}`)
+      this.resolved = explicit
+      return explicit
+    }
+    const dirs = [...(process.env['PATH'] ?? '').split(delimiter).filter(Boolean), ...EXTRA_DIRS]
+    for (const dir of new Set(dirs)) {
+      for (const name of BINARY_NAMES) {
+        const candidate = join(dir, name)
+        if (await isExecutable(candidate)) {
+          this.resolved = candidate
+          return candidate
+        }
+      }
+    }
+    throw new CommandError('clawdbot was not found on PATH; set its location in Settings')
+  }
+
+  /** Starts clawdbot with `args` and returns a handle to await or stop it. */
+  start(args: string[], options: RunOptions = {}): RunningCommand {
+    const id = randomUUID()
+    let stop: (() => void) | undefined
+    let stopRequested = false
+    const result = this.resolveLauncher().then((launcher) =>
+      this.spawn(id, launcher, args, options, (kill) => {
+        stop = kill
+        if (stopRequested) kill()
+      })
+    )
+    return {
+      id,
+      result,
+      kill: () => {
+        stopRequested = true
+        stop?.()
+      }
+    }
+  }
+
+  /** Runs clawdbot to completion. Resolves with any exit code. */
+  run(args: string[], options: RunOptions = {}): Promise<RunResult> {
+    return this.start(args, options).result
+  }
+
+  /** Like run, but rejects with a CommandError unless the command exited with 0. */
+  async runChecked(args: string[], options: RunOptions = {}): Promise<RunResult> {
+    const result = await this.run(args, options)
+    if (result.exitCode !== 0) throw new CommandError(describeFailure(result), result)
+    return result
+  }
+
+  /** Runs a command that prints JSON and parses its output. */
+  async json<T = unknown>(args: string[], options: RunOptions = {}): Promise<T> {
+    const result = await this.runChecked(args, options)
+    if (result.truncated) {
+      throw new CommandError(`Output of clawdbot ${args.join(' ')} exceeded the size limit`, result)
+    }
+    try {
+      return JSON.parse(result.stdout) as T
+    } catch {
+      throw new CommandError(`clawdbot ${args.join(' ')} did not print valid JSON`, result)
+    }
+  }
+
+  /** Stops a running command; returns false if it already finished. */
+  kill(id: string): boolean {
+    const kill = this.children.get(id)
+    kill?.()
+    return Boolean(kill)
+  }
+
+  killAll(): void {
+    for (const kill of this.children.values()) kill()
+  }
+
+  // Batch files cannot be spawned without a shell, so npm shims run their
+  // script through Node; the argv then never passes through cmd.exe
+  private async resolveLauncher(): Promise<Launcher> {
+    const binary = await this.resolveBinary()
+    if (this.launcher?.binary === binary) return this.launcher
+    let launcher: Launcher = { binary, file: binary, args: [] }
+    if (SHIM_EXTENSIONS.includes(extname(binary).toLowerCase())) {
+      const target = cmdShimTarget(await readFile(binary, 'utf-8'))
+      if (!target) {
+        throw new CommandError(
+          `Cannot run ${binary}: not an npm shim; set the path of clawdbot.exe`
+        )
+      }
+      launcher = {
+        binary,
+        file: process.execPath,
+        args: [join(dirname(binary), target)],
+        env: { ELECTRON_RUN_AS_NODE: '1' }
+      }
+    }
+    this.launcher = launcher
+    return launcher
+  }
+
+  private spawn(
+    id: string,
+    launcher: Launcher,
+    args: string[],
+    options: RunOptions,
+    onStarted: (kill: () => void) => void
+  ): Promise<RunResult> {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES } = options
+    const binary = launcher.file
+    return new Promise((resolve, reject) => {
+      const started = Date.now()
+      const child = spawn(binary, [...launcher.args, ...args], {
+        shell: false,
+        env: launcher.env ? { ...process.env, ...launcher.env } : process.env,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsHide: true,
+        // Its own process group, so helpers the CLI starts are stopped with it
+        detached: PROCESS_GROUPS
+      })
+      const stdout = new OutputBuffer(maxOutputBytes)
+      const stderr = new OutputBuffer(maxOutputBytes)
+      let timedOut = false
+      let killed = false
+      let closed = false
+      let forceTimer: ReturnType<typeof setTimeout> | null = null
+
+      const signal = (name: NodeJS.Signals): void => {
+        try {
+          if (PROCESS_GROUPS && child.pid) process.kill(-child.pid, name)
+          else child.kill(name)
+        } catch {
+          // Already gone
+        }
+      }
+      const terminate = (): void => {
+        if (closed) return
+        signal('SIGTERM')
+        forceTimer ??= setTimeout(() => signal('SIGKILL'), KILL_GRACE_MS)
+      }
+      const kill = (): void => {
+        killed = true
+        terminate()
+      }
+      const timer = setTimeout(() => {
+        timedOut = true
+        terminate()
+      }, timeoutMs)
+
+      this.children.set(id, kill)
+      for (const [stream, buffer] of [
+        ['stdout', stdout],
+        ['stderr', stderr]
+      ] as const) {
+        child[stream]?.on('data', (chunk: Buffer) => {
+          const text = buffer.push(chunk)
+          if (text) options.onOutput?.(stream, text)
+        })
+      }
+      // A command that exits without reading stdin is not an error in itself
+      child.stdin?.on('error', () => undefined)
+      child.stdin?.end(options.input)
+
+      const cleanup = (): void => {
+        closed = true
+        clearTimeout(timer)
+        if (forceTimer) clearTimeout(forceTimer)
+        this.children.delete(id)
+      }
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        cleanup()
+        // The binary may have moved since it was found
+        if (error.code === 'ENOENT') {
+          this.resolved = undefined
+          this.launcher = undefined
+        }
+        reject(new CommandError(`Failed to run ${binary}: ${error.message}`))
+      })
+      child.on('close', (exitCode, signal) => {
+        cleanup()
+        resolve({
+          args,
+          exitCode,
+          signal,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          truncated: stdout.truncated || stderr.truncated,
+          timedOut,
+          killed,
+          durationMs: Date.now() - started
+        })
+      })
+      onStarted(kill)
+    })
+  }
+}
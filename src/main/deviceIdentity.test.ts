@@ -0,0 +1,51 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadOrCreateIdentity } from './deviceIdentity'
+
+const IDENTITY_FILE = 'device-identity.json'
+
+describe('loadOrCreateIdentity', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    dir = await mkdtemp(join(tmpdir(), 'clawd-identity-'))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('creates an identity readable only by the owner and loads it again', async () => {
+    const created = await loadOrCreateIdentity(dir)
+
+    expect((await stat(join(dir, IDENTITY_FILE))).mode & 0o777).toBe(0o600)
+    expect(await loadOrCreateIdentity(dir)).toEqual(created)
+    expect(await readdir(dir)).toEqual([IDENTITY_FILE])
+  })
+
+  it.each([
+    ['corrupt', '{"deviceId":'],
+    ['incomplete', '{"deviceId":"old"}']
+  ])('sets a %s file aside before creating a new identity', async (_, content) => {
+    await writeFile(join(dir, IDENTITY_FILE), content)
+
+    const identity = await loadOrCreateIdentity(dir)
+
+    expect(identity.deviceId).not.toBe('old')
+    const aside = (await readdir(dir)).filter((name) => name.includes('.corrupt-'))
+    expect(aside).toHaveLength(1)
+    expect(await readFile(join(dir, aside[0]), 'utf-8')).toBe(content)
+  })
+
+  it('leaves a file it cannot read in place', async () => {
+    await mkdir(join(dir, IDENTITY_FILE))
+
+    await expect(loadOrCreateIdentity(dir)).rejects.toThrow()
+    expect(await readdir(dir)).toEqual([IDENTITY_FILE])
+  })
+})
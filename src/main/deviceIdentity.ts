@@ -0,0 +1,137 @@
+import { createHash, createPrivateKey, generateKeyPairSync, randomUUID, sign } from 'crypto'
+import { readFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { AtomicJsonFile } from './atomicFile'
+
+const IDENTITY_FILE = 'device-identity.json'
+const SIGNATURE_VERSION = 'v1'
+
+export interface DeviceIdentity {
+  deviceId: string
+  /** Raw 32-byte Ed25519 public key, base64url encoded. */
+  publicKey: string
+  /** PKCS#8 PEM; never leaves the main process. */
+  privateKeyPem: string
+  createdAt: number
+  rotatedAt?: number
+}
+
+/** What the renderer is allowed to see about the identity. */
+export interface DeviceIdentityInfo {
+  deviceId: string
+  publicKey: string
+  fingerprint: string
+  createdAt: number
+  rotatedAt?: number
+}
+
+export interface SignedChallenge {
+  id: string
+  publicKey: string
+  signature: string
+  signedAt: number
+  nonce: string
+}
+
+function generateKeys(): Pick<DeviceIdentity, 'publicKey' | 'privateKeyPem'> {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519')
+  // SPKI DER for Ed25519 is a fixed 12-byte header followed by the raw key
+  const spki = publicKey.export({ type: 'spki', format: 'der' })
+  return {
+    publicKey: spki.subarray(spki.length - 32).toString('base64url'),
+    privateKeyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  }
+}
+
+function identityFile(dir: string): AtomicJsonFile {
+  return new AtomicJsonFile(join(dir, IDENTITY_FILE), 0o600)
+}
+
+async function save(dir: string, identity: DeviceIdentity): Promise<void> {
+  await identityFile(dir).write(identity)
+}
+
+/**
+ * Loads the persisted identity from `dir`, creating one on first use. A file
+ * that cannot be read is an error; one that is damaged is set aside first, so
+ * the old key is never silently overwritten.
+ */
+export async function loadOrCreateIdentity(dir: string): Promise<DeviceIdentity> {
+  const file = identityFile(dir)
+  let content: string | undefined
+  try {
+    content = await readFile(file.path, 'utf-8')
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+  }
+
+  if (content !== undefined) {
+    let stored: Partial<DeviceIdentity> | undefined
+    try {
+      stored = JSON.parse(content) as Partial<DeviceIdentity>
+    } catch (error: unknown) {
+      console.error('Device identity file is corrupt:', (error as Error).message)
+    }
+    if (stored?.deviceId && stored.publicKey && stored.privateKeyPem) {
+      return stored as DeviceIdentity
+    }
+    if (stored) console.warn('Device identity file is incomplete, generating a new one')
+    console.error(`Moved it to ${await file.setAside()}`)
+  }
+
+  const identity: DeviceIdentity = {
+    deviceId: randomUUID(),
+    ...generateKeys(),
+    createdAt: Date.now()
+  }
+  await save(dir, identity)
+  return identity
+}
+
+/** Replaces the keypair but keeps the device id, so the gateway sees the same device re-keying. */
+export async function rotateIdentity(
+  dir: string,
+  current: DeviceIdentity
+): Promise<DeviceIdentity> {
+  const identity: DeviceIdentity = { ...current, ...generateKeys(), rotatedAt: Date.now() }
+  await save(dir, identity)
+  return identity
+}
+
+/** Discards the identity entirely; the monitor will pair as a brand new device. */
+export async function resetIdentity(dir: string): Promise<DeviceIdentity> {
+  await rm(join(dir, IDENTITY_FILE), { force: true })
+  return loadOrCreateIdentity(dir)
+}
+
+export function fingerprint(publicKey: string): string {
+  const digest = createHash('sha256').update(Buffer.from(publicKey, 'base64url')).digest('hex')
+  return digest.slice(0, 32).match(/.{4}/g)!.join(':')
+}
+
+export function describeIdentity(identity: DeviceIdentity): DeviceIdentityInfo {
+  return {
+    deviceId: identity.deviceId,
+    publicKey: identity.publicKey,
+    fingerprint: fingerprint(identity.publicKey),
+    createdAt: identity.createdAt,
+    rotatedAt: identity.rotatedAt
+  }
+}
+
+/**
+ * Signs a connect.challenge. The signed string binds the device id, the
+ * gateway's nonce and our signing time: `v1|<deviceId>|<nonce>|<signedAt>`.
+ */
+export function signChallenge(identity: DeviceIdentity, nonce: string): SignedChallenge {
+  const signedAt = Date.now()
+  const message = [SIGNATURE_VERSION, identity.deviceId, nonce, String(signedAt)].join('|')
+  const signature = sign(null, Buffer.from(message), createPrivateKey(identity.privateKeyPem))
+  return {
+    id: identity.deviceId,
+    publicKey: identity.publicKey,
+    signature: signature.toString('base64url'),
+    signedAt,
+    nonce
+  }
+}
@@ -0,0 +1,111 @@
+import type { StoredEvent } from './eventStore'
+
+// A batch goes out this long after its first event, or sooner once full
+const FLUSH_INTERVAL_MS = 50
+const MAX_BATCH_SIZE = 250
+// Unacknowledged batches a window may have before it counts as behind
+const MAX_IN_FLIGHT = 3
+
+/**
+ * Events delivered to one window in a single IPC message. When the window
+ * fell behind, `events` is empty and `skipped` counts what it missed; no
+ * further events arrive until it resumes.
+ */
+export interface EventBatch {
+  id: number
+  events: StoredEvent[]
+  skipped?: number
+}
+
+/** A window events are delivered to, keyed by its webContents id. */
+export interface BatchTarget {
+  id: number
+  send(batch: EventBatch): void
+}
+
+interface TargetState {
+  lastSent: number
+  lastAcked: number
+  /** Events dropped since the window fell behind; undefined while live. */
+  skipped?: number
+}
+
+/**
+ * Coalesces gateway events into batches for the renderer. Each window
+ * acknowledges batches as it handles them; one that stops keeping up is
+ * switched to counting skipped events instead of queueing them, since
+ * everything is in the event store and can be fetched again.
+ */
+export class EventBatcher {
+  private pending: StoredEvent[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private states = new Map<number, TargetState>()
+  private targets: () => BatchTarget[]
+
+  constructor(targets: () => BatchTarget[]) {
+    this.targets = targets
+  }
+
+  push(event: StoredEvent): void {
+    this.pending.push(event)
+    if (this.pending.length >= MAX_BATCH_SIZE) {
+      this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS)
+    }
+  }
+
+  /** The window finished handling `batchId` and everything before it. */
+  ack(targetId: number, batchId: number): void {
+    const state = this.states.get(targetId)
+    if (state && batchId > state.lastAcked) {
+      state.lastAcked = Math.min(batchId, state.lastSent)
+    }
+  }
+
+  /** Returns a window to live delivery, e.g. after it reloaded its history or the page itself. */
+  resume(targetId: number): void {
+    this.states.set(targetId, { lastSent: 0, lastAcked: 0 })
+  }
+
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    const events = this.pending
+    this.pending = []
+    if (events.length === 0) return
+
+    const targets = this.targets()
+    const live = new Set(targets.map((target) => target.id))
+    for (const id of this.states.keys()) {
+      if (!live.has(id)) this.states.delete(id)
+    }
+
+    for (const target of targets) {
+      let state = this.states.get(target.id)
+      if (!state) {
+        state = { lastSent: 0, lastAcked: 0 }
+        this.states.set(target.id, state)
+      }
+      const inFlight = state.lastSent - state.lastAcked
+
+      if (state.skipped === undefined && inFlight < MAX_IN_FLIGHT) {
+        target.send({ id: ++state.lastSent, events })
+        continue
+      }
+      // Behind: count instead of queueing, and tell the window once it has drained
+      state.skipped = (state.skipped ?? 0) + events.length
+      if (inFlight === 0) {
+        target.send({ id: ++state.lastSent, events: [], skipped: state.skipped })
+      }
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+    this.pending = []
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { formatEvents, parseEvents } from './eventExport'
+import type { StoredEvent } from './eventStore'
+
+const HOSTILE = ['=HYPERLINK("http://x")', '+1+1', '-2-2', '@SUM(A1)', '\tcmd', "'quoted"]
+
+function event(payload: unknown): StoredEvent {
+  return { id: 1, timestamp: 1700000000000, gatewayId: 'main', type: 'chat', payload }
+}
+
+describe('CSV export', () => {
+  it.each(HOSTILE)('stops %j from reading as a formula', (text) => {
+    const csv = formatEvents([event({ text })], 'csv')
+    const cell = csv.split('\r\n')[1].split(',').at(-1)!
+
+    expect(cell.replace(/^"/, '')).toMatch(/^'/)
+  })
+
+  it('leaves plain numbers alone', () => {
+    const csv = formatEvents([event({ delta: -5, ratio: '-0.5' })], 'csv')
+    expect(csv.split('\r\n')[1]).toMatch(/,-5,-0\.5$/)
+  })
+
+  it('quotes payload keys in the header when they need it', () => {
+    const csv = formatEvents([event({ 'a,b': 'x' })], 'csv')
+
+    expect(csv.split('\r\n')[0]).toMatch(/,"payload\.a,b"$/)
+    expect(parseEvents(csv, 'csv')[0].payload).toEqual({ 'a,b': 'x' })
+  })
+
+  it('round-trips escaped cells', () => {
+    const original = event(Object.fromEntries(HOSTILE.map((text, i) => [`field${i}`, text])))
+
+    const [parsed] = parseEvents(formatEvents([original], 'csv'), 'csv')
+    expect(parsed.payload).toEqual(original.payload)
+  })
+})
+
+describe('CSV import', () => {
+  it.each(['__proto__', 'constructor', 'prototype'])(
+    'ignores payload columns that walk through %s',
+    (key) => {
+      const csv = [
+        `id,timestamp,gatewayId,type,payload.${key}.polluted,payload.constructor.prototype.polluted,payload.ok`,
+        '1,1700000000000,main,chat,yes,yes,1'
+      ].join('\r\n')
+
+      const [parsed] = parseEvents(csv, 'csv')
+
+      expect(parsed.payload).toEqual({ ok: 1 })
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+      expect(Object.prototype).not.toHaveProperty('polluted')
+    }
+  )
+})
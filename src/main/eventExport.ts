@@ -0,0 +1,288 @@
+import { basename, extname } from 'path'
+import { readFile, writeFile } from 'fs/promises'
+import type { StoredEvent } from './eventStore'
+import {
+  listCandidates,
+  runQuery,
+  selectEvents,
+  type EventPage,
+  type EventQuery
+} from './eventQuery'
+
+/**
+ * Moves events in and out of the monitor as files a teammate can open or
+ * attach to a bug report. NDJSON and JSON round-trip exactly; CSV flattens
+ * payloads into dotted `payload.*` columns for spreadsheets and is read
+ * back on a best-effort basis.
+ */
+
+export type ExportFormat = 'ndjson' | 'json' | 'csv'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string }> = {
+  ndjson: { name: 'NDJSON', extension: 'ndjson' },
+  json: { name: 'JSON', extension: 'json' },
+  csv: { name: 'CSV', extension: 'csv' }
+}
+
+// Envelope columns, in order, ahead of the flattened payload
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'time',
+  'gatewayId',
+  'type',
+  'event',
+  'seq',
+  'stateVersion',
+  'synthetic'
+] as const
+const NUMERIC_COLUMNS = new Set(['id', 'timestamp', 'seq', 'stateVersion'])
+const PAYLOAD_PREFIX = 'payload.'
+// Spreadsheets evaluate cells starting with these as formulas. Such cells get a
+// leading apostrophe, which marks them as text; apostrophes are escaped the same
+// way so that import can always strip one.
+const FORMULA_START = /^[=+\-@\t\r']/
+const NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/
+// Payload paths come from the file; these would reach Object.prototype when walked
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype'])
+
+/** Events loaded from a file, browsable read-only next to the live history. */
+export interface ImportedEvents {
+  name: string
+  path: string
+  /** Oldest first, with ids unique within the file. */
+  events: StoredEvent[]
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in EXPORT_FORMATS
+}
+
+export function formatEvents(events: StoredEvent[], format: ExportFormat): string {
+  switch (format) {
+    case 'ndjson':
+      return events.map((event) => JSON.stringify(event) + '\n').join('')
+    case 'json':
+      return JSON.stringify(events, null, 2) + '\n'
+    case 'csv':
+      return toCsv(events)
+  }
+}
+
+export async function exportEvents(
+  path: string,
+  events: StoredEvent[],
+  format: ExportFormat
+): Promise<void> {
+  await writeFile(path, formatEvents(events, format))
+}
+
+/** Reads an exported file, picking the parser from its extension. */
+export async function importEvents(path: string): Promise<ImportedEvents> {
+  const content = await readFile(path, 'utf-8')
+  const extension = extname(path).slice(1).toLowerCase()
+  const format: ExportFormat = isExportFormat(extension) ? extension : 'ndjson'
+  const events = parseEvents(content, format)
+  if (events.length === 0) {
+    throw new Error(`No events found in ${basename(path)}`)
+  }
+  return { name: basename(path), path, events }
+}
+
+export function parseEvents(content: string, format: ExportFormat): StoredEvent[] {
+  let raw: unknown[]
+  if (format === 'csv') {
+    raw = fromCsv(content)
+  } else if (format === 'json') {
+    const parsed = JSON.parse(content)
+    if (!Array.isArray(parsed)) throw new Error('Expected a JSON array of events')
+    raw = parsed
+  } else {
+    raw = content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, i) => {
+        try {
+          return JSON.parse(line)
+        } catch (err) {
+          throw new Error(`Line ${i + 1} is not valid JSON: ${(err as Error).message}`)
+        }
+      })
+  }
+  return normalize(raw)
+}
+
+export function queryImported(imported: ImportedEvents, query: EventQuery): EventPage<StoredEvent> {
+  return runQuery(listCandidates(imported.events), query)
+}
+
+/** Every imported event matching `query`, oldest first. */
+export function selectImported(imported: ImportedEvents, query: EventQuery): StoredEvent[] {
+  return [...selectEvents(listCandidates(imported.events), query)].reverse()
+}
+
+// Files from other tools may lack ids or repeat them; the cursor needs them unique
+function normalize(raw: unknown[]): StoredEvent[] {
+  const events = raw
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .filter((item) => typeof (item.type ?? item.event) === 'string')
+    .map((item) => ({
+      ...item,
+      type: String(item.type ?? item.event),
+      timestamp: typeof item.timestamp === 'number' ? item.timestamp : 0,
+      gatewayId: typeof item.gatewayId === 'string' ? item.gatewayId : 'imported'
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp)
+  return events.map((event, i) => ({ ...event, id: i + 1 }))
+}
+
+// CSV
+
+function flatten(value: unknown, prefix: string, into: Map<string, string>): void {
+  if (value === undefined) return
+  if (typeof value === 'object' && value !== null && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, `${prefix}.${key}`, into)
+    }
+    return
+  }
+  into.set(prefix, typeof value === 'string' ? value : JSON.stringify(value))
+}
+
+function csvCell(value: string): string {
+  const text = FORMULA_START.test(value) && !NUMBER.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function fromCsvCell(cell: string): string {
+  return cell.startsWith("'") ? cell.slice(1) : cell
+}
+
+function toCsv(events: StoredEvent[]): string {
+  const rows = events.map((event) => {
+    const cells = new Map<string, string>()
+    for (const column of CSV_COLUMNS) {
+      const value =
+        column === 'time'
+          ? new Date(event.timestamp).toISOString()
+          : event[column as keyof StoredEvent]
+      if (value !== undefined && value !== null) cells.set(column, String(value))
+    }
+    flatten(event.payload, 'payload', cells)
+    return cells
+  })
+
+  const payloadColumns = new Set<string>()
+  for (const row of rows) {
+    for (const key of row.keys()) {
+      if (key === 'payload' || key.startsWith(PAYLOAD_PREFIX)) payloadColumns.add(key)
+    }
+  }
+  const columns = [...CSV_COLUMNS, ...[...payloadColumns].sort()]
+
+  const lines = [columns.map(csvCell).join(',')]
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row.get(column) ?? '')).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((value) => value !== ''))
+}
+
+// CSV cells lose their types; numbers, booleans, null and JSON containers are restored
+function csvValue(cell: string): unknown {
+  if (/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null|\[.*\]|\{.*\})$/s.test(cell)) {
+    try {
+      return JSON.parse(cell)
+    } catch {
+      return cell
+    }
+  }
+  return cell
+}
+
+// Objects whose keys are exactly 0..n-1 were arrays before flattening
+function restoreArrays(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value
+  const entries = Object.entries(value).map(([key, child]) => [key, restoreArrays(child)] as const)
+  if (entries.length > 0 && entries.every(([key], i) => key === String(i))) {
+    return entries.map(([, child]) => child)
+  }
+  return Object.fromEntries(entries)
+}
+
+function fromCsv(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(content).map((row) => row.map(fromCsvCell))
+  if (!header || !header.includes('type')) {
+    throw new Error('CSV is missing a "type" column')
+  }
+
+  return rows.map((row) => {
+    const event: Record<string, unknown> = {}
+    const payload: Record<string, unknown> = {}
+    let hasPayload = false
+
+    header.forEach((column, i) => {
+      const cell = row[i] ?? ''
+      if (cell === '' || column === 'time') return
+      if (column === 'payload') {
+        event.payload = csvValue(cell)
+      } else if (column.startsWith(PAYLOAD_PREFIX)) {
+        const path = column.slice(PAYLOAD_PREFIX.length).split('.')
+        if (path.some((key) => UNSAFE_KEYS.has(key))) return
+        let target = payload
+        for (const key of path.slice(0, -1)) {
+          target = (target[key] ??= {}) as Record<string, unknown>
+        }
+        target[path[path.length - 1]] = csvValue(cell)
+        hasPayload = true
+      } else if (NUMERIC_COLUMNS.has(column)) {
+        event[column] = Number(cell)
+      } else if (column === 'synthetic') {
+        event.synthetic = cell === 'true'
+      } else {
+        event[column] = cell
+      }
+    })
+
+    if (hasPayload) event.payload = restoreArrays(payload)
+    return event
+  })
+}
@@ -0,0 +1,112 @@
+import type { GatewayEvent } from './gateway'
+import { EVENT_CATEGORIES, eventCategories, globToRegExp, searchTextOf } from './eventQuery'
+
+export type EventPredicate = (event: GatewayEvent) => boolean
+
+const FIELDS = ['type', 'gateway', 'category']
+
+// Splits on whitespace outside double quotes; quotes stay in the term
+function tokenize(expression: string): string[] {
+  const terms: string[] = []
+  let term = ''
+  let quoted = false
+  for (const char of expression) {
+    if (char === '"') quoted = !quoted
+    if (!quoted && /\s/.test(char)) {
+      if (term) terms.push(term)
+      term = ''
+    } else {
+      term += char
+    }
+  }
+  if (quoted) throw new Error('Unterminated quote in filter')
+  if (term) terms.push(term)
+  return terms
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '')
+}
+
+function valueAt(payload: unknown, path: string[]): unknown {
+  let value = payload
+  for (const key of path) {
+    if (typeof value !== 'object' || value === null) return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function compileTerm(term: string): EventPredicate {
+  // A quoted term is always plain text, even if it contains a colon
+  if (term.startsWith('"')) {
+    const text = unquote(term).toLowerCase()
+    return (event) => searchTextOf(event).includes(text)
+  }
+
+  const payload = /^payload((?:\.[^.=\s]+)+)(?:=(.*))?$/.exec(term)
+  if (payload) {
+    const path = payload[1].slice(1).split('.')
+    const expected = payload[2] === undefined ? undefined : globToRegExp(unquote(payload[2]))
+    return (event) => {
+      const value = valueAt(event.payload, path)
+      if (value === undefined) return false
+      if (!expected) return true
+      return expected.test(typeof value === 'string' ? value : JSON.stringify(value))
+    }
+  }
+
+  const field = /^([a-z]+):(.+)$/i.exec(term)
+  if (field) {
+    const [, name, raw] = field
+    const value = unquote(raw)
+    switch (name.toLowerCase()) {
+      case 'type': {
+        const globs = value.split(',').filter(Boolean).map(globToRegExp)
+        return (event) => globs.some((glob) => glob.test(event.type))
+      }
+      case 'gateway':
+        return (event) => event.gatewayId === value
+      case 'category': {
+        const category = value.toLowerCase()
+        if (!(EVENT_CATEGORIES as readonly string[]).includes(category)) {
+          throw new Error(
+            `Unknown category "${value}", expected one of ${EVENT_CATEGORIES.join(', ')}`
+          )
+        }
+        return (event) => eventCategories(event.type).includes(category)
+      }
+      default:
+        throw new Error(
+          `Unknown filter field "${name}", expected ${FIELDS.join(', ')} or payload.<path>`
+        )
+    }
+  }
+
+  const text = term.toLowerCase()
+  return (event) => searchTextOf(event).includes(text)
+}
+
+/**
+ * Compiles a filter expression into a predicate. Terms are separated by
+ * spaces and must all hold; a leading `-` negates one:
+ *
+ *   type:cron.*,agent.error   type matches one of the globs
+ *   gateway:<id>              from that gateway
+ *   category:agent            in one of EVENT_CATEGORIES
+ *   payload.status=fail*      payload field equals the glob (case-insensitive)
+ *   payload.error             payload field is present
+ *   timeout / "timed out"     type or payload contains the text
+ *
+ * An empty expression matches every event. Throws on malformed input.
+ */
+export function parseFilter(expression: string): EventPredicate {
+  const predicates = tokenize(expression.trim()).map((term) => {
+    if (term.length > 1 && term.startsWith('-')) {
+      const inner = compileTerm(term.slice(1))
+      return (event: GatewayEvent) => !inner(event)
+    }
+    return compileTerm(term)
+  })
+  return (event) => predicates.every((predicate) => predicate(event))
+}
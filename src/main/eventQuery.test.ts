@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { listCandidates, runQuery, type EventPage, type EventQuery } from './eventQuery'
+import type { StoredEvent } from './eventStore'
+
+const TYPES = ['cron.run', 'agent.message', 'telegram.message', 'gateway.status']
+
+// Ten events oldest first: ids and seqs 1..10, one second apart, cycling through TYPES
+const EVENTS: StoredEvent[] = Array.from({ length: 10 }, (_, i) => ({
+  id: i + 1,
+  seq: i + 1,
+  timestamp: 1_700_000_000_000 + i * 1000,
+  gatewayId: i < 5 ? 'a' : 'b',
+  type: TYPES[i % TYPES.length],
+  payload: { index: i }
+}))
+
+function query(q: EventQuery = {}): EventPage<StoredEvent> {
+  return runQuery(listCandidates(EVENTS), q)
+}
+
+function ids(events: StoredEvent[]): number[] {
+  return events.map((event) => event.id)
+}
+
+describe('runQuery', () => {
+  it('pages newest first through the cursor', () => {
+    const first = query({ limit: 4 })
+    expect(ids(first.events)).toEqual([10, 9, 8, 7])
+    expect(first.nextCursor).toBe(7)
+
+    const second = query({ limit: 4, cursor: first.nextCursor })
+    expect(ids(second.events)).toEqual([6, 5, 4, 3])
+
+    const last = query({ limit: 4, cursor: second.nextCursor })
+    expect(ids(last.events)).toEqual([2, 1])
+    expect(last.nextCursor).toBeUndefined()
+    expect(last.total).toBe(10)
+  })
+
+  it('filters by inclusive sequence and time ranges', () => {
+    expect(ids(query({ seqFrom: 3, seqTo: 5 }).events)).toEqual([5, 4, 3])
+
+    const from = EVENTS[6].timestamp
+    const to = EVENTS[8].timestamp
+    expect(ids(query({ from, to }).events)).toEqual([9, 8, 7])
+  })
+
+  it('counts every category while paging only the selected one', () => {
+    const page = query({ category: 'cron', gatewayId: 'a', limit: 1 })
+
+    expect(ids(page.events)).toEqual([5])
+    expect(page.total).toBe(2)
+    expect(page.counts).toEqual({ all: 5, cron: 2, agent: 1, telegram: 1, gateway: 1 })
+  })
+
+  it('returns only totals and counts for a limit of zero', () => {
+    const page = query({ limit: 0 })
+
+    expect(page.events).toEqual([])
+    expect(page.total).toBe(10)
+    expect(page.counts.all).toBe(10)
+  })
+
+  it.each([
+    [Number.NaN, 10],
+    [2.7, 2],
+    [-3, 0],
+    [5000, 10]
+  ])('normalises a limit of %d', (limit, expected) => {
+    expect(query({ limit }).events).toHaveLength(expected)
+  })
+})
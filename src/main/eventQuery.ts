@@ -0,0 +1,163 @@
+import type { GatewayEvent } from './gateway'
+
+/** Categories the events view groups by; an event is in each one its type contains. */
+export const EVENT_CATEGORIES = ['cron', 'gateway', 'telegram', 'agent'] as const
+
+export const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 1000
+
+/** Filters for a page of stored events. Every field is optional and they combine with AND. */
+export interface EventQuery {
+  /** Gateway id, or `all` (the default) for every gateway. */
+  gatewayId?: string
+  /** Event type globs (`agent.*`); an event matching any of them passes. */
+  types?: string[]
+  /** One of EVENT_CATEGORIES. Gap markers pass every category. */
+  category?: string
+  /** Inclusive epoch ms bounds on the event timestamp. */
+  from?: number
+  to?: number
+  /** Case-insensitive substring searched in the type and serialized payload. */
+  text?: string
+  /** Inclusive bounds on the gateway sequence number. */
+  seqFrom?: number
+  seqTo?: number
+  /** Return events older than this id, from a previous page's nextCursor. */
+  cursor?: number
+  /** Page size, default 100, at most 1000. 0 returns only totals and counts. */
+  limit?: number
+}
+
+export interface EventPage<T> {
+  /** Newest first. */
+  events: T[]
+  /** Events matching the query, across all pages. */
+  total: number
+  /** Matches per category with every filter but `category` applied, plus `all`. */
+  counts: Record<string, number>
+  /** Pass as `cursor` to fetch the next (older) page; absent on the last page. */
+  nextCursor?: number
+}
+
+/** Event plus the lowercased text the full-text filter searches, cached by the caller. */
+export interface QueryCandidate<T> {
+  event: T
+  searchText: () => string
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`, 'i')
+}
+
+export function isGapMarker(event: GatewayEvent): boolean {
+  return event.synthetic === true && event.type === 'gap'
+}
+
+export function eventCategories(type: string): string[] {
+  const lower = type.toLowerCase()
+  return EVENT_CATEGORIES.filter((category) => lower.includes(category))
+}
+
+export function searchTextOf(event: GatewayEvent): string {
+  const payload = typeof event.payload === 'string' ? event.payload : JSON.stringify(event.payload)
+  return `${event.type}\n${payload ?? ''}`.toLowerCase()
+}
+
+/** Candidates over an in-memory list held oldest first, such as an imported file. */
+export function* listCandidates<T extends GatewayEvent>(events: T[]): Generator<QueryCandidate<T>> {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i]
+    yield { event, searchText: () => searchTextOf(event) }
+  }
+}
+
+type QueryFilter<T> = (candidate: QueryCandidate<T>) => boolean
+
+// Every filter but category, cursor and limit, which paging and counting treat differently
+function compileFilter<T extends GatewayEvent & { timestamp: number }>(
+  query: EventQuery
+): QueryFilter<T> {
+  const gatewayId = query.gatewayId ?? 'all'
+  const types = query.types?.filter(Boolean).map(globToRegExp)
+  const text = query.text?.trim().toLowerCase()
+
+  return ({ event, searchText }) => {
+    if (gatewayId !== 'all' && event.gatewayId !== gatewayId) return false
+    if (types && types.length > 0 && !types.some((pattern) => pattern.test(event.type))) {
+      return false
+    }
+    if (query.from !== undefined && event.timestamp < query.from) return false
+    if (query.to !== undefined && event.timestamp > query.to) return false
+    if (query.seqFrom !== undefined && (event.seq === undefined || event.seq < query.seqFrom)) {
+      return false
+    }
+    if (query.seqTo !== undefined && (event.seq === undefined || event.seq > query.seqTo)) {
+      return false
+    }
+    return !text || searchText().includes(text)
+  }
+}
+
+/** Every event matching `query`, newest first, ignoring cursor and limit. */
+export function* selectEvents<T extends GatewayEvent & { timestamp: number }>(
+  candidates: Iterable<QueryCandidate<T>>,
+  query: EventQuery
+): Generator<T> {
+  const matches = compileFilter<T>(query)
+  for (const candidate of candidates) {
+    const { event } = candidate
+    if (!matches(candidate)) continue
+    if (query.category && !isGapMarker(event)) {
+      if (!eventCategories(event.type).includes(query.category)) continue
+    }
+    yield event
+  }
+}
+
+/**
+ * Runs a query over events ordered newest first. Counting needs every
+ * match, so the whole sequence is scanned once; only the page is copied.
+ */
+export function runQuery<T extends GatewayEvent & { id: number; timestamp: number }>(
+  candidates: Iterable<QueryCandidate<T>>,
+  query: EventQuery
+): EventPage<T> {
+  const requested = query.limit ?? DEFAULT_PAGE_SIZE
+  const limit = Number.isFinite(requested)
+    ? Math.min(Math.max(0, Math.floor(requested)), MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE
+  const matches = compileFilter<T>(query)
+
+  const counts: Record<string, number> = { all: 0 }
+  for (const category of EVENT_CATEGORIES) counts[category] = 0
+  const events: T[] = []
+  let total = 0
+  let more = false
+
+  for (const candidate of candidates) {
+    if (!matches(candidate)) continue
+    const { event } = candidate
+
+    const gap = isGapMarker(event)
+    const categories = eventCategories(event.type)
+    counts.all++
+    for (const category of categories) counts[category]++
+
+    if (query.category && !gap && !categories.includes(query.category)) continue
+    total++
+    if (query.cursor !== undefined && event.id >= query.cursor) continue
+    if (events.length < limit) {
+      events.push(event)
+    } else {
+      more = true
+    }
+  }
+
+  return {
+    events,
+    total,
+    counts,
+    nextCursor: more && events.length > 0 ? events[events.length - 1].id : undefined
+  }
+}
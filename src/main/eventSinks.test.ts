@@ -0,0 +1,43 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SinkManager, type SinkInput } from './eventSinks'
+
+describe('SinkManager', () => {
+  let dir: string
+  let sinks: SinkManager
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'clawd-sinks-'))
+    sinks = new SinkManager(dir)
+  })
+
+  afterEach(async () => {
+    sinks.dispose()
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('stops retrying when the sink is disabled during a delivery', async () => {
+    const input: SinkInput = {
+      name: 'slow failure',
+      enabled: true,
+      kind: 'command',
+      filter: '',
+      command: process.execPath,
+      args: ['-e', 'setTimeout(() => process.exit(1), 200)']
+    }
+    const { id } = await sinks.save(input)
+    sinks.test(id)
+    sinks.test(id)
+
+    await sinks.save({ ...input, id, enabled: false })
+    await vi.waitFor(() => expect(sinks.deliveries(id)).toHaveLength(1), { timeout: 5000 })
+
+    const [status] = sinks.list().status
+    expect(status).toMatchObject({ pending: 0, failed: 1 })
+    expect(status.retryAt).toBeUndefined()
+    expect(sinks.deliveries(id)[0]).toMatchObject({ ok: false, gaveUp: true })
+  })
+})
@@ -0,0 +1,387 @@
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import { spawn, type ChildProcess } from 'child_process'
+import { appendFile, readFile, writeFile } from 'fs/promises'
+import { isAbsolute, join } from 'path'
+import type { StoredEvent } from './eventStore'
+import { parseFilter, type EventPredicate } from './eventFilter'
+
+const SINKS_FILE = 'sinks.json'
+// Events waiting per sink; the oldest are dropped once a sink falls this far behind
+const MAX_QUEUE = 1000
+// Delivery attempts kept for the log view, across all sinks
+const MAX_LOG = 500
+const DEFAULT_MAX_ATTEMPTS = 5
+const RETRY_BASE_MS = 1000
+const RETRY_MAX_MS = 60 * 1000
+const DELIVERY_TIMEOUT_MS = 15 * 1000
+// Status notifications are coalesced like run updates
+const UPDATE_INTERVAL_MS = 1000
+
+export type SinkKind = 'http' | 'file' | 'command'
+
+export interface SinkConfig {
+  id: string
+  name: string
+  enabled: boolean
+  kind: SinkKind
+  /** Filter expression (see parseFilter); empty forwards every event. */
+  filter: string
+  /** `http`: URL the event JSON is POSTed to. */
+  url?: string
+  /** `http`: extra request headers, such as an Authorization header. */
+  headers?: Record<string, string>
+  /** `file`: absolute path events are appended to, one JSON object per line. */
+  path?: string
+  /** `command`: executable run once per event with the event JSON on stdin. No shell is involved. */
+  command?: string
+  args?: string[]
+  /** Attempts per event before it is given up on. */
+  maxAttempts: number
+}
+
+export type SinkInput = Omit<SinkConfig, 'id' | 'maxAttempts'> & {
+  id?: string
+  maxAttempts?: number
+}
+
+export interface SinkDelivery {
+  sinkId: string
+  eventId: number
+  eventType: string
+  attempt: number
+  ok: boolean
+  at: number
+  durationMs: number
+  error?: string
+  /** Set on the last failed attempt, when the event is dropped. */
+  gaveUp?: boolean
+}
+
+export interface SinkStatus {
+  id: string
+  delivered: number
+  failed: number
+  /** Events waiting, including one being retried. */
+  pending: number
+  /** Events dropped because the queue was full. */
+  dropped: number
+  /** When the next retry is due, while backing off. */
+  retryAt?: number
+  lastDeliveredAt?: number
+  lastError?: string
+  lastErrorAt?: number
+}
+
+interface SinkState {
+  config: SinkConfig
+  matches: EventPredicate
+  queue: StoredEvent[]
+  attempt: number
+  busy: boolean
+  timer: ReturnType<typeof setTimeout> | null
+  status: SinkStatus
+}
+
+function validate(input: SinkInput): void {
+  if (!input.name.trim()) throw new Error('Sink name is required')
+  if (input.maxAttempts !== undefined && !(input.maxAttempts >= 1))
+    throw new Error('At least one delivery attempt is required')
+  try {
+    parseFilter(input.filter)
+  } catch (error: unknown) {
+    throw new Error(`Invalid filter: ${(error as Error).message}`)
+  }
+  switch (input.kind) {
+    case 'http': {
+      let url: URL
+      try {
+        url = new URL(input.url ?? '')
+      } catch {
+        throw new Error(`Invalid URL: ${input.url ?? ''}`)
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('Webhook URL must start with http:// or https://')
+      }
+      return
+    }
+    case 'file':
+      if (!input.path || !isAbsolute(input.path)) throw new Error('File path must be absolute')
+      return
+    case 'command':
+      if (!input.command?.trim()) throw new Error('Command is required')
+      return
+    default:
+      throw new Error(`Unknown sink kind: ${(input as { kind: string }).kind}`)
+  }
+}
+
+function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS)
+}
+
+async function postEvent(config: SinkConfig, body: string): Promise<void> {
+  const response = await fetch(config.url!, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...config.headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  })
+  if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`.trim())
+}
+
+/**
+ * Forwards matching events to user-configured webhooks, files and commands.
+ * Each sink delivers its events in order, one at a time, retrying failures
+ * with exponential backoff. Emits `updated` with every sink's status.
+ */
+export class SinkManager extends EventEmitter {
+  private path: string
+  private sinks = new Map<string, SinkState>()
+  private log: SinkDelivery[] = []
+  private children = new Set<ChildProcess>()
+  private updateTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(dir: string) {
+    super()
+    this.path = join(dir, SINKS_FILE)
+  }
+
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8')) as { sinks?: SinkConfig[] }
+      for (const config of parsed.sinks ?? []) {
+        try {
+          this.sinks.set(config.id, this.createState(config))
+        } catch (error: unknown) {
+          console.error(`Skipping sink ${config.name}:`, (error as Error).message)
+        }
+      }
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read event sinks:', (error as Error).message)
+      }
+    }
+  }
+
+  list(): { sinks: SinkConfig[]; status: SinkStatus[] } {
+    const states = [...this.sinks.values()]
+    return {
+      sinks: states.map((state) => state.config),
+      status: states.map((state) => ({ ...state.status }))
+    }
+  }
+
+  /** Delivery attempts, newest first, for one sink or all of them. */
+  deliveries(sinkId?: string): SinkDelivery[] {
+    return this.log.filter((entry) => !sinkId || entry.sinkId === sinkId).reverse()
+  }
+
+  async save(input: SinkInput): Promise<SinkConfig> {
+    validate(input)
+    const config: SinkConfig = {
+      id: input.id ?? randomUUID(),
+      name: input.name.trim(),
+      enabled: input.enabled,
+      kind: input.kind,
+      filter: input.filter.trim(),
+      maxAttempts: Math.floor(input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+      ...(input.kind === 'http' && { url: input.url?.trim(), headers: input.headers }),
+      ...(input.kind === 'file' && { path: input.path }),
+      ...(input.kind === 'command' && { command: input.command?.trim(), args: input.args ?? [] })
+    }
+    const existing = this.sinks.get(config.id)
+    // An edited sink keeps its queue and counters; the new target applies from the next attempt
+    const state = existing ?? this.createState(config)
+    state.config = config
+    state.matches = parseFilter(config.filter)
+    if (!config.enabled) {
+      if (state.timer) clearTimeout(state.timer)
+      state.timer = null
+      state.queue.splice(state.busy ? 1 : 0)
+      if (!state.busy) state.attempt = 0
+      state.status.retryAt = undefined
+      state.status.pending = state.queue.length
+    }
+    this.sinks.set(config.id, state)
+    await this.persist()
+    this.drain(state)
+    this.scheduleUpdate()
+    return config
+  }
+
+  async remove(id: string): Promise<void> {
+    const state = this.sinks.get(id)
+    if (state?.timer) clearTimeout(state.timer)
+    this.sinks.delete(id)
+    await this.persist()
+    this.scheduleUpdate()
+  }
+
+  push(event: StoredEvent): void {
+    for (const state of this.sinks.values()) {
+      if (!state.config.enabled || !state.matches(event)) continue
+      this.enqueue(state, event)
+    }
+  }
+
+  /** Queues a sample event for one sink, bypassing its filter. */
+  test(id: string): void {
+    const state = this.sinks.get(id)
+    if (!state) throw new Error(`Unknown sink: ${id}`)
+    this.enqueue(state, {
+      id: 0,
+      type: 'monitor.test',
+      payload: { message: `Test delivery from Clawd Monitor to ${state.config.name}` },
+      timestamp: Date.now(),
+      gatewayId: 'monitor',
+      synthetic: true
+    })
+  }
+
+  dispose(): void {
+    for (const state of this.sinks.values()) {
+      if (state.timer) clearTimeout(state.timer)
+      state.timer = null
+    }
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.updateTimer = null
+    for (const child of this.children) child.kill()
+  }
+
+  private createState(config: SinkConfig): SinkState {
+    return {
+      config,
+      matches: parseFilter(config.filter),
+      queue: [],
+      attempt: 0,
+      busy: false,
+      timer: null,
+      status: { id: config.id, delivered: 0, failed: 0, pending: 0, dropped: 0 }
+    }
+  }
+
+  private enqueue(state: SinkState, event: StoredEvent): void {
+    state.queue.push(event)
+    if (state.queue.length > MAX_QUEUE) {
+      // Never drop the head while it is being delivered
+      state.queue.splice(state.busy || state.timer ? 1 : 0, 1)
+      state.status.dropped++
+    }
+    state.status.pending = state.queue.length
+    this.drain(state)
+    this.scheduleUpdate()
+  }
+
+  private drain(state: SinkState): void {
+    if (state.busy || state.timer || state.queue.length === 0) return
+    if (this.sinks.get(state.config.id) !== state) return
+    state.busy = true
+    this.deliver(state).finally(() => {
+      state.busy = false
+      this.drain(state)
+    })
+  }
+
+  private async deliver(state: SinkState): Promise<void> {
+    const event = state.queue[0]
+    const config = state.config
+    state.attempt++
+    const started = Date.now()
+    const entry: SinkDelivery = {
+      sinkId: config.id,
+      eventId: event.id,
+      eventType: event.type,
+      attempt: state.attempt,
+      ok: true,
+      at: started,
+      durationMs: 0
+    }
+
+    try {
+      const body = JSON.stringify(event)
+      if (config.kind === 'http') {
+        await postEvent(config, body)
+      } else if (config.kind === 'file') {
+        await appendFile(config.path!, `${body}\n`)
+      } else {
+        await this.runCommand(config, body)
+      }
+      state.queue.shift()
+      state.attempt = 0
+      state.status.delivered++
+      state.status.lastDeliveredAt = Date.now()
+      state.status.retryAt = undefined
+    } catch (error: unknown) {
+      entry.ok = false
+      entry.error = (error as Error).message
+      state.status.lastError = entry.error
+      state.status.lastErrorAt = Date.now()
+      // A sink disabled while this attempt was in flight does not retry it
+      if (state.attempt >= config.maxAttempts || !state.config.enabled) {
+        entry.gaveUp = true
+        state.queue.shift()
+        state.attempt = 0
+        state.status.failed++
+        state.status.retryAt = undefined
+      } else {
+        const delay = retryDelay(state.attempt)
+        state.status.retryAt = Date.now() + delay
+        state.timer = setTimeout(() => {
+          state.timer = null
+          this.drain(state)
+        }, delay)
+      }
+    }
+
+    entry.durationMs = Date.now() - started
+    this.log.push(entry)
+    if (this.log.length > MAX_LOG) this.log.shift()
+    state.status.pending = state.queue.length
+    this.scheduleUpdate()
+  }
+
+  private runCommand(config: SinkConfig, body: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(config.command!, config.args ?? [], {
+        stdio: ['pipe', 'ignore', 'pipe'],
+        timeout: DELIVERY_TIMEOUT_MS,
+        windowsHide: true
+      })
+      this.children.add(child)
+      let stderr = ''
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-500)
+      })
+      // A command that exits without reading stdin is not an error in itself
+      child.stdin?.on('error', () => undefined)
+      child.stdin?.end(body)
+      child.on('error', (error) => {
+        this.children.delete(child)
+        reject(error)
+      })
+      child.on('close', (code, signal) => {
+        this.children.delete(child)
+        if (code === 0) {
+          resolve()
+        } else {
+          const reason = signal ? `killed by ${signal}` : `exit code ${code}`
+          reject(new Error(stderr.trim() ? `${reason}: ${stderr.trim()}` : reason))
+        }
+      })
+    })
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimer) return
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = null
+      this.emit('updated', this.list().status)
+    }, UPDATE_INTERVAL_MS)
+  }
+
+  private async persist(): Promise<void> {
+    const sinks = [...this.sinks.values()].map((state) => state.config)
+    await writeFile(this.path, JSON.stringify({ sinks }, null, 2), { mode: 0o600 })
+  }
+}
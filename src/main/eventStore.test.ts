@@ -0,0 +1,101 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { EventStore } from './eventStore'
+
+async function segmentFiles(dir: string): Promise<string[]> {
+  return (await readdir(dir)).filter((name) => name.startsWith('events-')).sort()
+}
+
+async function ids(dir: string, name: string): Promise<number[]> {
+  const content = await readFile(join(dir, name), 'utf-8')
+  return content
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => (JSON.parse(line) as { id: number }).id)
+}
+
+describe('EventStore compaction', () => {
+  let dir: string
+  let store: EventStore
+
+  // Each session appends into a segment of its own, giving two segments of three events
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'clawd-events-'))
+    for (const gatewayId of ['a', 'b']) {
+      store = new EventStore(dir)
+      await store.load()
+      for (let i = 0; i < 3; i++) store.append({ type: 'tick', gatewayId })
+      await store.close()
+    }
+    store = new EventStore(dir)
+    await store.load()
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await store.close()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('rewrites only the segment that lost some events', async () => {
+    const [first, second] = await segmentFiles(dir)
+    const untouched = await readFile(join(dir, second), 'utf-8')
+
+    await store.setRetention([{ match: '*', maxCount: 4 }])
+
+    expect(await segmentFiles(dir)).toEqual([first, second])
+    expect(await ids(dir, first)).toEqual([3])
+    expect(await readFile(join(dir, second), 'utf-8')).toBe(untouched)
+    expect(store.stats()).toMatchObject({ count: 4, segments: 2 })
+  })
+
+  it('deletes segments with nothing left to keep', async () => {
+    const [, second] = await segmentFiles(dir)
+
+    await store.setRetention([{ match: '*', maxCount: 3 }])
+
+    expect(await segmentFiles(dir)).toEqual([second])
+    expect(store.stats()).toMatchObject({ count: 3, segments: 1 })
+  })
+
+  it('closes the open segment before rewriting it', async () => {
+    store.append({ type: 'tick', gatewayId: 'a' })
+    store.append({ type: 'tick', gatewayId: 'b' })
+
+    await store.clear('a')
+    store.append({ type: 'tick', gatewayId: 'b' })
+    await store.close()
+
+    const files = await segmentFiles(dir)
+    const all = (await Promise.all(files.map((name) => ids(dir, name)))).flat()
+    expect(all).toEqual([4, 5, 6, 8, 9])
+    expect(store.stats()).toMatchObject({ count: 5, segments: 3 })
+  })
+
+  it('never reuses the name of an existing segment', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+    for (let i = 0; i < 2; i++) {
+      store = new EventStore(dir)
+      await store.load()
+      store.append({ type: 'tick', gatewayId: 'c' })
+      await store.close()
+    }
+
+    const files = (await segmentFiles(dir)).filter((name) => name.includes('1700000000000'))
+    expect(files).toHaveLength(2)
+    expect(await Promise.all(files.map((name) => ids(dir, name)))).toEqual([[7], [8]])
+  })
+
+  it('ignores and removes a rewrite left unfinished', async () => {
+    const [first] = await segmentFiles(dir)
+    await writeFile(join(dir, `${first}.tmp`), '{"id":3')
+
+    store = new EventStore(dir)
+    await store.load()
+
+    expect(await readdir(dir)).not.toContain(`${first}.tmp`)
+    expect(store.stats().count).toBe(6)
+  })
+})
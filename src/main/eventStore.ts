@@ -0,0 +1,361 @@
+import { createWriteStream, type WriteStream } from 'fs'
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { GatewayEvent } from './gateway'
+import {
+  globToRegExp,
+  runQuery,
+  searchTextOf,
+  selectEvents,
+  type EventPage,
+  type EventQuery,
+  type QueryCandidate
+} from './eventQuery'
+
+const SEGMENT_PREFIX = 'events-'
+const SEGMENT_SUFFIX = '.ndjson'
+const SEGMENT_MAX_BYTES = 4 * 1024 * 1024
+const TEMP_SUFFIX = '.tmp'
+const RETENTION_FILE = 'retention.json'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** An event as persisted: always tagged with its gateway and a store-wide id. */
+export interface StoredEvent extends GatewayEvent {
+  id: number
+  timestamp: number
+  gatewayId: string
+}
+
+/**
+ * Limits for event types matching `match`, a glob where `*` matches any run
+ * of characters (`agent.*`, `*`). Each event is governed by the first rule
+ * that matches its type; limits left unset do not apply.
+ */
+export interface RetentionRule {
+  match: string
+  maxAgeDays?: number
+  maxCount?: number
+  maxBytes?: number
+}
+
+export interface EventStoreStats {
+  count: number
+  bytes: number
+  segments: number
+  oldest?: number
+}
+
+export const DEFAULT_RETENTION: RetentionRule[] = [
+  { match: '*', maxAgeDays: 7, maxCount: 50000, maxBytes: 50 * 1024 * 1024 }
+]
+
+interface Entry {
+  event: StoredEvent
+  /** Size of the serialized NDJSON line. */
+  bytes: number
+  /** Segment file holding the line. */
+  segment: string
+  /** Lowercased text for full-text queries, built on first use. */
+  searchText?: string
+}
+
+function validateRules(rules: RetentionRule[]): void {
+  for (const rule of rules) {
+    if (!rule.match?.trim()) throw new Error('Retention rule needs a type pattern')
+    for (const key of ['maxAgeDays', 'maxCount', 'maxBytes'] as const) {
+      const value = rule[key]
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new Error(`${key} for "${rule.match}" must be a positive number`)
+      }
+    }
+  }
+}
+
+function serialize(event: StoredEvent): string {
+  return JSON.stringify(event) + '\n'
+}
+
+/**
+ * Durable event history in userData, stored as size-capped NDJSON segments.
+ * Everything retained is also held in memory for querying; retention runs
+ * periodically and compacts the segments whenever it drops events.
+ * Compaction deletes segments that no longer hold any events and rewrites
+ * only those that lost some, one after another in the background.
+ */
+export class EventStore {
+  private dir: string
+  private entries: Entry[] = []
+  private rules: RetentionRule[] = DEFAULT_RETENTION
+  private compiled: { rule: RetentionRule; pattern: RegExp }[] = []
+  private nextId = 1
+  private segmentCounter = 0
+  private stream: WriteStream | null = null
+  private streamName: string | null = null
+  private streamBytes = 0
+  /** Segment files on disk and how many events each holds. */
+  private segments = new Map<string, number>()
+  private compaction: Promise<void> = Promise.resolve()
+
+  constructor(dir: string) {
+    this.dir = dir
+    this.compileRules()
+  }
+
+  /** Reads retention settings and every segment, then applies retention. */
+  async load(): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+
+    try {
+      const rules = JSON.parse(await readFile(join(this.dir, RETENTION_FILE), 'utf-8'))
+      validateRules(rules)
+      this.rules = rules
+      this.compileRules()
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read retention rules:', (error as Error).message)
+      }
+    }
+
+    const names = await readdir(this.dir)
+    // A rewrite interrupted before its rename leaves the original segment intact
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(SEGMENT_SUFFIX + TEMP_SUFFIX))
+        .map((name) => rm(join(this.dir, name), { force: true }))
+    )
+
+    // Ids dedupe events repeated across segments; the next compaction drops the copies
+    const byId = new Map<number, Entry>()
+    this.segments = new Map()
+    const segmentNames = names
+      .filter((name) => name.startsWith(SEGMENT_PREFIX) && name.endsWith(SEGMENT_SUFFIX))
+      .sort()
+    for (const name of segmentNames) {
+      const content = await readFile(join(this.dir, name), 'utf-8')
+      let count = 0
+      let corrupt = 0
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue
+        try {
+          const event = JSON.parse(line) as StoredEvent
+          byId.set(event.id, { event, bytes: Buffer.byteLength(line) + 1, segment: name })
+          count++
+        } catch {
+          corrupt++
+        }
+      }
+      if (corrupt > 0) {
+        console.warn(`Skipped ${corrupt} unreadable lines in event segment ${name}`)
+      }
+      this.segments.set(name, count)
+    }
+    this.entries = [...byId.values()].sort((a, b) => a.event.id - b.event.id)
+    this.nextId = (this.entries.at(-1)?.event.id ?? 0) + 1
+
+    await this.applyRetention()
+  }
+
+  /** Persists an event and returns it with its store id. */
+  append(event: GatewayEvent): StoredEvent {
+    const stored: StoredEvent = {
+      ...event,
+      id: this.nextId++,
+      timestamp: event.timestamp ?? Date.now(),
+      gatewayId: event.gatewayId ?? 'unknown'
+    }
+    const line = serialize(stored)
+    const bytes = Buffer.byteLength(line)
+
+    if (!this.stream || this.streamBytes + bytes > SEGMENT_MAX_BYTES) {
+      this.openSegment()
+    }
+    const segment = this.streamName!
+    this.entries.push({ event: stored, bytes, segment })
+    this.stream!.write(line)
+    this.streamBytes += bytes
+    this.segments.set(segment, (this.segments.get(segment) ?? 0) + 1)
+    return stored
+  }
+
+  /** The newest `limit` events for one gateway or `all`, oldest first. */
+  recent(gatewayId: string, limit: number): StoredEvent[] {
+    const result: StoredEvent[] = []
+    for (let i = this.entries.length - 1; i >= 0 && result.length < limit; i--) {
+      const { event } = this.entries[i]
+      if (gatewayId === 'all' || event.gatewayId === gatewayId) {
+        result.push(event)
+      }
+    }
+    return result.reverse()
+  }
+
+  /** A page of events matching `query`, newest first, with totals and category counts. */
+  query(query: EventQuery): EventPage<StoredEvent> {
+    return runQuery(this.candidates(), query)
+  }
+
+  /** Every event matching `query` regardless of paging, oldest first, for export. */
+  select(query: EventQuery): StoredEvent[] {
+    return [...selectEvents(this.candidates(), query)].reverse()
+  }
+
+  /** Deletes the history of one gateway, or everything for `all`. */
+  async clear(gatewayId: string): Promise<void> {
+    const before = this.entries.length
+    this.entries =
+      gatewayId === 'all' ? [] : this.entries.filter((e) => e.event.gatewayId !== gatewayId)
+    if (this.entries.length !== before) {
+      await this.compact()
+    }
+  }
+
+  retention(): RetentionRule[] {
+    return this.rules
+  }
+
+  async setRetention(rules: RetentionRule[]): Promise<void> {
+    validateRules(rules)
+    this.rules = rules.map((rule) => ({ ...rule, match: rule.match.trim() }))
+    this.compileRules()
+    await writeFile(join(this.dir, RETENTION_FILE), JSON.stringify(this.rules, null, 2))
+    await this.applyRetention()
+  }
+
+  stats(): EventStoreStats {
+    return {
+      count: this.entries.length,
+      bytes: this.entries.reduce((sum, e) => sum + e.bytes, 0),
+      segments: this.segments.size,
+      oldest: this.entries[0]?.event.timestamp
+    }
+  }
+
+  /** Drops events outside their rule's limits and compacts if anything went. */
+  async applyRetention(now = Date.now()): Promise<number> {
+    const counts = new Map<RetentionRule, number>()
+    const sizes = new Map<RetentionRule, number>()
+    const keep: Entry[] = []
+
+    // Walk newest first so count and size limits keep the most recent events
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i]
+      const rule = this.ruleFor(entry.event.type)
+      if (!rule) {
+        keep.push(entry)
+        continue
+      }
+      const count = (counts.get(rule) ?? 0) + 1
+      const size = (sizes.get(rule) ?? 0) + entry.bytes
+      const expired =
+        (rule.maxAgeDays !== undefined && now - entry.event.timestamp > rule.maxAgeDays * DAY_MS) ||
+        (rule.maxCount !== undefined && count > rule.maxCount) ||
+        (rule.maxBytes !== undefined && size > rule.maxBytes)
+      if (!expired) {
+        counts.set(rule, count)
+        sizes.set(rule, size)
+        keep.push(entry)
+      }
+    }
+
+    const dropped = this.entries.length - keep.length
+    if (dropped > 0) {
+      this.entries = keep.reverse()
+      await this.compact()
+    }
+    return dropped
+  }
+
+  /** Waits for compaction and closes the open segment so buffered writes reach disk. */
+  async close(): Promise<void> {
+    await this.compaction
+    await this.closeSegment()
+  }
+
+  private *candidates(): Generator<QueryCandidate<StoredEvent>> {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i]
+      yield {
+        event: entry.event,
+        searchText: () => (entry.searchText ??= searchTextOf(entry.event))
+      }
+    }
+  }
+
+  private compileRules(): void {
+    this.compiled = this.rules.map((rule) => ({ rule, pattern: globToRegExp(rule.match) }))
+  }
+
+  private ruleFor(type: string): RetentionRule | undefined {
+    return this.compiled.find(({ pattern }) => pattern.test(type))?.rule
+  }
+
+  private segmentName(): string {
+    // Timestamp plus counter keeps names unique and in write order, also
+    // against segments a previous session created in the same millisecond
+    const now = Date.now()
+    let name: string
+    do {
+      const counter = String(this.segmentCounter++).padStart(4, '0')
+      name = `${SEGMENT_PREFIX}${now}-${counter}${SEGMENT_SUFFIX}`
+    } while (this.segments.has(name))
+    return name
+  }
+
+  private openSegment(): void {
+    void this.closeSegment()
+    const name = this.segmentName()
+    this.stream = createWriteStream(join(this.dir, name), { flags: 'a' })
+    this.stream.on('error', (err) => {
+      console.error('Failed to write event segment:', err.message)
+    })
+    this.streamName = name
+    this.streamBytes = 0
+    this.segments.set(name, 0)
+  }
+
+  private closeSegment(): Promise<void> {
+    const stream = this.stream
+    this.stream = null
+    this.streamName = null
+    if (!stream) return Promise.resolve()
+    return new Promise((resolve) => stream.end(() => resolve()))
+  }
+
+  // Queued so passes never touch the same segment at once
+  private compact(): Promise<void> {
+    const pass = this.compaction.then(() => this.compactSegments())
+    this.compaction = pass.catch(() => undefined)
+    return pass
+  }
+
+  private async compactSegments(): Promise<void> {
+    const retained = new Map<string, Entry[]>()
+    for (const entry of this.entries) {
+      const list = retained.get(entry.segment)
+      if (list) list.push(entry)
+      else retained.set(entry.segment, [entry])
+    }
+
+    // Decide everything up front: appends during the awaits below only touch
+    // the open segment, which is closed first if it needs rewriting
+    const stale = [...this.segments]
+      .filter(([name, count]) => count === 0 || (retained.get(name)?.length ?? 0) < count)
+      .map(([name]) => ({ name, kept: retained.get(name) ?? [] }))
+    if (stale.some(({ name }) => name === this.streamName)) {
+      await this.closeSegment()
+    }
+
+    for (const { name, kept } of stale) {
+      const path = join(this.dir, name)
+      if (kept.length === 0) {
+        await rm(path, { force: true })
+        this.segments.delete(name)
+        continue
+      }
+      const temp = path + TEMP_SUFFIX
+      await writeFile(temp, kept.map((entry) => serialize(entry.event)).join(''))
+      await rename(temp, path)
+      this.segments.set(name, kept.length)
+    }
+  }
+}
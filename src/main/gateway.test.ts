@@ -0,0 +1,226 @@
+import { once } from 'events'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GatewayClient, GatewayRequestError, type GapInfo, type GatewayEvent } from './gateway'
+import { DEFAULT_FIXTURES, MockRpcError, startMockGateway, type MockGateway } from './mockGateway'
+import { ProtocolError } from './protocol'
+import type { ConnectionState, GatewayStatus } from '../shared/gateway'
+
+const HEARTBEAT_INTERVAL = 15000
+
+function waitForState(client: GatewayClient, state: ConnectionState): Promise<GatewayStatus> {
+  const current = client.getStatus()
+  if (current.state === state) return Promise.resolve(current)
+  return new Promise((resolve) => {
+    const listener = (status: GatewayStatus): void => {
+      if (status.state !== state) return
+      client.off('status', listener)
+      resolve(status)
+    }
+    client.on('status', listener)
+  })
+}
+
+describe('GatewayClient against the mock gateway', () => {
+  let mock: MockGateway
+  let client: GatewayClient
+
+  async function connect(): Promise<void> {
+    const connected = once(client, 'connected')
+    client.connect()
+    await connected
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    mock = await startMockGateway()
+    client = new GatewayClient({ url: mock.url, token: 'secret' })
+    // Failures are reported through status; keep EventEmitter from throwing
+    client.on('error', () => undefined)
+  })
+
+  afterEach(async () => {
+    client.disconnect()
+    client.removeAllListeners()
+    await mock.stop()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('handshake', () => {
+    it('answers the challenge with a connect request and reports the hello', async () => {
+      await connect()
+
+      const status = client.getStatus()
+      expect(status.state).toBe('connected')
+      expect(status.connected).toBe(true)
+      expect(status.protocol).toBeTypeOf('number')
+      expect(status.serverVersion).toBe('mock')
+
+      const [request] = mock.requests
+      expect(request.method).toBe('connect')
+      const params = request.params as {
+        auth?: { token?: string }
+        device?: { nonce?: string }
+        scopes?: string[]
+      }
+      expect(params.auth?.token).toBe('secret')
+      expect(params.device?.nonce).toBeTypeOf('string')
+      expect(params.scopes).toEqual(['operator.read', 'operator.write'])
+      expect(mock.connectionCount).toBe(1)
+    })
+
+    it('stops retrying after the gateway rejects the credentials', async () => {
+      mock.failNextHandshake('AUTH_FAILED', 'Bad token')
+      client.connect()
+
+      const status = await waitForState(client, 'auth-failed')
+      expect(status.lastError).toBe('Bad token')
+      expect(status.nextRetryAt).toBeUndefined()
+      expect(mock.connectionCount).toBe(0)
+    })
+
+    it('gives up when the device key cannot sign the challenge', async () => {
+      client.setDeviceIdentity({
+        deviceId: 'd',
+        publicKey: 'p',
+        privateKeyPem: 'not a key',
+        createdAt: 0
+      })
+      client.connect()
+
+      const status = await waitForState(client, 'auth-failed')
+      expect(status.lastError).toMatch(/^Invalid credentials or profile: /)
+      expect(mock.requests).toHaveLength(0)
+    })
+
+    it('gives up when the profile does not make a valid connect request', async () => {
+      client = new GatewayClient({ url: mock.url, scopes: [42] as unknown as string[] })
+      client.on('error', () => undefined)
+      client.connect()
+
+      const status = await waitForState(client, 'auth-failed')
+      expect(status.lastError).toMatch(/^Invalid credentials or profile: scopes/)
+      expect(mock.requests).toHaveLength(0)
+    })
+  })
+
+  describe('reconnect', () => {
+    it('backs off after the socket drops, then reconnects and reports the gap', async () => {
+      await connect()
+      const gap = once(client, 'gap')
+
+      mock.dropConnections()
+      const backoff = await waitForState(client, 'backoff')
+      expect(backoff.attempt).toBe(1)
+      // The first step waits between half and all of the one-second base delay
+      expect(backoff.nextRetryAt! - Date.now()).toBeGreaterThan(0)
+      expect(backoff.nextRetryAt! - Date.now()).toBeLessThanOrEqual(1000)
+
+      await waitForState(client, 'connected')
+      const [info] = (await gap) as [GapInfo]
+      expect(info.reason).toBe('reconnect')
+      expect(client.getStatus().attempt).toBe(0)
+      expect(mock.connectionCount).toBe(1)
+    })
+
+    it('tears the link down when pings go unanswered', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] })
+      await connect()
+      mock.setSilent(true)
+      const disconnected = once(client, 'disconnected')
+
+      // One ping goes out, then three intervals pass without a pong
+      for (let i = 0; i < 4; i++) vi.advanceTimersByTime(HEARTBEAT_INTERVAL)
+      await disconnected
+
+      const status = await waitForState(client, 'backoff')
+      expect(status.lastError).toBe('Heartbeat timeout')
+    })
+  })
+
+  describe('event sequence', () => {
+    it('fetches a status snapshot when sequence numbers skip', async () => {
+      await connect()
+      const gap = once(client, 'gap')
+      const snapshot = once(client, 'snapshot')
+
+      mock.broadcast('tick')
+      mock.skipSequence(2)
+      mock.broadcast('tick')
+
+      const [info] = (await gap) as [GapInfo]
+      expect(info).toMatchObject({ reason: 'seq', expectedSeq: 2, receivedSeq: 4, missed: 2 })
+      const [event] = (await snapshot) as [GatewayEvent]
+      expect(event.synthetic).toBe(true)
+      expect(event.payload).toEqual(DEFAULT_FIXTURES.status)
+      expect(mock.requests.map((request) => request.method)).toContain('status')
+    })
+  })
+
+  describe('call()', () => {
+    it('resolves with the response payload', async () => {
+      await connect()
+      await expect(client.call('cron.list', {})).resolves.toEqual(DEFAULT_FIXTURES['cron.list'])
+      expect(client.pendingCount()).toBe(0)
+    })
+
+    it('rejects with the error the gateway returned', async () => {
+      mock.setFixture('cron.run', () => {
+        throw new MockRpcError('JOB_NOT_FOUND', 'No such job', { id: 'x' })
+      })
+      await connect()
+
+      const error = await client.call('cron.run', { id: 'x' }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(GatewayRequestError)
+      expect(error).toMatchObject({
+        code: 'JOB_NOT_FOUND',
+        message: 'No such job',
+        details: { id: 'x' }
+      })
+    })
+
+    it('falls back to a generic code when the error has none', async () => {
+      await connect()
+      mock.setLatency(500)
+      const pending = client.call('status', {}).catch((e: unknown) => e)
+
+      await vi.waitFor(() => expect(mock.requests.at(-1)?.method).toBe('status'))
+      const { id } = mock.requests.at(-1)!
+      mock.sendRaw(JSON.stringify({ type: 'res', id, ok: false, error: { message: 'Nope' } }))
+
+      expect(await pending).toMatchObject({ code: 'UNKNOWN', message: 'Nope' })
+    })
+
+    it('fails the call when its response is malformed', async () => {
+      await connect()
+      mock.setLatency(500)
+      const pending = client.call('status', {}).catch((e: unknown) => e)
+
+      await vi.waitFor(() => expect(mock.requests.at(-1)?.method).toBe('status'))
+      const { id } = mock.requests.at(-1)!
+      mock.sendRaw(JSON.stringify({ type: 'res', id, ok: 'yes' }))
+
+      const error = await pending
+      expect(error).toBeInstanceOf(ProtocolError)
+      expect((error as Error).message).toBe('ok: expected boolean, got string')
+      expect(client.pendingCount()).toBe(0)
+    })
+
+    it('times out and drops the pending entry', async () => {
+      await connect()
+      mock.setLatency(500)
+
+      await expect(client.call('status', {}, { timeoutMs: 50 })).rejects.toThrow(
+        'Gateway call timeout: status'
+      )
+      expect(client.pendingCount()).toBe(0)
+    })
+
+    it('rejects immediately while disconnected', async () => {
+      await expect(client.call('status', {})).rejects.toThrow('Not connected to Gateway')
+      expect(mock.requests).toHaveLength(0)
+    })
+  })
+})
@@ -1,206 +1,842 @@
-import { EventEmitter } from 'events'
-import WebSocket from 'ws'
-
-export interface GatewayEvent {
-  type: string
-  event?: string
-  payload?: unknown
-  seq?: number
-  stateVersion?: number
-  timestamp?: number
-}
-
-export interface GatewayMessage {
-  type: 'req' | 'res' | 'event'
-  id?: string
-  method?: string
-  params?: unknown
-  ok?: boolean
-  payload?: unknown
-  error?: unknown
-  event?: string
-  seq?: number
-  stateVersion?: number
-}
-
-let requestId = 0
-
-export class GatewayClient extends EventEmitter {
-  private ws: WebSocket | null = null
-  private url: string
-  private reconnectTimer: NodeJS.Timeout | null = null
-  private reconnectDelay = 2000
-  private connected = false
-  private token?: string
-
-  constructor(url: string = 'ws://127.0.0.1:18789', token?: string) {
-    super()
-    this.url = url
-    this.token = token
-  }
-
-  connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) return
-
-    this.ws = new WebSocket(this.url)
-
-    this.ws.on('open', () => {
-      console.log('Gateway WebSocket connected, waiting for challenge...')
-      // Don't send connect yet - wait for connect.challenge event
-    })
-
-    this.ws.on('message', (data: Buffer) => {
-      try {
-        const message: GatewayMessage = JSON.parse(data.toString())
-        console.log('Gateway message:', message.type, message.event || message.method)
-
-        if (message.type === 'event') {
-          // Handle connect.challenge - must respond with connect request
-          if (message.event === 'connect.challenge') {
-            const challenge = message.payload as { nonce?: string; timestamp?: number }
-            console.log('Received challenge, sending connect with nonce...')
-            this.sendRequest('connect', {
-              minProtocol: 3,
-              maxProtocol: 3,
-              client: {
-                id: 'clawd-monitor',
-                displayName: 'Clawd Monitor',
-                version: '1.0.0',
-                platform: process.platform,
-                mode: 'operator'
-              },
-              role: 'operator',
-              scopes: ['operator.read', 'operator.write'],
-              caps: [],
-              commands: [],
-              auth: this.token ? { token: this.token } : undefined,
-              device: {
-                nonce: challenge?.nonce || ''
-              },
-              locale: 'en-US',
-              userAgent: 'clawd-monitor/1.0.0'
-            })
-            return
-          }
-
-          // It's a regular event from the Gateway
-          const event: GatewayEvent = {
-            type: message.event || 'unknown',
-            payload: message.payload,
-            seq: message.seq,
-            stateVersion: message.stateVersion,
-            timestamp: Date.now()
-          }
-          this.emit('message', event)
-          this.emit(message.event || 'unknown', event)
-        } else if (message.type === 'res') {
-          if (message.method === 'connect') {
-            if (message.ok) {
-              console.log('Gateway handshake successful')
-              this.connected = true
-              this.emit('connected')
-            } else {
-              console.error('Gateway handshake failed:', message.error)
-              this.ws?.close()
-            }
-          }
-        }
-      } catch (err) {
-        console.error('Failed to parse Gateway message:', err)
-      }
-    })
-
-    this.ws.on('error', (err) => {
-      console.error('Gateway error:', err)
-      this.emit('error', err)
-    })
-
-    this.ws.on('close', () => {
-      console.log('Gateway disconnected')
-      this.connected = false
-      this.emit('disconnected')
-      this.scheduleReconnect()
-    })
-  }
-
-  private sendRequest(method: string, params: unknown): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      const id = `req-${requestId++}`
-      const message: GatewayMessage = {
-        type: 'req',
-        id,
-        method,
-        params
-      }
-      this.ws.send(JSON.stringify(message))
-    }
-  }
-
-  private scheduleReconnect(): void {
-    if (this.reconnectTimer) return
-
-    this.reconnectTimer = setTimeout(() => {
-      console.log('Attempting to reconnect to Gateway...')
-      this.connect()
-    }, this.reconnectDelay)
-  }
-
-  disconnect(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer)
-      this.reconnectTimer = null
-    }
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
-    }
-    this.connected = false
-  }
-
-  isConnected(): boolean {
-    return this.connected && this.ws?.readyState === WebSocket.OPEN
-  }
-
-  call(method: string, params: unknown): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-      if (!this.isConnected()) {
-        reject(new Error('Not connected to Gateway'))
-        return
-      }
-
-      const id = `call-${requestId++}`
-      const message: GatewayMessage = {
-        type: 'req',
-        id,
-        method,
-        params
-      }
-
-      const handler = (data: Buffer) => {
-        try {
-          const response: GatewayMessage = JSON.parse(data.toString())
-          if (response.type === 'res' && response.id === id) {
-            this.ws?.off('message', handler)
-            if (response.ok) {
-              resolve(response.payload)
-            } else {
-              reject(new Error(JSON.stringify(response.error)))
-            }
-          }
-        } catch (err) {
-          this.ws?.off('message', handler)
-          reject(err)
-        }
-      }
-
-      this.ws!.on('message', handler)
-      this.ws!.send(JSON.stringify(message))
-
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        this.ws?.off('message', handler)
-        reject(new Error('Gateway call timeout'))
-      }, 30000)
-    })
-  }
-}
+import { EventEmitter } from 'events'
+import { createWriteStream, type WriteStream } from 'fs'
+import { readFile } from 'fs/promises'
+import WebSocket from 'ws'
+import { signChallenge, type DeviceIdentity } from './deviceIdentity'
+import {
+  ChallengePayloadSchema,
+  ConnectParamsSchema,
+  HelloPayloadSchema,
+  PROTOCOL_MAX,
+  PROTOCOL_MIN,
+  isSupportedProtocol,
+  malformedResponseId,
+  parseFrame,
+  type ChallengePayload,
+  type ConnectParams,
+  type ErrorShape,
+  type EventFrame,
+  type Frame,
+  type HelloPayload,
+  type RequestFrame
+} from './protocol'
+import type { ConnectionState, GatewayDiagnostic, GatewayStatus } from '../shared/gateway'
+
+export interface GatewayEvent {
+  type: string
+  event?: string
+  payload?: unknown
+  seq?: number
+  stateVersion?: number
+  timestamp?: number
+  /** Set on markers the monitor inserts itself (gaps, resync snapshots). */
+  synthetic?: boolean
+  /** Profile id of the gateway the event came from. */
+  gatewayId?: string
+}
+
+export interface GapInfo {
+  reason: 'seq' | 'stateVersion' | 'reconnect'
+  /** First sequence number we expected but did not receive. */
+  expectedSeq?: number
+  receivedSeq?: number
+  /** Number of events known to be missing, when it can be derived from seq. */
+  missed?: number
+  previousStateVersion?: number
+  stateVersion?: number
+}
+
+export interface CallOptions {
+  /** Milliseconds to wait for the response before rejecting. Defaults to 30s. */
+  timeoutMs?: number
+  /** Rejects the call and drops its pending entry when aborted. */
+  signal?: AbortSignal
+}
+
+/** Outcome of one RPC, emitted as `rpc` when it settles. */
+export interface RpcTiming {
+  method: string
+  durationMs: number
+  ok: boolean
+}
+
+interface PendingCall {
+  method: string
+  resolve: (payload: unknown) => void
+  reject: (error: Error) => void
+  cleanup: () => void
+}
+
+/** One line of an NDJSON session capture. */
+export type SessionRecord =
+  | { kind: 'session'; t: number; url: string; version: number }
+  | { kind: 'frame'; t: number; dir: 'in' | 'out'; data: string }
+
+export interface ReplayOptions {
+  /** Playback speed multiplier; 2 plays twice as fast, 0 plays without pauses. */
+  speed?: number
+}
+
+/** Error returned by the gateway in a `res` frame with `ok: false`. */
+export class GatewayRequestError extends Error {
+  code?: string
+  details: unknown
+  retryable?: boolean
+
+  constructor(error: ErrorShape | undefined) {
+    super(error?.message ?? 'Gateway request failed')
+    this.name = 'GatewayRequestError'
+    this.code = error?.code
+    this.details = error?.details
+    this.retryable = error?.retryable
+  }
+}
+
+export const DEFAULT_GATEWAY_URL = 'ws://127.0.0.1:18789'
+export const DEFAULT_SCOPES = ['operator.read', 'operator.write']
+
+export interface GatewayConnectionConfig {
+  url: string
+  token?: string
+  scopes: string[]
+  /** Client name shown to the gateway and other operators. */
+  displayName: string
+}
+
+const SESSION_FORMAT_VERSION = 1
+const DEFAULT_CALL_TIMEOUT = 30000
+// RPC used to rebuild state after events were lost
+const SNAPSHOT_METHOD = 'status'
+const HEARTBEAT_INTERVAL = 15000
+// Missed pongs before the link is declared dead and torn down
+const HEARTBEAT_MAX_MISSED = 3
+const BACKOFF_BASE = 1000
+const BACKOFF_MAX = 60000
+
+// Handshake rejections that retrying with the same credentials cannot fix.
+const AUTH_ERROR_CODES = [
+  'AUTH_FAILED',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'INVALID_TOKEN',
+  'PAIRING_REQUIRED'
+]
+
+// Handshake rejections meaning the gateway cannot speak any version we offered.
+const PROTOCOL_ERROR_CODES = ['PROTOCOL_MISMATCH', 'UNSUPPORTED_PROTOCOL', 'INCOMPATIBLE_PROTOCOL']
+const MAX_DIAGNOSTIC_RAW = 2000 // chars of an offending frame kept for diagnostics
+
+function isProtocolMismatch(err: unknown): boolean {
+  return (
+    err instanceof GatewayRequestError &&
+    !!err.code &&
+    PROTOCOL_ERROR_CODES.includes(err.code.toUpperCase())
+  )
+}
+
+function isAuthError(err: unknown): boolean {
+  if (!(err instanceof GatewayRequestError)) return false
+  if (err.code && AUTH_ERROR_CODES.includes(err.code.toUpperCase())) return true
+  return /unauthori[sz]ed|auth(entication)? failed|invalid token/i.test(err.message)
+}
+
+// Exponential backoff with jitter: a random delay between half and all of the
+// exponential step, so several monitors don't reconnect in lockstep.
+function backoffDelay(attempt: number): number {
+  const step = Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** Math.max(0, attempt - 1))
+  return Math.round(step / 2 + Math.random() * (step / 2))
+}
+
+// Captures are meant to be attached to bug reports, so never write the token
+function redactFrame(data: string): string {
+  try {
+    const frame = JSON.parse(data) as { method?: string; params?: { auth?: { token?: string } } }
+    if (frame.method === 'connect' && frame.params?.auth?.token) {
+      frame.params.auth.token = '[redacted]'
+      return JSON.stringify(frame)
+    }
+  } catch {
+    // Not JSON; record it as-is
+  }
+  return data
+}
+
+// Appends every raw frame to an NDJSON session file
+class SessionRecorder {
+  readonly path: string
+  private stream: WriteStream
+
+  constructor(path: string, url: string) {
+    this.path = path
+    this.stream = createWriteStream(path, { flags: 'a', mode: 0o600 })
+    this.stream.on('error', (err) => {
+      console.error('Session recording failed:', err.message)
+    })
+    this.write({ kind: 'session', t: Date.now(), url, version: SESSION_FORMAT_VERSION })
+  }
+
+  frame(dir: 'in' | 'out', data: string): void {
+    const recorded = dir === 'out' ? redactFrame(data) : data
+    this.write({ kind: 'frame', t: Date.now(), dir, data: recorded })
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(() => resolve()))
+  }
+
+  private write(record: SessionRecord): void {
+    this.stream.write(JSON.stringify(record) + '\n')
+  }
+}
+
+/** Reads an NDJSON session capture written by startRecording(). */
+export async function readSession(path: string): Promise<SessionRecord[]> {
+  const lines = (await readFile(path, 'utf-8')).split('\n')
+  const records: SessionRecord[] = []
+  lines.forEach((line, i) => {
+    if (!line.trim()) return
+    let record: SessionRecord
+    try {
+      record = JSON.parse(line)
+    } catch {
+      throw new Error(`Invalid session file: line ${i + 1} is not JSON`)
+    }
+    const valid =
+      record.kind === 'session' ||
+      (record.kind === 'frame' && typeof record.data === 'string' && typeof record.t === 'number')
+    if (valid) {
+      records.push(record)
+    } else {
+      throw new Error(`Invalid session file: unexpected record on line ${i + 1}`)
+    }
+  })
+  return records
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+let requestId = 0
+
+export class GatewayClient extends EventEmitter {
+  private ws: WebSocket | null = null
+  private config: GatewayConnectionConfig
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private state: ConnectionState = 'idle'
+  private attempt = 0
+  private nextRetryAt?: number
+  private lastError?: string
+  // Set when the current socket closes for a reason retrying cannot fix
+  private terminalState: 'auth-failed' | 'incompatible' | null = null
+  private protocol?: number
+  private serverVersion?: string
+  private heartbeatTimer: NodeJS.Timeout | null = null
+  private missedBeats = 0
+  private pingSentAt?: number
+  private latencyMs?: number
+  private lastMessageAt?: number
+  private identity: DeviceIdentity | null = null
+  private pending = new Map<string, PendingCall>()
+  // Sequence tracking, reset for every new connection
+  private lastSeq?: number
+  private lastStateVersion?: number
+  private hadSession = false
+  private resyncing = false
+  private recorder: SessionRecorder | null = null
+  // Identity of the running replay; cleared to cancel it
+  private replayRun: object | null = null
+
+  constructor(config: Partial<GatewayConnectionConfig> = {}) {
+    super()
+    this.config = {
+      url: DEFAULT_GATEWAY_URL,
+      scopes: DEFAULT_SCOPES,
+      displayName: 'Clawd Monitor',
+      ...config
+    }
+  }
+
+  /** Replaces the connection settings; takes effect on the next connect. */
+  configure(config: GatewayConnectionConfig): void {
+    this.config = { ...config }
+    // Sequence history from another gateway says nothing about this one
+    this.hadSession = false
+    this.emit('status', this.getStatus())
+  }
+
+  /** Identity presented in the connect handshake; takes effect on the next connect. */
+  setDeviceIdentity(identity: DeviceIdentity | null): void {
+    this.identity = identity
+  }
+
+  connect(): void {
+    if (
+      this.state !== 'idle' &&
+      this.state !== 'backoff' &&
+      this.state !== 'auth-failed' &&
+      this.state !== 'incompatible'
+    ) {
+      return
+    }
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    // A manual connect after a terminal failure starts a fresh attempt series
+    if (this.state === 'auth-failed' || this.state === 'incompatible') {
+      this.attempt = 0
+    }
+    this.terminalState = null
+    this.nextRetryAt = undefined
+    this.setState('connecting')
+
+    let ws: WebSocket
+    try {
+      ws = new WebSocket(this.config.url)
+    } catch (err) {
+      // Replay gateways carry a file:// URL and cannot go live
+      this.lastError = (err as Error).message
+      this.setState('idle')
+      return
+    }
+    this.ws = ws
+
+    ws.on('open', () => {
+      console.log('Gateway WebSocket connected, waiting for challenge...')
+      // Don't send connect yet - wait for connect.challenge event
+      this.setState('awaiting-challenge')
+    })
+
+    ws.on('message', (data: Buffer) => {
+      const raw = data.toString()
+      this.lastMessageAt = Date.now()
+      this.recorder?.frame('in', raw)
+      this.handleFrame(ws, raw)
+    })
+
+    ws.on('error', (err) => {
+      console.error('Gateway error:', err)
+      this.lastError = err.message
+      this.emit('error', err)
+    })
+
+    ws.on('close', () => {
+      // Ignore sockets we already abandoned via disconnect()
+      if (ws !== this.ws) return
+      console.log('Gateway disconnected')
+      this.ws = null
+      this.stopHeartbeat()
+      const wasConnected = this.state === 'connected'
+      this.rejectAllPending('Gateway connection closed')
+      if (this.terminalState) {
+        this.setState(this.terminalState)
+      } else {
+        this.scheduleReconnect()
+      }
+      if (wasConnected) {
+        this.emit('disconnected')
+      }
+    })
+  }
+
+  // `ws` is null while replaying a recorded session
+  private handleFrame(ws: WebSocket | null, raw: string): void {
+    let frame: Frame
+    try {
+      frame = parseFrame(raw)
+    } catch (err) {
+      this.reportMalformed(err as Error, raw)
+      const id = malformedResponseId(raw)
+      if (id) this.settle(id, err as Error)
+      return
+    }
+
+    if (frame.type === 'event') {
+      // Handle connect.challenge - must respond with connect request
+      if (frame.event === 'connect.challenge') {
+        if (ws) this.handleChallenge(ws, frame)
+        return
+      }
+
+      this.trackSequence(frame)
+
+      // It's a regular event from the Gateway
+      const event: GatewayEvent = {
+        type: frame.event,
+        payload: frame.payload,
+        seq: frame.seq,
+        stateVersion: frame.stateVersion,
+        timestamp: Date.now()
+      }
+      this.emit('message', event)
+      this.emit(frame.event, event)
+    } else if (frame.type === 'res') {
+      if (frame.ok) {
+        this.settle(frame.id, null, frame.payload)
+      } else {
+        this.settle(frame.id, new GatewayRequestError(frame.error))
+      }
+    }
+  }
+
+  private handleChallenge(ws: WebSocket, frame: EventFrame): void {
+    let challenge: ChallengePayload
+    try {
+      challenge = ChallengePayloadSchema.parse(frame.payload, 'payload')
+    } catch (err) {
+      this.reportMalformed(err as Error, JSON.stringify(frame))
+      ws.close()
+      return
+    }
+
+    console.log('Received challenge, sending connect with nonce...')
+    this.setState('handshaking')
+    let params: ConnectParams
+    try {
+      params = this.connectParams(challenge)
+    } catch (err) {
+      // A broken key or profile fails the same way on every retry, so stop here
+      console.error('Failed to build connect request:', (err as Error).message)
+      this.lastError = `Invalid credentials or profile: ${(err as Error).message}`
+      this.terminalState = 'auth-failed'
+      ws.close()
+      return
+    }
+
+    this.request('connect', params).then(
+      (payload) => this.handleHello(ws, payload),
+      (err) => {
+        console.error('Gateway handshake failed:', err.message)
+        this.lastError = err.message
+        if (isProtocolMismatch(err)) {
+          this.failIncompatible(ws, `Incompatible gateway: ${err.message}`)
+          return
+        }
+        this.terminalState = isAuthError(err) ? 'auth-failed' : null
+        ws.close()
+      }
+    )
+  }
+
+  private connectParams(challenge: ChallengePayload): ConnectParams {
+    return ConnectParamsSchema.parse({
+      minProtocol: PROTOCOL_MIN,
+      maxProtocol: PROTOCOL_MAX,
+      client: {
+        id: 'clawd-monitor',
+        displayName: this.config.displayName,
+        version: '1.0.0',
+        platform: process.platform,
+        mode: 'operator'
+      },
+      role: 'operator',
+      scopes: this.config.scopes,
+      caps: [],
+      commands: [],
+      auth: this.config.token ? { token: this.config.token } : undefined,
+      device: this.identity
+        ? signChallenge(this.identity, challenge.nonce)
+        : { nonce: challenge.nonce },
+      locale: 'en-US',
+      userAgent: 'clawd-monitor/1.0.0'
+    })
+  }
+
+  private handleHello(ws: WebSocket, payload: unknown): void {
+    let hello: HelloPayload
+    try {
+      hello = HelloPayloadSchema.parse(payload, 'hello')
+    } catch (err) {
+      this.reportMalformed(err as Error, JSON.stringify(payload) ?? '')
+      this.failIncompatible(
+        ws,
+        `Incompatible gateway: unexpected hello (${(err as Error).message})`
+      )
+      return
+    }
+    if (!isSupportedProtocol(hello.protocol)) {
+      this.failIncompatible(
+        ws,
+        `Incompatible gateway: it speaks protocol v${hello.protocol}, ` +
+          `this monitor supports v${PROTOCOL_MIN}–v${PROTOCOL_MAX}`
+      )
+      return
+    }
+
+    console.log(`Gateway handshake successful (protocol v${hello.protocol})`)
+    this.protocol = hello.protocol
+    this.serverVersion = hello.server?.version
+    this.attempt = 0
+    this.lastError = undefined
+    this.lastSeq = undefined
+    this.lastStateVersion = hello.stateVersion
+    this.setState('connected')
+    this.startHeartbeat(ws)
+    this.emit('connected', hello)
+    // Anything sent while we were away is gone; mark it and resync
+    if (this.hadSession) {
+      this.reportGap({ reason: 'reconnect' })
+    }
+    this.hadSession = true
+  }
+
+  // Retrying cannot fix a version mismatch, so stop until the user reconnects
+  private failIncompatible(ws: WebSocket, message: string): void {
+    console.error(message)
+    this.lastError = message
+    this.terminalState = 'incompatible'
+    ws.close()
+  }
+
+  private reportMalformed(error: Error, raw: string): void {
+    const diagnostic: GatewayDiagnostic = {
+      kind: 'malformed-frame',
+      message: error.message,
+      raw: raw.length > MAX_DIAGNOSTIC_RAW ? `${raw.slice(0, MAX_DIAGNOSTIC_RAW)}…` : raw,
+      timestamp: Date.now()
+    }
+    this.emit('diagnostic', diagnostic)
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return
+
+    this.attempt++
+    const delay = backoffDelay(this.attempt)
+    this.nextRetryAt = Date.now() + delay
+    this.setState('backoff')
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      console.log(`Attempting to reconnect to Gateway (attempt ${this.attempt})...`)
+      this.connect()
+    }, delay)
+  }
+
+  // Compares seq/stateVersion against the last values seen on this connection
+  // and reports a gap when frames were skipped.
+  private trackSequence(message: EventFrame): void {
+    if (typeof message.seq === 'number') {
+      if (this.lastSeq !== undefined && message.seq > this.lastSeq + 1) {
+        this.reportGap({
+          reason: 'seq',
+          expectedSeq: this.lastSeq + 1,
+          receivedSeq: message.seq,
+          missed: message.seq - this.lastSeq - 1
+        })
+      }
+      if (this.lastSeq === undefined || message.seq > this.lastSeq) {
+        this.lastSeq = message.seq
+      }
+      // A seq gap already covers any state change in between
+      if (typeof message.stateVersion === 'number') {
+        this.lastStateVersion = message.stateVersion
+      }
+      return
+    }
+
+    if (typeof message.stateVersion === 'number') {
+      if (this.lastStateVersion !== undefined && message.stateVersion > this.lastStateVersion + 1) {
+        this.reportGap({
+          reason: 'stateVersion',
+          previousStateVersion: this.lastStateVersion,
+          stateVersion: message.stateVersion
+        })
+      }
+      this.lastStateVersion = message.stateVersion
+    }
+  }
+
+  // Inserts a synthetic gap marker into the event stream and fetches a fresh
+  // snapshot so views can rebuild what they missed.
+  private reportGap(gap: GapInfo): void {
+    console.warn('Gateway event gap detected:', gap)
+    const marker: GatewayEvent = {
+      type: 'gap',
+      payload: gap,
+      seq: gap.receivedSeq,
+      timestamp: Date.now(),
+      synthetic: true
+    }
+    this.emit('gap', gap)
+    this.emit('message', marker)
+    this.resync()
+  }
+
+  private resync(): void {
+    if (this.resyncing || !this.isConnected()) return
+    this.resyncing = true
+    this.call(SNAPSHOT_METHOD, {})
+      .then((snapshot) => {
+        const event: GatewayEvent = {
+          type: 'snapshot',
+          payload: snapshot,
+          timestamp: Date.now(),
+          synthetic: true
+        }
+        this.emit('snapshot', event)
+        this.emit('message', event)
+      })
+      .catch((err) => {
+        console.error('Gateway resync failed:', err.message)
+      })
+      .finally(() => {
+        this.resyncing = false
+      })
+  }
+
+  // Pings the socket on an interval. An OPEN socket to a hung gateway or a
+  // network that went away under a sleeping laptop never closes by itself,
+  // so unanswered pings are the only way to notice.
+  private startHeartbeat(ws: WebSocket): void {
+    this.stopHeartbeat()
+
+    ws.on('pong', () => {
+      const now = Date.now()
+      this.missedBeats = 0
+      this.lastMessageAt = now
+      if (this.pingSentAt !== undefined) {
+        this.latencyMs = now - this.pingSentAt
+        this.pingSentAt = undefined
+      }
+      this.emit('status', this.getStatus())
+    })
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.pingSentAt !== undefined) {
+        this.missedBeats++
+      }
+      if (this.missedBeats >= HEARTBEAT_MAX_MISSED) {
+        console.warn(`Gateway missed ${this.missedBeats} heartbeats, forcing reconnect`)
+        this.lastError = 'Heartbeat timeout'
+        ws.terminate()
+        return
+      }
+      this.pingSentAt = Date.now()
+      try {
+        ws.ping()
+      } catch (err) {
+        console.error('Gateway ping failed:', (err as Error).message)
+      }
+    }, HEARTBEAT_INTERVAL)
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+    this.missedBeats = 0
+    this.pingSentAt = undefined
+    this.latencyMs = undefined
+  }
+
+  private setState(state: ConnectionState): void {
+    this.state = state
+    if (state !== 'backoff') {
+      this.nextRetryAt = undefined
+    }
+    this.emit('status', this.getStatus())
+  }
+
+  /** Starts appending every raw inbound and outbound frame to an NDJSON file. */
+  async startRecording(path: string): Promise<void> {
+    await this.stopRecording()
+    this.recorder = new SessionRecorder(path, this.config.url)
+    this.emit('status', this.getStatus())
+  }
+
+  /** Stops recording and resolves with the file that was written, if any. */
+  async stopRecording(): Promise<string | undefined> {
+    const recorder = this.recorder
+    if (!recorder) return undefined
+    this.recorder = null
+    await recorder.close()
+    this.emit('status', this.getStatus())
+    return recorder.path
+  }
+
+  /**
+   * Feeds the inbound frames of a recorded session back through the same
+   * path live frames take, keeping their original spacing divided by
+   * `speed`. Closes any live connection first; disconnect() stops it.
+   */
+  async replay(records: SessionRecord[], options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1
+    this.disconnect()
+    const run = {}
+    this.replayRun = run
+    this.lastSeq = undefined
+    this.lastStateVersion = undefined
+    this.lastError = undefined
+    this.setState('replaying')
+
+    let previous: number | undefined
+    for (const record of records) {
+      if (record.kind !== 'frame' || record.dir !== 'in') continue
+      if (previous !== undefined && speed > 0) {
+        await sleep((record.t - previous) / speed)
+      }
+      previous = record.t
+      if (this.replayRun !== run) return
+      this.lastMessageAt = Date.now()
+      this.handleFrame(null, record.data)
+    }
+
+    if (this.replayRun === run) {
+      this.replayRun = null
+      this.setState('idle')
+    }
+  }
+
+  /** Closes the link and stops reconnecting; resolves once the socket has closed. */
+  disconnect(): Promise<void> {
+    this.replayRun = null
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    const wasConnected = this.state === 'connected'
+    this.stopHeartbeat()
+    let closed = Promise.resolve()
+    if (this.ws) {
+      const ws = this.ws
+      this.ws = null
+      if (ws.readyState !== WebSocket.CLOSED) {
+        closed = new Promise((resolve) => ws.once('close', () => resolve()))
+      }
+      ws.close()
+    }
+    this.attempt = 0
+    this.rejectAllPending('Gateway disconnected')
+    this.setState('idle')
+    if (wasConnected) {
+      this.emit('disconnected')
+    }
+    return closed
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected' && this.ws?.readyState === WebSocket.OPEN
+  }
+
+  /** Whether the connection requests `scope` in its handshake. */
+  hasScope(scope: string): boolean {
+    return this.config.scopes.includes(scope)
+  }
+
+  getStatus(): GatewayStatus {
+    return {
+      state: this.state,
+      connected: this.isConnected(),
+      url: this.config.url,
+      attempt: this.attempt,
+      nextRetryAt: this.nextRetryAt,
+      lastError: this.lastError,
+      latencyMs: this.latencyMs,
+      lastMessageAt: this.lastMessageAt,
+      protocol: this.state === 'connected' ? this.protocol : undefined,
+      serverVersion: this.state === 'connected' ? this.serverVersion : undefined,
+      recording: this.recorder?.path
+    }
+  }
+
+  call(method: string, params: unknown, options: CallOptions = {}): Promise<unknown> {
+    if (!this.isConnected()) {
+      return Promise.reject(new Error('Not connected to Gateway'))
+    }
+    const started = performance.now()
+    const report = (ok: boolean): void => {
+      const timing: RpcTiming = { method, durationMs: performance.now() - started, ok }
+      this.emit('rpc', timing)
+    }
+    return this.request(method, params, options).then(
+      (payload) => {
+        report(true)
+        return payload
+      },
+      (error: unknown) => {
+        report(false)
+        throw error
+      }
+    )
+  }
+
+  /** Number of RPCs still waiting for a response. */
+  pendingCount(): number {
+    return this.pending.size
+  }
+
+  // Sends a request frame and registers it in the pending table. The single
+  // message handler in connect() settles it when the matching `res` arrives.
+  private request(method: string, params: unknown, options: CallOptions = {}): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const { timeoutMs = DEFAULT_CALL_TIMEOUT, signal } = options
+
+      if (signal?.aborted) {
+        reject(new Error('Gateway call aborted'))
+        return
+      }
+      if (this.ws?.readyState !== WebSocket.OPEN) {
+        reject(new Error('Not connected to Gateway'))
+        return
+      }
+
+      const id = `call-${requestId++}`
+      const message: RequestFrame = {
+        type: 'req',
+        id,
+        method,
+        params
+      }
+
+      const onAbort = (): void => {
+        this.settle(id, new Error('Gateway call aborted'))
+      }
+
+      const timer = setTimeout(() => {
+        this.settle(id, new Error(`Gateway call timeout: ${method}`))
+      }, timeoutMs)
+
+      this.pending.set(id, {
+        method,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        }
+      })
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      try {
+        const data = JSON.stringify(message)
+        this.recorder?.frame('out', data)
+        this.ws.send(data)
+      } catch (err) {
+        this.settle(id, err as Error)
+      }
+    })
+  }
+
+  // Resolves or rejects a pending call and removes it from the table.
+  private settle(id: string, error: Error | null, payload?: unknown): void {
+    const entry = this.pending.get(id)
+    if (!entry) return
+    this.pending.delete(id)
+    entry.cleanup()
+    if (error) {
+      entry.reject(error)
+    } else {
+      entry.resolve(payload)
+    }
+  }
+
+  private rejectAllPending(reason: string): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, new Error(reason))
+    }
+  }
+}
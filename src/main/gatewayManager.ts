@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events'
+import { basename } from 'path'
+import { pathToFileURL } from 'url'
+import {
+  GatewayClient,
+  type GapInfo,
+  type GatewayEvent,
+  type ReplayOptions,
+  type RpcTiming,
+  type SessionRecord
+} from './gateway'
+import type { DeviceIdentity } from './deviceIdentity'
+import type { GatewayProfileEntry } from './profiles'
+import type { GatewayDiagnostic, GatewaySummary } from '../shared/gateway'
+
+/** Id of the pseudo gateway that plays back recorded sessions. */
+export const REPLAY_GATEWAY_ID = 'replay'
+
+export interface ManagedGateway {
+  id: string
+  name: string
+  client: GatewayClient
+  /** Read cron/skills data through the local clawdbot CLI and ~/clawd files. */
+  localCli: boolean
+  configKey: string
+  /** Not backed by a profile, so sync() leaves it alone. */
+  transient?: boolean
+}
+
+/**
+ * Owns one GatewayClient per enabled profile. Events are tagged with the id
+ * of the gateway they came from and re-emitted as `event`, alongside
+ * `status`, `gap`, `diagnostic` and `rpc` notifications keyed by gateway id.
+ */
+export class GatewayManager extends EventEmitter {
+  private gateways = new Map<string, ManagedGateway>()
+  private identity: DeviceIdentity | null = null
+  private defaultId = ''
+
+  /** Creates, reconfigures or removes clients so they match the profile list. */
+  sync(entries: GatewayProfileEntry[], defaultId: string): void {
+    this.defaultId = defaultId
+    const wanted = new Map(entries.filter((e) => e.enabled).map((e) => [e.id, e]))
+
+    for (const [id, gateway] of this.gateways) {
+      if (!gateway.transient && !wanted.has(id)) {
+        gateway.client.removeAllListeners()
+        gateway.client.disconnect()
+        this.gateways.delete(id)
+        this.emit('removed', id)
+      }
+    }
+
+    for (const entry of wanted.values()) {
+      const configKey = JSON.stringify(entry.config)
+      const existing = this.gateways.get(entry.id)
+      if (existing) {
+        existing.name = entry.name
+        existing.localCli = entry.localCli
+        if (existing.configKey !== configKey) {
+          existing.configKey = configKey
+          existing.client.disconnect()
+          existing.client.configure(entry.config)
+          existing.client.connect()
+        } else {
+          this.emit('status', this.summarize(existing))
+        }
+        continue
+      }
+
+      const client = new GatewayClient(entry.config)
+      client.setDeviceIdentity(this.identity)
+      const gateway: ManagedGateway = {
+        id: entry.id,
+        name: entry.name,
+        client,
+        localCli: entry.localCli,
+        configKey
+      }
+      this.attach(gateway)
+      this.gateways.set(entry.id, gateway)
+      client.connect()
+    }
+  }
+
+  /** Applies a device identity to every client, reconnecting the active ones. */
+  setDeviceIdentity(identity: DeviceIdentity | null): void {
+    this.identity = identity
+    for (const { client } of this.gateways.values()) {
+      client.setDeviceIdentity(identity)
+      if (client.getStatus().state !== 'idle') {
+        client.disconnect()
+        client.connect()
+      }
+    }
+  }
+
+  /**
+   * Plays a recorded session through a dedicated replay gateway, replacing
+   * any earlier replay. Its events reach listeners like a live gateway's.
+   */
+  replay(path: string, records: SessionRecord[], options: ReplayOptions = {}): ManagedGateway {
+    this.closeReplay()
+    const client = new GatewayClient({ url: pathToFileURL(path).href })
+    const gateway: ManagedGateway = {
+      id: REPLAY_GATEWAY_ID,
+      name: `Replay: ${basename(path)}`,
+      client,
+      localCli: false,
+      configKey: path,
+      transient: true
+    }
+    this.attach(gateway)
+    this.gateways.set(gateway.id, gateway)
+    client.replay(records, options).catch((error: unknown) => {
+      console.error('Session replay failed:', (error as Error).message)
+    })
+    return gateway
+  }
+
+  closeReplay(): void {
+    const gateway = this.gateways.get(REPLAY_GATEWAY_ID)
+    if (!gateway) return
+    gateway.client.removeAllListeners()
+    gateway.client.disconnect()
+    this.gateways.delete(REPLAY_GATEWAY_ID)
+    this.emit('removed', REPLAY_GATEWAY_ID)
+  }
+
+  get(id: string): ManagedGateway | undefined {
+    return this.gateways.get(id)
+  }
+
+  /** Like get(), but throws for unknown ids so IPC handlers can report it. */
+  require(id: string): ManagedGateway {
+    const gateway = this.gateways.get(id)
+    if (!gateway) {
+      throw new Error(`Unknown gateway: ${id}`)
+    }
+    return gateway
+  }
+
+  all(): ManagedGateway[] {
+    return [...this.gateways.values()]
+  }
+
+  summaries(): GatewaySummary[] {
+    return this.all().map((gateway) => this.summarize(gateway))
+  }
+
+  async disconnectAll(): Promise<void> {
+    await Promise.all([...this.gateways.values()].map(({ client }) => client.disconnect()))
+  }
+
+  private summarize(gateway: ManagedGateway): GatewaySummary {
+    return {
+      id: gateway.id,
+      name: gateway.name,
+      localCli: gateway.localCli,
+      isDefault: gateway.id === this.defaultId,
+      status: gateway.client.getStatus()
+    }
+  }
+
+  private attach(gateway: ManagedGateway): void {
+    const { client } = gateway
+
+    client.on('message', (event: GatewayEvent) => {
+      this.emit('event', { ...event, gatewayId: gateway.id })
+    })
+
+    client.on('gap', (gap: GapInfo) => {
+      this.emit('gap', gateway.id, gap)
+    })
+
+    client.on('diagnostic', (diagnostic: GatewayDiagnostic) => {
+      this.emit('diagnostic', { ...diagnostic, gatewayId: gateway.id })
+    })
+
+    client.on('status', () => {
+      this.emit('status', this.summarize(gateway))
+    })
+
+    client.on('rpc', (timing: RpcTiming) => {
+      this.emit('rpc', gateway.id, timing)
+    })
+
+    // Errors are surfaced through status.lastError; keep EventEmitter from throwing
+    client.on('error', () => {})
+  }
+}
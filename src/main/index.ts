@@ -1,18 +1,93 @@
-import { app, shell, BrowserWindow, ipcMain } from 'electron'
+import { app, shell, BrowserWindow, ipcMain, dialog, Notification } from 'electron'
 import { join } from 'path'
+import { randomUUID } from 'crypto'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-import { readdir, readFile, access } from 'fs/promises'
+import { readdir, readFile, access, mkdir } from 'fs/promises'
 import { constants } from 'fs'
 import icon from '../../resources/icon.png?asset'
-import { GatewayClient, type GatewayEvent } from './gateway'
+import { readSession, type GatewayClient, type GatewayEvent, type RpcTiming } from './gateway'
+import { GatewayManager, REPLAY_GATEWAY_ID, type ManagedGateway } from './gatewayManager'
+import type { GatewayDiagnostic, GatewaySummary } from '../shared/gateway'
+import { EventStore, type RetentionRule } from './eventStore'
+import { EventBatcher } from './eventBatcher'
+import { RunTracker, type RunSummary } from './runTracker'
+import { MetricsStore, type MetricsQuery } from './metrics'
+import { AlertEngine, type AlertRecord, type AlertRuleInput } from './alerts'
+import { SinkManager, type SinkInput, type SinkStatus } from './eventSinks'
+import { LocalApi, eventQueryFromParams, type LocalApiHandler } from './localApi'
+import { PrometheusExporter } from './prometheus'
+import { ChatThreadStore } from './chatThreads'
+import {
+  CommandRunner,
+  assertName,
+  describeFailure,
+  type OutputStream,
+  type RunningCommand
+} from './commandRunner'
+import { sendViaGateway, WRITE_SCOPE, type AgentTransport } from './agentTransport'
+import type { EventQuery } from './eventQuery'
+import {
+  EXPORT_FORMATS,
+  exportEvents,
+  importEvents,
+  isExportFormat,
+  queryImported,
+  selectImported,
+  type ExportFormat,
+  type ImportedEvents
+} from './eventExport'
+import {
+  describeIdentity,
+  loadOrCreateIdentity,
+  resetIdentity,
+  rotateIdentity,
+  type DeviceIdentity
+} from './deviceIdentity'
+import { ProfileStore, type ProfileInput } from './profiles'
+import { MOCK_GATEWAY_PORT, SCENARIOS, startMockGateway } from './mockGateway'
 
-const execAsync = promisify(exec)
+const gateways = new GatewayManager()
+let deviceIdentity: DeviceIdentity | null = null
+let profiles: ProfileStore
+let eventStore: EventStore
+// Live events reach windows in acknowledged batches rather than one IPC each
+const eventBatcher = new EventBatcher(() =>
+  BrowserWindow.getAllWindows().map((win) => ({
+    id: win.webContents.id,
+    send: (batch) => win.webContents.send('gateway:eventBatch', batch)
+  }))
+)
+// Agent runs correlated from the event stream
+const runs = new RunTracker()
+// File opened for read-only browsing, separate from the live history
+let imported: ImportedEvents | null = null
+let metrics: MetricsStore
+let alerts: AlertEngine
+let sinks: SinkManager
+let localApi: LocalApi
+let prometheus: PrometheusExporter
+let cli: CommandRunner
+let threads: ChatThreadStore
+// Agent sends in progress by renderer request id, so they can be stopped
+const agentRuns = new Map<string, Pick<RunningCommand, 'kill'>>()
+// Shown notifications stay referenced so their click handlers survive garbage collection
+const notifications = new Set<Notification>()
+
+// Recent events handed to views that don't ask for a specific amount
+const DEFAULT_EVENT_LIMIT = 500
+const RETENTION_INTERVAL = 10 * 60 * 1000 // 10 minutes
+const METRICS_SAVE_INTERVAL = 60 * 1000 // 1 minute
+const CRON_POLL_INTERVAL = 60 * 1000 // 1 minute
+// Long answers are the point of the send tab; the Stop button ends a run early
+const AGENT_TIMEOUT = 10 * 60 * 1000 // 10 minutes
+// Skills run in the background, but not forever
+const SKILL_RUN_TIMEOUT = 30 * 60 * 1000 // 30 minutes
+// Longest quitting waits for sockets to close and files to flush
+const SHUTDOWN_TIMEOUT = 3000 // 3 seconds
 
-const gateway = new GatewayClient()
-const events: GatewayEvent[] = []
-const MAX_EVENTS = 100
+// Recent protocol violations, newest last, kept for the settings view
+const diagnostics: GatewayDiagnostic[] = []
+const MAX_DIAGNOSTICS = 50
 
 // Simple cache to avoid hammering CLI
 const cache = new Map<string, { data: unknown; expires: number }>()
@@ -31,6 +106,320 @@ function setCache(key: string, data: unknown): void {
   cache.set(key, { data, expires: Date.now() + CACHE_TTL })
 }
 
+// Drop every cached entry belonging to one gateway
+function clearGatewayCache(gatewayId: string): void {
+  for (const key of cache.keys()) {
+    if (key.endsWith(`:${gatewayId}`)) cache.delete(key)
+  }
+}
+
+function broadcast(channel: string, payload: unknown): void {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    win.webContents.send(channel, payload)
+  })
+}
+
+// Gateways without local CLI access can only be queried over RPC
+function requireRpc(gateway: ManagedGateway): void {
+  if (!gateway.client.isConnected()) {
+    throw new Error(`Gateway ${gateway.name} is not connected`)
+  }
+}
+
+// Cron job listing of one gateway, cached briefly
+async function cronStatus(
+  gatewayId: string
+): Promise<{ success: boolean; jobs: unknown[]; error?: string }> {
+  const cacheKey = `cron:status:${gatewayId}`
+  const cached = getCached<{ success: boolean; jobs: unknown[] }>(cacheKey)
+  if (cached) return cached
+
+  try {
+    const gateway = gateways.require(gatewayId)
+    let parsed: { jobs?: unknown[] } | unknown[]
+    if (gateway.localCli) {
+      parsed = await cli.json(['cron', 'list', '--json'], { timeoutMs: 10000 })
+    } else {
+      requireRpc(gateway)
+      parsed = (await gateway.client.call('cron.list', {}, { timeoutMs: 10000 })) as typeof parsed
+    }
+    const jobs = Array.isArray(parsed) ? parsed : parsed?.jobs || []
+    const result = { success: true, jobs }
+    setCache(cacheKey, result)
+    return result
+  } catch (error: unknown) {
+    console.error('cron:status error:', error)
+    return { success: false, error: (error as Error).message, jobs: [] }
+  }
+}
+
+// Recent runs of a gateway's first few cron jobs, cached briefly
+async function cronRuns(
+  gatewayId: string
+): Promise<{ success: boolean; runs: unknown[]; error?: string }> {
+  const cacheKey = `cron:runs:${gatewayId}`
+  const cached = getCached<{ success: boolean; runs: unknown[] }>(cacheKey)
+  if (cached) return cached
+
+  try {
+    const gateway = gateways.require(gatewayId)
+    if (!gateway.localCli) {
+      requireRpc(gateway)
+      const listed = (await gateway.client.call('cron.list', {}, { timeoutMs: 10000 })) as
+        { jobs?: Array<{ id: string }> } | Array<{ id: string }>
+      const remoteJobs = Array.isArray(listed) ? listed : listed?.jobs || []
+      const remoteRuns = await Promise.all(
+        remoteJobs.slice(0, 3).map(async (job) => {
+          try {
+            const res = (await gateway.client.call(
+              'cron.runs',
+              { id: job.id, limit: 3 },
+              { timeoutMs: 5000 }
+            )) as { entries?: unknown[] } | unknown[]
+            const entries = Array.isArray(res) ? res : res?.entries || []
+            return entries.map((entry) => ({ ...(entry as object), jobId: job.id }))
+          } catch {
+            return []
+          }
+        })
+      )
+      const result = { success: true, runs: remoteRuns.flat() }
+      setCache(cacheKey, result)
+      return result
+    }
+
+    const jobsParsed = await cli.json<{ jobs?: Array<{ id: string }> } | Array<{ id: string }>>(
+      ['cron', 'list', '--json'],
+      { timeoutMs: 10000 }
+    )
+    const jobs = Array.isArray(jobsParsed) ? jobsParsed : jobsParsed?.jobs || []
+
+    // Fetch runs in parallel (limit to 3 jobs)
+    const runPromises = jobs.slice(0, 3).map(async (job) => {
+      try {
+        // `--id=` keeps an id starting with a dash from being read as a flag
+        const { stdout } = await cli.runChecked(['cron', 'runs', `--id=${job.id}`, '--limit=3'], {
+          timeoutMs: 5000
+        })
+        if (!stdout.trim()) return []
+        return stdout
+          .trim()
+          .split('\n')
+          .map((line) => {
+            try {
+              return { ...JSON.parse(line), jobId: job.id }
+            } catch {
+              return null
+            }
+          })
+          .filter(Boolean)
+      } catch {
+        return []
+      }
+    })
+
+    const runResults = await Promise.all(runPromises)
+    const allRuns = runResults.flat()
+    const result = { success: true, runs: allRuns }
+    setCache(cacheKey, result)
+    return result
+  } catch (error: unknown) {
+    console.error('cron:runs error:', error)
+    return { success: false, error: (error as Error).message, runs: [] }
+  }
+}
+
+// Skills and memory files written by the local Clawdbot install
+const SKILLS_DIR = join(app.getPath('home'), 'clawd', 'skills')
+const MEMORY_DIR = join(app.getPath('home'), 'clawd', 'memory')
+const LOCAL_ONLY_ERROR = 'Only available for gateways with local CLI access'
+
+// Skills installed on a gateway, cached briefly
+async function listSkills(
+  gatewayId: string
+): Promise<{ success: boolean; skills: unknown[]; error?: string }> {
+  const cacheKey = `skills:list:${gatewayId}`
+  const cached = getCached<{ success: boolean; skills: unknown[] }>(cacheKey)
+  if (cached) return cached
+
+  try {
+    const gateway = gateways.require(gatewayId)
+    if (!gateway.localCli) {
+      requireRpc(gateway)
+      const status = (await gateway.client.call('skills.status', {}, { timeoutMs: 10000 })) as {
+        skills?: Array<{ name: string; description?: string; emoji?: string; path?: string }>
+      }
+      const skills = (status?.skills || []).map((skill) => ({
+        name: skill.name,
+        description: skill.description || '',
+        emoji: skill.emoji || '🔧',
+        path: skill.path || ''
+      }))
+      const result = { success: true, skills }
+      setCache(cacheKey, result)
+      return result
+    }
+
+    const entries = await readdir(SKILLS_DIR, { withFileTypes: true })
+    const skillDirs = entries.filter((e) => e.isDirectory()).map((e) => e.name)
+
+    const skillPromises = skillDirs.map(async (dir) => {
+      const skillPath = join(SKILLS_DIR, dir, 'SKILL.md')
+      if (!(await fileExists(skillPath))) return null
+
+      try {
+        const content = await readFile(skillPath, 'utf-8')
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
+        let name = dir
+        let description = ''
+        let emoji = '🔧'
+
+        if (frontmatterMatch) {
+          const frontmatter = frontmatterMatch[1]
+          const nameMatch = frontmatter.match(/^name:\s*(.+)$/m)
+          const descMatch = frontmatter.match(/^description:\s*(.+)$/m)
+          const metaMatch = frontmatter.match(/metadata:\s*(\{.+\})/)
+          if (nameMatch) name = nameMatch[1]
+          if (descMatch) description = descMatch[1]
+          if (metaMatch) {
+            try {
+              const meta = JSON.parse(metaMatch[1])
+              if (meta.clawdbot?.emoji) emoji = meta.clawdbot.emoji
+            } catch {}
+          }
+        }
+
+        return { name, description, emoji, path: skillPath }
+      } catch {
+        return null
+      }
+    })
+
+    const skills = (await Promise.all(skillPromises)).filter(Boolean)
+    const result = { success: true, skills }
+    setCache(cacheKey, result)
+    return result
+  } catch (error: unknown) {
+    return { success: false, error: (error as Error).message, skills: [] }
+  }
+}
+
+// Autonomous work sessions recorded by the local agent
+async function autonomousStatus(
+  gatewayId: string
+): Promise<{ success: boolean; sessions: unknown[]; error?: string }> {
+  try {
+    if (!gateways.require(gatewayId).localCli) {
+      return { success: false, error: LOCAL_ONLY_ERROR, sessions: [] }
+    }
+    const filePath = join(MEMORY_DIR, 'autonomous-work.json')
+    if (!(await fileExists(filePath))) {
+      return { success: true, sessions: [] }
+    }
+    const content = await readFile(filePath, 'utf-8')
+    const data = JSON.parse(content)
+    return { success: true, sessions: Array.isArray(data.sessions) ? data.sessions : [] }
+  } catch (error: unknown) {
+    return { success: false, error: (error as Error).message, sessions: [] }
+  }
+}
+
+// Summary of the local notes sync index
+async function notesSyncStatus(gatewayId: string): Promise<{
+  success: boolean
+  status: { lastSync?: string; noteCount?: number; todoCount?: number }
+  error?: string
+}> {
+  try {
+    if (!gateways.require(gatewayId).localCli) {
+      return { success: false, error: LOCAL_ONLY_ERROR, status: {} }
+    }
+    const syncDir = join(MEMORY_DIR, 'notes-sync')
+    const indexPath = join(syncDir, 'index.json')
+    const todosPath = join(syncDir, 'todos.json')
+
+    const status: { lastSync?: string; noteCount?: number; todoCount?: number } = {}
+
+    if (await fileExists(indexPath)) {
+      const index = JSON.parse(await readFile(indexPath, 'utf-8'))
+      status.lastSync = index.lastSync
+      status.noteCount = Array.isArray(index.notes) ? index.notes.length : 0
+    }
+
+    if (await fileExists(todosPath)) {
+      const todos = JSON.parse(await readFile(todosPath, 'utf-8'))
+      status.todoCount = Array.isArray(todos.items)
+        ? todos.items.filter((t: { checked?: boolean }) => !t.checked).length
+        : 0
+    }
+
+    return { success: true, status }
+  } catch (error: unknown) {
+    return { success: false, error: (error as Error).message, status: {} }
+  }
+}
+
+// Read-only endpoints of the local API, answered like the IPC handlers for the same data
+function localApiRoutes(): Record<string, LocalApiHandler> {
+  return {
+    '/gateways': () => gateways.summaries(),
+    '/gateways/:id': ({ id }) => gateways.get(id)?.client.getStatus(),
+    '/gateways/:id/cron/jobs': ({ id }) => cronStatus(id),
+    '/gateways/:id/cron/runs': ({ id }) => cronRuns(id),
+    '/gateways/:id/skills': ({ id }) => listSkills(id),
+    '/gateways/:id/autonomous': ({ id }) => autonomousStatus(id),
+    '/gateways/:id/notes-sync': ({ id }) => notesSyncStatus(id),
+    '/events': (_, query) => eventStore.query(eventQueryFromParams(query)),
+    '/runs': (_, query) => runs.list(query.get('gatewayId') ?? 'all'),
+    '/runs/:id': ({ id }) => runs.get(id),
+    '/alerts': () => alerts.history()
+  }
+}
+
+// Feed cron listings to the alert engine and the Prometheus exporter, plus
+// autonomous session counts to the exporter, for gateways that can be asked
+function pollCronJobs(): void {
+  for (const summary of gateways.summaries()) {
+    if (summary.id === REPLAY_GATEWAY_ID) continue
+    if (!summary.localCli && !summary.status.connected) continue
+    cronStatus(summary.id).then((result) => {
+      if (!result.success) return
+      alerts.checkCronJobs(summary.id, result.jobs)
+      if (prometheus.enabled) prometheus.setCronJobs(summary.id, result.jobs)
+    })
+    if (prometheus.enabled && summary.localCli) {
+      autonomousStatus(summary.id).then((result) => {
+        if (result.success) prometheus.setAutonomousSessions(summary.id, result.sessions)
+      })
+    }
+  }
+}
+
+// Native notification that opens the tab the alert points at when clicked
+function notify(record: AlertRecord): void {
+  if (!Notification.isSupported()) return
+  const notification = new Notification({
+    title: record.ruleName,
+    body: record.message,
+    urgency: record.severity === 'critical' ? 'critical' : 'normal'
+  })
+  notification.on('click', () => {
+    notifications.delete(notification)
+    const win = BrowserWindow.getAllWindows()[0]
+    if (!win) {
+      createWindow()
+      return
+    }
+    if (win.isMinimized()) win.restore()
+    win.show()
+    win.focus()
+    win.webContents.send('alerts:open', record)
+  })
+  notification.on('close', () => notifications.delete(notification))
+  notifications.add(notification)
+  notification.show()
+}
+
 async function fileExists(path: string): Promise<boolean> {
   try {
     await access(path, constants.F_OK)
@@ -69,33 +458,300 @@ function createWindow(): void {
   }
 }
 
-app.whenReady().then(() => {
-  electronApp.setAppUserModelId('com.electron')
+// Bring the running gateway clients in line with the saved profiles
+function syncGateways(): void {
+  gateways.sync(profiles.entries(), profiles.activeId)
+}
+
+// Present a new identity to every gateway by reconnecting
+function applyDeviceIdentity(identity: DeviceIdentity): void {
+  deviceIdentity = identity
+  gateways.setDeviceIdentity(identity)
+}
+
+// Value of a `--name=value` command-line flag
+function argValue(name: string): string | undefined {
+  const prefix = `--${name}=`
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length)
+}
 
-  // Gateway event listeners
-  gateway.on('message', (event: GatewayEvent) => {
-    events.push(event)
-    if (events.length > MAX_EVENTS) {
-      events.shift()
+const SESSION_FILTERS = [{ name: 'Gateway sessions', extensions: ['ndjson'] }]
+
+const EVENT_FILE_FILTERS = Object.values(EXPORT_FORMATS).map(({ name, extension }) => ({
+  name,
+  extensions: [extension]
+}))
+
+interface AgentSendRequest {
+  agent: string
+  message: string
+  /** Run the agent in-process instead of through the gateway. */
+  local?: boolean
+  /** Names the output channel and identifies the run for agent:stop. */
+  requestId?: string
+  /** Records the exchange in this thread and continues its agent session. */
+  threadId?: string
+}
+
+/** How an agent answered, whichever transport carried the message. */
+interface AgentReply {
+  transport: AgentTransport
+  output: string
+  error?: string
+  /** Only runs through the CLI have one. */
+  exitCode?: number | null
+  durationMs: number
+  stopped: boolean
+}
+
+type AgentOutputSink = (stream: OutputStream, text: string) => void
+
+async function sendAgentViaCli(
+  request: AgentSendRequest,
+  sessionId: string | undefined,
+  onOutput: AgentOutputSink
+): Promise<AgentReply> {
+  const { agent, message, local = false, requestId } = request
+  const args = ['agent', ...(local ? ['--local'] : [])]
+  // `--flag=value` keeps a message starting with a dash from being read as a flag
+  args.push(`--agent=${agent}`, `--message=${String(message)}`)
+  if (sessionId) args.push(`--session-id=${sessionId}`)
+  const running = cli.start(args, { timeoutMs: AGENT_TIMEOUT, onOutput })
+  if (requestId) agentRuns.set(requestId, running)
+  const result = await running.result.finally(() => agentRuns.delete(requestId ?? ''))
+  return {
+    transport: 'cli',
+    output: result.stdout,
+    error: result.exitCode === 0 || result.killed ? undefined : describeFailure(result),
+    exitCode: result.exitCode,
+    durationMs: result.durationMs,
+    stopped: result.killed
+  }
+}
+
+async function sendAgentViaGateway(
+  client: GatewayClient,
+  request: AgentSendRequest,
+  sessionId: string | undefined,
+  onOutput: AgentOutputSink
+): Promise<AgentReply> {
+  const { agent, message, requestId } = request
+  const controller = new AbortController()
+  if (requestId) agentRuns.set(requestId, { kill: () => controller.abort() })
+  const started = Date.now()
+  try {
+    const result = await sendViaGateway(client, {
+      agent,
+      message: String(message),
+      sessionId,
+      // The request id already names this one send, so a retried frame is not run twice
+      idempotencyKey: requestId ?? randomUUID(),
+      timeoutMs: AGENT_TIMEOUT,
+      signal: controller.signal,
+      onOutput: (text) => onOutput('stdout', text)
+    })
+    const { output, error, durationMs, stopped } = result
+    return { transport: 'gateway', output, error, durationMs, stopped }
+  } catch (error: unknown) {
+    // The message may already have reached the agent, so it is not retried through the CLI
+    return {
+      transport: 'gateway',
+      output: '',
+      error: (error as Error).message,
+      durationMs: Date.now() - started,
+      stopped: false
     }
-    BrowserWindow.getAllWindows().forEach((win) => {
-      win.webContents.send('gateway:event', event)
+  } finally {
+    agentRuns.delete(requestId ?? '')
+  }
+}
+
+interface ExportRequest {
+  format: ExportFormat
+  query: EventQuery
+  /** Export from the imported file instead of the live history. */
+  imported?: boolean
+}
+
+async function sessionsDir(): Promise<string> {
+  const dir = join(app.getPath('userData'), 'sessions')
+  await mkdir(dir, { recursive: true })
+  return dir
+}
+
+// Plays a recorded session through the replay gateway and returns its id
+async function startReplay(path: string, speed: number): Promise<string> {
+  const records = await readSession(path)
+  return gateways.replay(path, records, { speed }).id
+}
+
+// Development stand-in for a real gateway, enabled with CLAWD_MOCK_GATEWAY=1
+// (or a port number). It replays its canned scenarios in a loop.
+async function startDevMockGateway(): Promise<void> {
+  const setting = process.env['CLAWD_MOCK_GATEWAY']
+  if (!is.dev || !setting) return
+  const port = Number(setting) > 1 ? Number(setting) : MOCK_GATEWAY_PORT
+  const mock = await startMockGateway({ port })
+  console.log(`Mock gateway listening on ${mock.url}; add a profile pointing at it`)
+
+  const scenarios = Object.keys(SCENARIOS)
+  let next = 0
+  setInterval(() => {
+    mock.play(scenarios[next++ % scenarios.length]).catch((error: unknown) => {
+      console.error('Mock gateway scenario failed:', (error as Error).message)
     })
-  })
+  }, 20000)
+}
+
+app.whenReady().then(async () => {
+  electronApp.setAppUserModelId('com.electron')
+
+  try {
+    deviceIdentity = await loadOrCreateIdentity(app.getPath('userData'))
+    gateways.setDeviceIdentity(deviceIdentity)
+  } catch (error: unknown) {
+    console.error('Failed to load device identity:', (error as Error).message)
+  }
+
+  cli = new CommandRunner(app.getPath('userData'))
+  await cli.load()
+
+  threads = new ChatThreadStore(app.getPath('userData'))
+  await threads.load()
+
+  profiles = new ProfileStore(app.getPath('userData'))
+  await profiles.load()
+
+  // Event history has to be loaded before any gateway starts delivering
+  eventStore = new EventStore(join(app.getPath('userData'), 'events'))
+  try {
+    await eventStore.load()
+    // A replay is never resumed, so its events are not worth keeping
+    await eventStore.clear(REPLAY_GATEWAY_ID)
+    runs.load(eventStore.select({ types: ['agent*', 'chat*'] }))
+  } catch (error: unknown) {
+    console.error('Failed to load event history:', (error as Error).message)
+  }
+  setInterval(() => {
+    eventStore.applyRetention().catch((error: unknown) => {
+      console.error('Event retention failed:', (error as Error).message)
+    })
+  }, RETENTION_INTERVAL)
 
-  gateway.on('connected', () => {
-    BrowserWindow.getAllWindows().forEach((win) => {
-      win.webContents.send('gateway:status', { connected: true })
+  metrics = new MetricsStore(app.getPath('userData'))
+  await metrics.load()
+  setInterval(() => {
+    metrics.save().catch((error: unknown) => {
+      console.error('Failed to save metrics:', (error as Error).message)
     })
+  }, METRICS_SAVE_INTERVAL)
+
+  alerts = new AlertEngine(app.getPath('userData'))
+  await alerts.load()
+  alerts.on('fired', (record: AlertRecord) => {
+    broadcast('alerts:fired', record)
+    notify(record)
   })
+  alerts.start()
+  setInterval(() => {
+    if (alerts.watchesCron() || prometheus.enabled) pollCronJobs()
+  }, CRON_POLL_INTERVAL)
 
-  gateway.on('disconnected', () => {
-    BrowserWindow.getAllWindows().forEach((win) => {
-      win.webContents.send('gateway:status', { connected: false })
-    })
+  sinks = new SinkManager(app.getPath('userData'))
+  await sinks.load()
+  sinks.on('updated', (status: SinkStatus[]) => broadcast('sinks:updated', status))
+
+  // Starts listening right away if it was enabled last session
+  localApi = new LocalApi(app.getPath('userData'), localApiRoutes())
+  await localApi.load()
+
+  prometheus = new PrometheusExporter(app.getPath('userData'))
+  await prometheus.load()
+
+  await startDevMockGateway().catch((error: unknown) => {
+    console.error('Failed to start mock gateway:', (error as Error).message)
+  })
+
+  // Gateway event listeners, every event tagged with its gateway id
+  gateways.on('event', (event: GatewayEvent) => {
+    const stored = eventStore.append(event)
+    eventBatcher.push(stored)
+    runs.ingest(stored)
+    // Replays would skew the history and raise alerts for events that already happened
+    if (stored.gatewayId !== REPLAY_GATEWAY_ID) {
+      metrics.recordEvent(stored)
+      alerts.ingest(stored)
+      sinks.push(stored)
+      localApi.publish(stored)
+      prometheus.recordEvent(stored)
+    }
+  })
+
+  // Lost events may mean cached CLI results are stale too
+  gateways.on('gap', (gatewayId: string) => {
+    clearGatewayCache(gatewayId)
+  })
+
+  // Broadcast every connection state transition
+  gateways.on('status', (summary: GatewaySummary) => {
+    broadcast('gateway:status', summary)
+    if (summary.id !== REPLAY_GATEWAY_ID) {
+      alerts.updateStatus(summary)
+      prometheus.updateStatus(summary)
+    }
   })
 
-  gateway.connect()
+  // Frames that failed schema validation are dropped and reported here
+  gateways.on('diagnostic', (diagnostic: GatewayDiagnostic) => {
+    diagnostics.push(diagnostic)
+    if (diagnostics.length > MAX_DIAGNOSTICS) {
+      diagnostics.shift()
+    }
+    broadcast('gateway:diagnostic', diagnostic)
+  })
+
+  gateways.on('rpc', (gatewayId: string, timing: RpcTiming) => {
+    prometheus.recordRpc(gatewayId, timing)
+  })
+
+  runs.on('updated', (summaries: RunSummary[]) => {
+    broadcast('runs:updated', summaries)
+  })
+
+  gateways.on('removed', (gatewayId: string) => {
+    clearGatewayCache(gatewayId)
+    alerts.forgetGateway(gatewayId)
+    prometheus.forgetGateway(gatewayId)
+    if (gatewayId === REPLAY_GATEWAY_ID) {
+      runs.clear(gatewayId)
+      eventStore.clear(gatewayId).catch((error: unknown) => {
+        console.error('Failed to drop replayed events:', (error as Error).message)
+      })
+    }
+    broadcast('gateway:removed', gatewayId)
+  })
+
+  syncGateways()
+
+  // --record=<file> captures the default gateway from launch; --replay=<file>
+  // plays a capture back at --replay-speed (default 1)
+  const recordPath = argValue('record')
+  if (recordPath) {
+    const gateway = gateways.get(profiles.activeId)
+    if (gateway) {
+      gateway.client.startRecording(recordPath).catch((error: unknown) => {
+        console.error('Failed to start session recording:', (error as Error).message)
+      })
+    } else {
+      console.warn('--record ignored: the default gateway profile is disabled')
+    }
+  }
+  const replayPath = argValue('replay')
+  if (replayPath) {
+    startReplay(replayPath, Number(argValue('replay-speed') ?? 1)).catch((error: unknown) => {
+      console.error('Failed to replay session:', (error as Error).message)
+    })
+  }
 
   app.on('browser-window-created', (_, window) => {
     optimizer.watchWindowShortcuts(window)
@@ -104,208 +760,488 @@ app.whenReady().then(() => {
   // IPC handlers
   ipcMain.on('ping', () => console.log('pong'))
 
-  ipcMain.handle('gateway:status', () => ({
-    connected: gateway.isConnected(),
-    url: 'ws://127.0.0.1:18789'
-  }))
-
-  ipcMain.handle('gateway:events', () => events)
+  ipcMain.handle('gateway:list', () => gateways.summaries())
 
-  ipcMain.handle('gateway:connect', () => {
-    gateway.connect()
-    return { success: true }
+  ipcMain.handle('gateway:status', (_, gatewayId: string) => {
+    const gateway = gateways.get(gatewayId)
+    return gateway ? gateway.client.getStatus() : null
   })
 
-  ipcMain.handle('gateway:disconnect', () => {
-    gateway.disconnect()
-    return { success: true }
+  ipcMain.handle(
+    'gateway:events',
+    (_, gatewayId: string = 'all', limit: number = DEFAULT_EVENT_LIMIT) =>
+      eventStore.recent(gatewayId, limit)
+  )
+
+  ipcMain.on('gateway:ack', (e, batchId: number) => eventBatcher.ack(e.sender.id, batchId))
+
+  ipcMain.on('gateway:resume', (e) => eventBatcher.resume(e.sender.id))
+
+  ipcMain.handle('gateway:query', (_, query: EventQuery = {}) => eventStore.query(query))
+
+  ipcMain.handle('gateway:connect', (_, gatewayId: string) => {
+    try {
+      gateways.require(gatewayId).client.connect()
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
   })
 
-  ipcMain.handle('gateway:clear', () => {
-    events.length = 0
-    return { success: true }
+  ipcMain.handle('gateway:disconnect', (_, gatewayId: string) => {
+    try {
+      gateways.require(gatewayId).client.disconnect()
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
   })
 
-  // Send message to agent (async, non-blocking)
-  ipcMain.handle('agent:send', async (_, { agent, message, local = false }) => {
+  ipcMain.handle('gateway:clear', async (_, gatewayId: string = 'all') => {
     try {
-      const cmd = local
-        ? `clawdbot agent --local --agent ${agent} --message "${message.replace(/"/g, '\\"')}"`
-        : `clawdbot agent --agent ${agent} --message "${message.replace(/"/g, '\\"')}"`
-      const { stdout } = await execAsync(cmd, { timeout: 60000 })
-      return { success: true, output: stdout }
+      await eventStore.clear(gatewayId)
+      runs.clear(gatewayId)
+      return { success: true }
     } catch (error: unknown) {
       return { success: false, error: (error as Error).message }
     }
   })
 
-  // Get cron jobs status (async with cache)
-  ipcMain.handle('cron:status', async () => {
-    const cached = getCached<{ success: boolean; jobs: unknown[] }>('cron:status')
-    if (cached) return cached
+  // Event history retention
+  ipcMain.handle('store:stats', () => eventStore.stats())
 
+  ipcMain.handle('store:retention', () => eventStore.retention())
+
+  ipcMain.handle('store:setRetention', async (_, rules: RetentionRule[]) => {
     try {
-      const { stdout } = await execAsync('clawdbot cron list --json', { timeout: 10000 })
-      const parsed = JSON.parse(stdout)
-      const jobs = Array.isArray(parsed) ? parsed : (parsed.jobs || [])
-      const result = { success: true, jobs }
-      setCache('cron:status', result)
-      return result
+      await eventStore.setRetention(rules)
+      return { success: true, stats: eventStore.stats() }
     } catch (error: unknown) {
-      console.error('cron:status error:', error)
-      return { success: false, error: (error as Error).message, jobs: [] }
+      return { success: false, error: (error as Error).message }
     }
   })
 
-  // Get cron run history (async, parallel, with cache)
-  ipcMain.handle('cron:runs', async () => {
-    const cached = getCached<{ success: boolean; runs: unknown[] }>('cron:runs')
-    if (cached) return cached
+  ipcMain.handle('store:export', async (_, request: ExportRequest) => {
+    try {
+      if (!isExportFormat(request.format)) {
+        throw new Error(`Unknown export format: ${request.format}`)
+      }
+      if (request.imported && !imported) throw new Error('No imported file is open')
+      const events =
+        request.imported && imported
+          ? selectImported(imported, request.query)
+          : eventStore.select(request.query)
+      if (events.length === 0) throw new Error('No events match the selection')
+
+      const { extension } = EXPORT_FORMATS[request.format]
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const { canceled, filePath } = await dialog.showSaveDialog({
+        title: 'Export events',
+        defaultPath: join(app.getPath('downloads'), `clawd-events-${stamp}.${extension}`),
+        filters: [{ name: EXPORT_FORMATS[request.format].name, extensions: [extension] }]
+      })
+      if (canceled || !filePath) return { success: false }
+      await exportEvents(filePath, events, request.format)
+      return { success: true, path: filePath, count: events.length }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
+  ipcMain.handle('store:import', async () => {
     try {
-      const { stdout: jobsOutput } = await execAsync('clawdbot cron list --json', { timeout: 10000 })
-      const jobsParsed = JSON.parse(jobsOutput)
-      const jobs = Array.isArray(jobsParsed) ? jobsParsed : (jobsParsed.jobs || [])
-
-      // Fetch runs in parallel (limit to 3 jobs)
-      const runPromises = jobs.slice(0, 3).map(async (job: { id: string }) => {
-        try {
-          const { stdout } = await execAsync(
-            `clawdbot cron runs --id "${job.id}" --limit 3`,
-            { timeout: 5000 }
-          )
-          if (!stdout.trim()) return []
-          return stdout.trim().split('\n').map((line) => {
-            try {
-              return { ...JSON.parse(line), jobId: job.id }
-            } catch {
-              return null
-            }
-          }).filter(Boolean)
-        } catch {
-          return []
-        }
+      const { canceled, filePaths } = await dialog.showOpenDialog({
+        title: 'Import events',
+        properties: ['openFile'],
+        filters: [
+          { name: 'Exported events', extensions: EVENT_FILE_FILTERS.flatMap((f) => f.extensions) },
+          ...EVENT_FILE_FILTERS
+        ]
       })
+      if (canceled || filePaths.length === 0) return { success: false }
+      imported = await importEvents(filePaths[0])
+      return { success: true, name: imported.name, count: imported.events.length }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-      const runResults = await Promise.all(runPromises)
-      const allRuns = runResults.flat()
-      const result = { success: true, runs: allRuns }
-      setCache('cron:runs', result)
-      return result
+  ipcMain.handle('store:queryImported', (_, query: EventQuery = {}) => {
+    if (!imported) throw new Error('No imported file is open')
+    return queryImported(imported, query)
+  })
+
+  ipcMain.handle('store:closeImport', () => {
+    imported = null
+    return { success: true }
+  })
+
+  ipcMain.handle('gateway:diagnostics', () => diagnostics)
+
+  // Agent run traces
+  ipcMain.handle('runs:list', (_, gatewayId: string = 'all') => runs.list(gatewayId))
+
+  ipcMain.handle('runs:get', (_, id: string) => runs.get(id) ?? null)
+
+  // Gateway connection profiles
+  ipcMain.handle('profiles:list', () => profiles.list())
+
+  ipcMain.handle('profiles:save', async (_, input: ProfileInput) => {
+    try {
+      const profile = await profiles.save(input)
+      syncGateways()
+      return { success: true, profile }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('profiles:delete', async (_, id: string) => {
+    try {
+      await profiles.remove(id)
+      syncGateways()
+      return { success: true }
     } catch (error: unknown) {
-      console.error('cron:runs error:', error)
-      return { success: false, error: (error as Error).message, runs: [] }
+      return { success: false, error: (error as Error).message }
     }
   })
 
-  // Skills handlers
-  const SKILLS_DIR = join(app.getPath('home'), 'clawd', 'skills')
-  const MEMORY_DIR = join(app.getPath('home'), 'clawd', 'memory')
+  ipcMain.handle('profiles:activate', async (_, id: string) => {
+    try {
+      await profiles.activate(id)
+      syncGateways()
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-  // List all skills (async with cache)
-  ipcMain.handle('skills:list', async () => {
-    const cached = getCached<{ success: boolean; skills: unknown[] }>('skills:list')
-    if (cached) return cached
+  // Device identity used to sign the gateway handshake
+  ipcMain.handle('device:identity', () => {
+    if (!deviceIdentity) return { success: false, error: 'Device identity unavailable' }
+    return { success: true, identity: describeIdentity(deviceIdentity) }
+  })
 
+  ipcMain.handle('device:rotate', async () => {
     try {
-      const entries = await readdir(SKILLS_DIR, { withFileTypes: true })
-      const skillDirs = entries.filter((e) => e.isDirectory()).map((e) => e.name)
-
-      const skillPromises = skillDirs.map(async (dir) => {
-        const skillPath = join(SKILLS_DIR, dir, 'SKILL.md')
-        if (!(await fileExists(skillPath))) return null
-
-        try {
-          const content = await readFile(skillPath, 'utf-8')
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-          let name = dir
-          let description = ''
-          let emoji = '🔧'
-
-          if (frontmatterMatch) {
-            const frontmatter = frontmatterMatch[1]
-            const nameMatch = frontmatter.match(/^name:\s*(.+)$/m)
-            const descMatch = frontmatter.match(/^description:\s*(.+)$/m)
-            const metaMatch = frontmatter.match(/metadata:\s*(\{.+\})/)
-            if (nameMatch) name = nameMatch[1]
-            if (descMatch) description = descMatch[1]
-            if (metaMatch) {
-              try {
-                const meta = JSON.parse(metaMatch[1])
-                if (meta.clawdbot?.emoji) emoji = meta.clawdbot.emoji
-              } catch {}
-            }
-          }
+      const current = deviceIdentity ?? (await loadOrCreateIdentity(app.getPath('userData')))
+      applyDeviceIdentity(await rotateIdentity(app.getPath('userData'), current))
+      return { success: true, identity: describeIdentity(deviceIdentity!) }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-          return { name, description, emoji, path: skillPath }
-        } catch {
-          return null
-        }
+  ipcMain.handle('device:reset', async () => {
+    try {
+      applyDeviceIdentity(await resetIdentity(app.getPath('userData')))
+      return { success: true, identity: describeIdentity(deviceIdentity!) }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // Session capture and replay
+  ipcMain.handle('session:record', async (_, gatewayId: string) => {
+    try {
+      const gateway = gateways.require(gatewayId)
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const slug = gateway.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+      const { canceled, filePath } = await dialog.showSaveDialog({
+        title: 'Record gateway session',
+        defaultPath: join(await sessionsDir(), `${slug}-${stamp}.ndjson`),
+        filters: SESSION_FILTERS
       })
+      if (canceled || !filePath) return { success: false }
+      await gateway.client.startRecording(filePath)
+      return { success: true, path: filePath }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-      const skills = (await Promise.all(skillPromises)).filter(Boolean)
-      const result = { success: true, skills }
-      setCache('skills:list', result)
-      return result
+  ipcMain.handle('session:stopRecording', async (_, gatewayId: string) => {
+    try {
+      const path = await gateways.require(gatewayId).client.stopRecording()
+      return { success: true, path }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('session:replay', async (_, speed: number = 1) => {
+    try {
+      const { canceled, filePaths } = await dialog.showOpenDialog({
+        title: 'Replay gateway session',
+        defaultPath: await sessionsDir(),
+        properties: ['openFile'],
+        filters: SESSION_FILTERS
+      })
+      if (canceled || filePaths.length === 0) return { success: false }
+      return { success: true, gatewayId: await startReplay(filePaths[0], speed) }
     } catch (error: unknown) {
-      return { success: false, error: (error as Error).message, skills: [] }
+      return { success: false, error: (error as Error).message }
     }
   })
 
-  // Get autonomous work status (async)
-  ipcMain.handle('skills:autonomousStatus', async () => {
+  ipcMain.handle('session:closeReplay', () => {
+    gateways.closeReplay()
+    return { success: true }
+  })
+
+  ipcMain.handle('session:reveal', (_, path: string) => {
+    shell.showItemInFolder(path)
+  })
+
+  // Send message to agent; output streams to `agent:output:<requestId>` as it arrives
+  ipcMain.handle('agent:send', async (e, request: AgentSendRequest) => {
+    const { agent, message, local = false, requestId, threadId } = request
     try {
-      const filePath = join(MEMORY_DIR, 'autonomous-work.json')
-      if (!(await fileExists(filePath))) {
-        return { success: true, sessions: [] }
+      assertName(agent, 'agent name')
+      const thread = threadId ? threads.get(threadId) : undefined
+      if (threadId && !thread) throw new Error(`Unknown thread: ${threadId}`)
+      if (thread && thread.agent !== agent) {
+        throw new Error(`Thread belongs to agent ${thread.agent}, not ${agent}`)
+      }
+      const sessionId = thread ? assertName(thread.sessionId, 'session id') : undefined
+      // Without a live connection that may send, the CLI is used; it reaches the gateway itself
+      const gateway = local ? undefined : gateways.get(profiles.activeId)
+      const client =
+        gateway?.client.isConnected() && gateway.client.hasScope(WRITE_SCOPE)
+          ? gateway.client
+          : undefined
+      if (thread) {
+        // Only a message that reaches the agent is kept in the thread
+        if (!client) await cli.resolveBinary()
+        await threads.append(thread.id, { role: 'user', text: String(message) })
+      }
+      const onOutput: AgentOutputSink = (stream, text) => {
+        if (requestId && !e.sender.isDestroyed()) {
+          e.sender.send(`agent:output:${requestId}`, { stream, text })
+        }
+      }
+      const reply = client
+        ? await sendAgentViaGateway(client, request, sessionId, onOutput)
+        : await sendAgentViaCli(request, sessionId, onOutput)
+      const success = !reply.error && !reply.stopped
+      // A run stopped by the user neither succeeded nor failed
+      if (!reply.stopped) {
+        metrics.record(success ? 'agent.sends' : 'agent.sendFailures', profiles.activeId)
+      }
+      if (thread) {
+        await threads.append(thread.id, {
+          role: 'agent',
+          text: reply.output,
+          error: reply.error,
+          exitCode: reply.exitCode,
+          durationMs: reply.durationMs,
+          stopped: reply.stopped,
+          transport: reply.transport
+        })
       }
-      const content = await readFile(filePath, 'utf-8')
-      const data = JSON.parse(content)
-      return { success: true, sessions: Array.isArray(data.sessions) ? data.sessions : [] }
+      return { success, ...reply }
     } catch (error: unknown) {
-      return { success: false, error: (error as Error).message, sessions: [] }
+      metrics.record('agent.sendFailures', profiles.activeId)
+      return { success: false, error: (error as Error).message }
     }
   })
 
-  // Get notes sync status (async)
-  ipcMain.handle('skills:notesSyncStatus', async () => {
+  ipcMain.handle('agent:stop', (_, requestId: string) => {
+    const running = agentRuns.get(requestId)
+    running?.kill()
+    return { success: Boolean(running) }
+  })
+
+  // Conversation threads of the send tab
+  ipcMain.handle('threads:list', (_, agent?: string) => threads.list(agent))
+
+  ipcMain.handle('threads:get', (_, id: string) => threads.get(id) ?? null)
+
+  ipcMain.handle('threads:search', (_, query: string) => threads.search(query))
+
+  ipcMain.handle('threads:create', async (_, agent: string) => {
     try {
-      const syncDir = join(MEMORY_DIR, 'notes-sync')
-      const indexPath = join(syncDir, 'index.json')
-      const todosPath = join(syncDir, 'todos.json')
+      const thread = await threads.create(assertName(agent, 'agent name'))
+      return { success: true, thread }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-      const status: { lastSync?: string; noteCount?: number; todoCount?: number } = {}
+  ipcMain.handle('threads:rename', async (_, id: string, title: string) => {
+    try {
+      const thread = await threads.rename(id, title)
+      return { success: true, thread }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-      if (await fileExists(indexPath)) {
-        const index = JSON.parse(await readFile(indexPath, 'utf-8'))
-        status.lastSync = index.lastSync
-        status.noteCount = Array.isArray(index.notes) ? index.notes.length : 0
-      }
+  ipcMain.handle('threads:delete', async (_, id: string) => {
+    try {
+      await threads.remove(id)
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-      if (await fileExists(todosPath)) {
-        const todos = JSON.parse(await readFile(todosPath, 'utf-8'))
-        status.todoCount = Array.isArray(todos.items)
-          ? todos.items.filter((t: { checked?: boolean }) => !t.checked).length
-          : 0
-      }
+  ipcMain.handle('threads:markdown', (_, id: string) => {
+    try {
+      return { success: true, markdown: threads.toMarkdown(id) }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('metrics:query', (_, query: MetricsQuery) => metrics.query(query))
+
+  ipcMain.handle('alerts:rules', () => alerts.rules())
+
+  ipcMain.handle('alerts:save', async (_, input: AlertRuleInput) => {
+    try {
+      const rule = await alerts.save(input)
+      return { success: true, rule }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('alerts:delete', async (_, id: string) => {
+    try {
+      await alerts.remove(id)
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('alerts:history', () => alerts.history())
+
+  ipcMain.handle('alerts:clearHistory', async () => {
+    try {
+      await alerts.clearHistory()
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('sinks:list', () => sinks.list())
+
+  ipcMain.handle('sinks:save', async (_, input: SinkInput) => {
+    try {
+      const sink = await sinks.save(input)
+      return { success: true, sink }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
 
-      return { success: true, status }
+  ipcMain.handle('sinks:delete', async (_, id: string) => {
+    try {
+      await sinks.remove(id)
+      return { success: true }
     } catch (error: unknown) {
-      return { success: false, error: (error as Error).message, status: {} }
+      return { success: false, error: (error as Error).message }
     }
   })
 
+  ipcMain.handle('sinks:test', (_, id: string) => {
+    try {
+      sinks.test(id)
+      return { success: true }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('sinks:deliveries', (_, sinkId?: string) => sinks.deliveries(sinkId))
+
+  ipcMain.handle('localApi:info', () => localApi.info())
+
+  ipcMain.handle('localApi:configure', async (_, settings: { enabled: boolean; port: number }) => {
+    try {
+      const info = await localApi.configure(settings)
+      return { success: true, info }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message, info: localApi.info() }
+    }
+  })
+
+  ipcMain.handle('localApi:regenerateToken', async () => {
+    try {
+      const info = await localApi.regenerateToken()
+      return { success: true, info }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('cli:info', () => cli.info())
+
+  ipcMain.handle('cli:setBinary', async (_, binary: string) => {
+    try {
+      const info = await cli.setBinary(binary)
+      cache.clear()
+      return { success: true, info }
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('prometheus:info', () => prometheus.info())
+
+  ipcMain.handle(
+    'prometheus:configure',
+    async (_, settings: { enabled: boolean; port: number }) => {
+      try {
+        const info = await prometheus.configure(settings)
+        if (info.running) pollCronJobs()
+        return { success: true, info }
+      } catch (error: unknown) {
+        return { success: false, error: (error as Error).message, info: prometheus.info() }
+      }
+    }
+  )
+
+  // Get cron jobs status (async with cache)
+  ipcMain.handle('cron:status', (_, gatewayId: string) => cronStatus(gatewayId))
+
+  // Get cron run history (async, parallel, with cache)
+  ipcMain.handle('cron:runs', (_, gatewayId: string) => cronRuns(gatewayId))
+
+  // List all skills (async with cache)
+  ipcMain.handle('skills:list', (_, gatewayId: string) => listSkills(gatewayId))
+
+  // Get autonomous work status (async)
+  ipcMain.handle('skills:autonomousStatus', (_, gatewayId: string) => autonomousStatus(gatewayId))
+
+  // Get notes sync status (async)
+  ipcMain.handle('skills:notesSyncStatus', (_, gatewayId: string) => notesSyncStatus(gatewayId))
+
   // Run a skill (fire and forget, non-blocking)
-  ipcMain.handle('skills:run', async (_, skillName: string) => {
+  ipcMain.handle('skills:run', async (_, gatewayId: string, skillName: string) => {
     try {
+      if (!gateways.require(gatewayId).localCli) {
+        return { success: false, error: LOCAL_ONLY_ERROR }
+      }
+      assertName(skillName, 'skill name')
       // Fire and forget - don't wait for completion
-      exec(`clawdbot skill run ${skillName}`, (error, stdout) => {
-        if (error) {
-          console.log(`Skill ${skillName} error:`, error.message)
-        } else {
-          console.log(`Skill ${skillName} output:`, stdout)
-        }
-      })
+      cli
+        .run(['skill', 'run', skillName], { timeoutMs: SKILL_RUN_TIMEOUT })
+        .then((result) => {
+          prometheus.recordSkillRun(gatewayId, skillName, result.exitCode === 0)
+          if (result.exitCode === 0) {
+            console.log(`Skill ${skillName} output:`, result.stdout)
+          } else {
+            console.log(`Skill ${skillName} error:`, describeFailure(result))
+          }
+        })
+        .catch((error: unknown) => {
+          prometheus.recordSkillRun(gatewayId, skillName, false)
+          console.log(`Skill ${skillName} error:`, (error as Error).message)
+        })
       return { success: true }
     } catch (error: unknown) {
       return { success: false, error: (error as Error).message }
@@ -319,6 +1255,37 @@ app.whenReady().then(() => {
   })
 })
 
+async function shutdown(): Promise<void> {
+  eventBatcher.dispose()
+  runs.dispose()
+  alerts?.dispose()
+  sinks?.dispose()
+  localApi?.dispose()
+  prometheus?.dispose()
+  cli?.killAll()
+  await Promise.all([
+    gateways.disconnectAll(),
+    eventStore?.close(),
+    metrics?.save().catch((error: unknown) => {
+      console.error('Failed to save metrics:', (error as Error).message)
+    })
+  ])
+}
+
+// Quitting is held until gateways disconnect and the open event segment is flushed
+let shutDown = false
+app.on('before-quit', (event) => {
+  if (shutDown) return
+  event.preventDefault()
+  shutDown = true
+  const timeout = new Promise((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT))
+  Promise.race([shutdown(), timeout])
+    .catch((error: unknown) => {
+      console.error('Failed to shut down cleanly:', (error as Error).message)
+    })
+    .finally(() => app.quit())
+})
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit()
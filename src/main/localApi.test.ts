@@ -0,0 +1,85 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { LocalApi } from './localApi'
+
+const TOKEN = 'test-token'
+
+describe('LocalApi', () => {
+  let dir: string
+  let api: LocalApi
+  let base: string
+
+  function get(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${base}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${TOKEN}`, ...init.headers }
+    })
+  }
+
+  // Port 0 is only reachable through the settings file; it lets the OS pick a free port
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'clawd-local-api-'))
+    await writeFile(
+      join(dir, 'local-api.json'),
+      JSON.stringify({ enabled: true, port: 0, token: TOKEN })
+    )
+    api = new LocalApi(dir, {
+      '/gateways/:id': (params) => (params.id === 'main' ? { id: 'main' } : undefined)
+    })
+    await api.load()
+    base = api.info().url!
+  })
+
+  afterEach(async () => {
+    api.dispose()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('authentication', () => {
+    it.each([
+      ['missing', {}],
+      ['wrong', { Authorization: 'Bearer nope' }]
+    ])('rejects a %s token', async (_, headers) => {
+      const response = await fetch(`${base}/gateways/main`, { headers })
+
+      expect(response.status).toBe(401)
+      expect(response.headers.get('www-authenticate')).toBe('Bearer')
+      expect(await response.json()).toEqual({ error: 'Missing or invalid token' })
+    })
+
+    it('answers a request with the right token', async () => {
+      const response = await get('/gateways/main')
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ id: 'main' })
+    })
+
+    it('accepts the token as a query parameter', async () => {
+      const response = await fetch(`${base}/gateways/main?token=${TOKEN}`)
+      expect(response.status).toBe(200)
+    })
+  })
+
+  it('allows only GET', async () => {
+    const response = await get('/gateways/main', { method: 'POST' })
+
+    expect(response.status).toBe(405)
+    expect(response.headers.get('allow')).toBe('GET')
+  })
+
+  it('answers 404 for handlers that find nothing', async () => {
+    expect((await get('/gateways/other')).status).toBe(404)
+  })
+
+  it('refuses an event stream with an invalid filter', async () => {
+    const response = await get(`/events/stream?filter=${encodeURIComponent('"open')}`)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({
+      error: 'Invalid filter: Unterminated quote in filter'
+    })
+    expect(api.info().streams).toBe(0)
+  })
+})
@@ -0,0 +1,349 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { readFile, writeFile } from 'fs/promises'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { join } from 'path'
+import type { StoredEvent } from './eventStore'
+import type { EventQuery } from './eventQuery'
+import { parseFilter, type EventPredicate } from './eventFilter'
+
+const LOCAL_API_FILE = 'local-api.json'
+export const LOCAL_API_PORT = 18791
+const HOST = '127.0.0.1'
+const PREFIX = '/api'
+// Comment lines keep idle streams from being closed by proxies and client timeouts
+const KEEPALIVE_INTERVAL = 15 * 1000
+// A stream whose reader falls this far behind is closed instead of buffered further
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024
+
+export interface LocalApiSettings {
+  enabled: boolean
+  port: number
+  token: string
+}
+
+export interface LocalApiInfo extends LocalApiSettings {
+  running: boolean
+  /** Base URL of the REST endpoints, while running. */
+  url?: string
+  /** Why the server is not running although enabled. */
+  error?: string
+  /** Open event streams. */
+  streams: number
+}
+
+/**
+ * Answers one GET request. `params` holds the `:name` segments of the route,
+ * `query` the URL search parameters. The return value is sent as JSON;
+ * `undefined` becomes a 404.
+ */
+export type LocalApiHandler = (
+  params: Record<string, string>,
+  query: URLSearchParams
+) => unknown | Promise<unknown>
+
+interface Route {
+  segments: string[]
+  handler: LocalApiHandler
+}
+
+interface Stream {
+  res: ServerResponse
+  matches: EventPredicate
+}
+
+/** Raised by handlers for malformed query parameters; answered with a 400. */
+export class LocalApiError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LocalApiError'
+  }
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+// Hashing first gives both sides the same length, which timingSafeEqual requires
+function tokenMatches(candidate: string, token: string): boolean {
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(candidate), digest(token))
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store'
+  })
+  res.end(JSON.stringify(body))
+}
+
+function compileRoutes(routes: Record<string, LocalApiHandler>): Route[] {
+  return Object.entries(routes).map(([path, handler]) => ({
+    segments: path.split('/').filter(Boolean),
+    handler
+  }))
+}
+
+function matchRoute(
+  routes: Route[],
+  path: string
+): { route: Route; params: Record<string, string> } | null {
+  const segments = path.split('/').filter(Boolean)
+  for (const route of routes) {
+    if (route.segments.length !== segments.length) continue
+    const params: Record<string, string> = {}
+    const matched = route.segments.every((segment, i) => {
+      if (segment.startsWith(':')) {
+        try {
+          params[segment.slice(1)] = decodeURIComponent(segments[i])
+        } catch {
+          throw new LocalApiError(`Malformed path segment: ${segments[i]}`)
+        }
+        return true
+      }
+      return segment === segments[i]
+    })
+    if (matched) return { route, params }
+  }
+  return null
+}
+
+const NUMERIC_QUERY_FIELDS = ['from', 'to', 'seqFrom', 'seqTo', 'cursor', 'limit'] as const
+
+/**
+ * Reads an EventQuery from URL parameters. `types` may be repeated or
+ * comma-separated; numeric fields must be integers.
+ */
+export function eventQueryFromParams(params: URLSearchParams): EventQuery {
+  const query: EventQuery = {}
+  const gatewayId = params.get('gatewayId')
+  if (gatewayId) query.gatewayId = gatewayId
+  const types = params
+    .getAll('types')
+    .flatMap((value) => value.split(','))
+    .filter(Boolean)
+  if (types.length > 0) query.types = types
+  const category = params.get('category')
+  if (category) query.category = category
+  const text = params.get('text')
+  if (text) query.text = text
+  for (const field of NUMERIC_QUERY_FIELDS) {
+    const value = params.get(field)
+    if (value === null || value === '') continue
+    const number = Number(value)
+    if (!Number.isInteger(number)) throw new LocalApiError(`${field} must be an integer`)
+    query[field] = number
+  }
+  return query
+}
+
+/**
+ * Opt-in HTTP server on the loopback interface that exposes the monitor's
+ * data to editor plugins and scripts. Every request needs the generated
+ * token as `Authorization: Bearer <token>`; EventSource clients, which
+ * cannot set headers, may pass it as `?token=` instead.
+ *
+ * GET routes under /api come from the table given to the constructor.
+ * /api/events/stream is a Server-Sent Events stream of live gateway events,
+ * optionally narrowed with `?filter=` (see parseFilter).
+ */
+export class LocalApi {
+  private path: string
+  private routes: Route[]
+  private settings: LocalApiSettings = { enabled: false, port: LOCAL_API_PORT, token: '' }
+  private server: Server | null = null
+  private error: string | undefined
+  private streams = new Set<Stream>()
+  private keepalive: ReturnType<typeof setInterval> | null = null
+
+  constructor(dir: string, routes: Record<string, LocalApiHandler>) {
+    this.path = join(dir, LOCAL_API_FILE)
+    this.routes = compileRoutes(routes)
+  }
+
+  /** Reads the saved settings and starts the server if it was enabled. */
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8')) as Partial<LocalApiSettings>
+      this.settings = {
+        enabled: parsed.enabled === true,
+        port: Number.isInteger(parsed.port) ? parsed.port! : LOCAL_API_PORT,
+        token: parsed.token || ''
+      }
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read local API settings:', (error as Error).message)
+      }
+    }
+    if (!this.settings.token) {
+      this.settings.token = generateToken()
+      await this.persist()
+    }
+    if (this.settings.enabled) {
+      await this.start().catch((error: unknown) => {
+        console.error('Failed to start local API:', (error as Error).message)
+      })
+    }
+  }
+
+  info(): LocalApiInfo {
+    const address = this.server?.address() as AddressInfo | null | undefined
+    return {
+      ...this.settings,
+      running: Boolean(address),
+      url: address ? `http://${HOST}:${address.port}${PREFIX}` : undefined,
+      error: this.error,
+      streams: this.streams.size
+    }
+  }
+
+  /** Applies new settings, restarting the server when the port changes. */
+  async configure(settings: { enabled: boolean; port: number }): Promise<LocalApiInfo> {
+    const port = Number(settings.port)
+    if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+      throw new Error('Port must be a whole number between 1024 and 65535')
+    }
+    const restart = port !== this.settings.port
+    this.settings = { ...this.settings, enabled: settings.enabled, port }
+    await this.persist()
+    if (!settings.enabled || restart) await this.stop()
+    if (settings.enabled) await this.start()
+    return this.info()
+  }
+
+  /** Replaces the token; open streams authenticated with the old one are closed. */
+  async regenerateToken(): Promise<LocalApiInfo> {
+    this.settings.token = generateToken()
+    await this.persist()
+    this.closeStreams()
+    return this.info()
+  }
+
+  /** Sends a live event to every stream whose filter it passes. */
+  publish(event: StoredEvent): void {
+    if (this.streams.size === 0) return
+    const frame = `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`
+    for (const stream of this.streams) {
+      if (!stream.matches(event)) continue
+      stream.res.write(frame)
+      if (stream.res.writableLength > MAX_BUFFERED_BYTES) stream.res.end()
+    }
+  }
+
+  dispose(): void {
+    this.stop().catch(() => undefined)
+  }
+
+  private start(): Promise<void> {
+    if (this.server) return Promise.resolve()
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handle(req, res).catch((error: unknown) => {
+          console.error('Local API request failed:', (error as Error).message)
+          if (!res.headersSent) sendJson(res, 500, { error: (error as Error).message })
+          else res.end()
+        })
+      })
+      server.once('error', (error: Error) => {
+        this.error = error.message
+        reject(error)
+      })
+      server.listen(this.settings.port, HOST, () => {
+        server.removeAllListeners('error')
+        server.on('error', (error: Error) => {
+          console.error('Local API server error:', error.message)
+        })
+        this.server = server
+        this.error = undefined
+        this.keepalive = setInterval(() => {
+          for (const stream of this.streams) stream.res.write(': keepalive\n\n')
+        }, KEEPALIVE_INTERVAL)
+        resolve()
+      })
+    })
+  }
+
+  private stop(): Promise<void> {
+    const server = this.server
+    this.error = undefined
+    if (!server) return Promise.resolve()
+    this.server = null
+    if (this.keepalive) clearInterval(this.keepalive)
+    this.keepalive = null
+    this.closeStreams()
+    return new Promise((resolve) => {
+      server.close(() => resolve())
+      server.closeAllConnections()
+    })
+  }
+
+  private closeStreams(): void {
+    for (const stream of this.streams) stream.res.end()
+    this.streams.clear()
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${HOST}`)
+    const header = req.headers.authorization ?? ''
+    const candidate = header.startsWith('Bearer ')
+      ? header.slice('Bearer '.length).trim()
+      : (url.searchParams.get('token') ?? '')
+    if (!candidate || !tokenMatches(candidate, this.settings.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer')
+      sendJson(res, 401, { error: 'Missing or invalid token' })
+      return
+    }
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET')
+      sendJson(res, 405, { error: `Method ${req.method} not allowed` })
+      return
+    }
+    if (!url.pathname.startsWith(`${PREFIX}/`)) {
+      sendJson(res, 404, { error: `No route for ${url.pathname}` })
+      return
+    }
+
+    const path = url.pathname.slice(PREFIX.length)
+    if (path === '/events/stream') {
+      this.openStream(req, res, url.searchParams)
+      return
+    }
+    try {
+      const matched = matchRoute(this.routes, path)
+      if (!matched) {
+        sendJson(res, 404, { error: `No route for ${url.pathname}` })
+        return
+      }
+      const body = await matched.route.handler(matched.params, url.searchParams)
+      if (body === undefined) sendJson(res, 404, { error: `Not found: ${url.pathname}` })
+      else sendJson(res, 200, body)
+    } catch (error: unknown) {
+      if (!(error instanceof LocalApiError)) throw error
+      sendJson(res, 400, { error: error.message })
+    }
+  }
+
+  private openStream(req: IncomingMessage, res: ServerResponse, query: URLSearchParams): void {
+    let matches: EventPredicate
+    try {
+      matches = parseFilter(query.get('filter') ?? '')
+    } catch (error: unknown) {
+      sendJson(res, 400, { error: `Invalid filter: ${(error as Error).message}` })
+      return
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive'
+    })
+    res.write(': connected\n\n')
+    const stream = { res, matches }
+    this.streams.add(stream)
+    req.on('close', () => this.streams.delete(stream))
+  }
+
+  private async persist(): Promise<void> {
+    await writeFile(this.path, JSON.stringify(this.settings, null, 2), { mode: 0o600 })
+  }
+}
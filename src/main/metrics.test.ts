@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { MetricsStore, type MetricsQuery } from './metrics'
+
+const HOUR_MS = 60 * 60 * 1000
+const NOW = Date.UTC(2026, 0, 15, 12, 30)
+
+function query(buckets: number): MetricsQuery {
+  return { series: ['events'], resolution: 'hour', buckets }
+}
+
+describe('MetricsStore.query', () => {
+  const store = new MetricsStore('/nonexistent')
+  store.record('events', 'main', NOW - HOUR_MS)
+  store.record('events', 'main', NOW)
+
+  it('returns one count per bucket, ending with the current one', () => {
+    const result = store.query(query(3), NOW)
+
+    expect(result.series.events).toEqual([0, 1, 1])
+    expect(result.start).toBe(Date.UTC(2026, 0, 15, 10))
+  })
+
+  it.each([
+    ['a fraction', 2.7, 2],
+    ['zero', 0, 1],
+    ['a negative count', -5, 1],
+    ['more than is retained', 1e9, 30 * 24],
+    ['NaN', NaN, 60],
+    ['Infinity', Infinity, 60]
+  ])('clamps %s to a usable number of buckets', (_, buckets, expected) => {
+    expect(store.query(query(buckets), NOW).series.events).toHaveLength(expected)
+  })
+
+  it('defaults buckets that are not numbers', () => {
+    const result = store.query({ ...query(0), buckets: '5' as unknown as number }, NOW)
+    expect(result.series.events).toHaveLength(60)
+  })
+})
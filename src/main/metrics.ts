@@ -0,0 +1,176 @@
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { StoredEvent } from './eventStore'
+import { FAILED_STATUSES } from '../shared/statuses'
+
+const METRICS_FILE = 'metrics.json'
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+// Used when a query asks for no usable number of buckets
+const DEFAULT_BUCKETS = 60
+
+export const METRIC_SERIES = [
+  'events',
+  'agent.sends',
+  'agent.sendFailures',
+  'cron.completed',
+  'cron.failed',
+  'briefings'
+] as const
+export type MetricSeries = (typeof METRIC_SERIES)[number]
+
+export type MetricResolution = 'minute' | 'hour'
+
+const RESOLUTIONS: Record<MetricResolution, { step: number; keep: number }> = {
+  minute: { step: MINUTE_MS, keep: 24 * HOUR_MS },
+  hour: { step: HOUR_MS, keep: 30 * 24 * HOUR_MS }
+}
+
+export interface MetricsQuery {
+  series: MetricSeries[]
+  resolution: MetricResolution
+  /** Number of buckets, ending with the current one. */
+  buckets: number
+  /** Gateway id, or `all` (the default) to sum every gateway. */
+  gatewayId?: string
+}
+
+/** Dense counts per series; bucket `i` starts at `start + i * step`. */
+export interface MetricsResult {
+  resolution: MetricResolution
+  start: number
+  step: number
+  series: Partial<Record<MetricSeries, number[]>>
+}
+
+/** Counts by bucket start, per gateway, per series. */
+type Buckets = Partial<Record<MetricSeries, Record<string, Record<number, number>>>>
+
+interface MetricsFile {
+  minute: Buckets
+  hour: Buckets
+}
+
+const CRON_DONE_ACTIONS = ['finished', 'completed', 'done', 'failed', 'error']
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+/** Whether a cron event reports a finished run, and how it went. */
+export function cronOutcome(event: StoredEvent): 'completed' | 'failed' | null {
+  const type = event.type.toLowerCase()
+  if (!type.startsWith('cron')) return null
+  const payload = (event.payload ?? {}) as Record<string, unknown>
+  const action = type.split('.')[1] ?? str(payload.action)?.toLowerCase()
+  const status = str(payload.status)?.toLowerCase()
+  if (!action || !CRON_DONE_ACTIONS.includes(action)) return null
+  const failed =
+    action === 'failed' ||
+    action === 'error' ||
+    FAILED_STATUSES.includes(status ?? '') ||
+    payload.error !== undefined
+  return failed ? 'failed' : 'completed'
+}
+
+// Which series an event counts towards besides `events`
+function classify(event: StoredEvent): MetricSeries[] {
+  const type = event.type.toLowerCase()
+  const series: MetricSeries[] = []
+
+  if (type.includes('briefing') || type.includes('morning')) series.push('briefings')
+
+  const outcome = cronOutcome(event)
+  if (outcome) series.push(outcome === 'failed' ? 'cron.failed' : 'cron.completed')
+  return series
+}
+
+/**
+ * Event and activity counts in per-minute (24 hours) and per-hour (30 days)
+ * buckets, persisted to userData so the dashboard has history across restarts.
+ */
+export class MetricsStore {
+  private path: string
+  private data: MetricsFile = { minute: {}, hour: {} }
+  private dirty = false
+
+  constructor(dir: string) {
+    this.path = join(dir, METRICS_FILE)
+  }
+
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8')) as MetricsFile
+      this.data = { minute: parsed.minute ?? {}, hour: parsed.hour ?? {} }
+      this.prune()
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read metrics:', (error as Error).message)
+      }
+    }
+  }
+
+  record(series: MetricSeries, gatewayId: string, at = Date.now(), count = 1): void {
+    for (const resolution of Object.keys(RESOLUTIONS) as MetricResolution[]) {
+      const { step } = RESOLUTIONS[resolution]
+      const bucket = Math.floor(at / step) * step
+      const byGateway = (this.data[resolution][series] ??= {})
+      const counts = (byGateway[gatewayId] ??= {})
+      counts[bucket] = (counts[bucket] ?? 0) + count
+    }
+    this.dirty = true
+  }
+
+  /** Counts a gateway event and whatever it signals (cron outcomes, briefings). */
+  recordEvent(event: StoredEvent): void {
+    if (event.synthetic) return
+    this.record('events', event.gatewayId, event.timestamp)
+    for (const series of classify(event)) {
+      this.record(series, event.gatewayId, event.timestamp)
+    }
+  }
+
+  query(query: MetricsQuery, now = Date.now()): MetricsResult {
+    const { step, keep } = RESOLUTIONS[query.resolution]
+    // Queries arrive over IPC, so the count is clamped to whole buckets within retention
+    const requested = Number.isFinite(query.buckets) ? Math.floor(query.buckets) : DEFAULT_BUCKETS
+    const buckets = Math.max(1, Math.min(requested, keep / step))
+    const start = Math.floor(now / step) * step - (buckets - 1) * step
+    const gatewayId = query.gatewayId ?? 'all'
+
+    const series: MetricsResult['series'] = {}
+    for (const name of query.series) {
+      const values = new Array<number>(buckets).fill(0)
+      const byGateway = this.data[query.resolution][name] ?? {}
+      for (const [id, counts] of Object.entries(byGateway)) {
+        if (gatewayId !== 'all' && id !== gatewayId) continue
+        for (const [bucket, count] of Object.entries(counts)) {
+          const index = (Number(bucket) - start) / step
+          if (index >= 0 && index < buckets) values[index] += count
+        }
+      }
+      series[name] = values
+    }
+    return { resolution: query.resolution, start, step, series }
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) return
+    this.prune()
+    this.dirty = false
+    await writeFile(this.path, JSON.stringify(this.data))
+  }
+
+  private prune(now = Date.now()): void {
+    for (const resolution of Object.keys(RESOLUTIONS) as MetricResolution[]) {
+      const cutoff = now - RESOLUTIONS[resolution].keep
+      for (const byGateway of Object.values(this.data[resolution])) {
+        for (const counts of Object.values(byGateway)) {
+          for (const bucket of Object.keys(counts)) {
+            if (Number(bucket) < cutoff) delete counts[Number(bucket)]
+          }
+        }
+      }
+    }
+  }
+}
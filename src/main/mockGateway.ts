@@ -0,0 +1,419 @@
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import { AddressInfo } from 'net'
+import { WebSocket, WebSocketServer } from 'ws'
+import { PROTOCOL_MAX, parseFrame, type ErrorShape, type RequestFrame } from './protocol'
+
+/**
+ * A local stand-in for the Clawdbot gateway. It speaks the same
+ * challenge / connect / res / event protocol as the real one, answers RPCs
+ * from fixtures and can be told to misbehave, so GatewayClient and the
+ * renderer can be exercised without a gateway on port 18789.
+ *
+ * Started by the app when CLAWD_MOCK_GATEWAY is set in development; point a
+ * connection profile at the URL it logs.
+ */
+
+export const MOCK_GATEWAY_PORT = 18790
+
+/** Answers one RPC. Throw a MockRpcError to send an `ok: false` response. */
+export type MockRpcHandler = (params: unknown, request: RequestFrame) => unknown | Promise<unknown>
+
+export class MockRpcError extends Error {
+  code: string
+  details?: unknown
+
+  constructor(code: string, message: string, details?: unknown) {
+    super(message)
+    this.name = 'MockRpcError'
+    this.code = code
+    this.details = details
+  }
+}
+
+/** One event in a scripted sequence, sent after `delayMs` (default 0). */
+export interface MockStep {
+  event: string
+  payload?: unknown
+  delayMs?: number
+}
+
+export interface MockGatewayOptions {
+  /** 0 picks a free port. */
+  port?: number
+  host?: string
+  /** Protocol version reported in hello. */
+  protocol?: number
+  /** When set, connect requests must carry this token. */
+  token?: string
+  /** RPC fixtures by method name; plain values are returned as-is. */
+  fixtures?: Record<string, unknown>
+  /** Delay before every response, in ms. */
+  latencyMs?: number
+}
+
+interface HandshakeFailure {
+  code: string
+  message: string
+}
+
+// Fixture timestamps are relative to when the module loaded
+const now = Date.now()
+
+/** Fixtures shaped like the real gateway's replies. */
+export const DEFAULT_FIXTURES: Record<string, unknown> = {
+  status: { ok: true, uptimeMs: 3_600_000, agents: ['main'] },
+  'cron.list': {
+    jobs: [
+      {
+        id: 'morning-briefing',
+        name: 'Morning briefing',
+        enabled: true,
+        schedule: { kind: 'cron', expr: '0 7 * * *', tz: 'Europe/London' },
+        agentId: 'main',
+        state: { nextRunAtMs: now + 6 * 3_600_000, lastRunAtMs: now - 18 * 3_600_000 }
+      },
+      {
+        id: 'notes-sync',
+        name: 'Notes sync',
+        enabled: true,
+        schedule: { kind: 'every', everyMs: 900_000 },
+        agentId: 'main',
+        state: { nextRunAtMs: now + 600_000, lastRunAtMs: now - 300_000, status: 'completed' }
+      }
+    ]
+  },
+  'cron.runs': (params: unknown) => {
+    const { id = 'morning-briefing' } = (params ?? {}) as { id?: string }
+    return {
+      runs: [
+        {
+          id: `${id}-run-1`,
+          jobId: id,
+          startedAt: now - 300_000,
+          completedAt: now - 290_000,
+          status: 'completed',
+          output: 'Finished without errors'
+        }
+      ]
+    }
+  },
+  'chat.abort': { ok: true, aborted: true },
+  'skills.status': {
+    skills: [
+      { name: 'morning-briefing', description: 'Daily summary of calendar and news', emoji: '🌅' },
+      { name: 'notes-sync', description: 'Sync notes to the vault', emoji: '📝' }
+    ]
+  }
+}
+
+/** Canned event sequences resembling real gateway traffic. */
+export const SCENARIOS: Record<string, MockStep[]> = {
+  'cron-run': [
+    { event: 'cron.started', payload: { jobId: 'notes-sync', runId: 'mock-run' } },
+    {
+      event: 'cron.finished',
+      payload: { jobId: 'notes-sync', runId: 'mock-run', status: 'completed' },
+      delayMs: 1500
+    }
+  ],
+  'agent-output': [
+    { event: 'agent.started', payload: { agent: 'main', runId: 'mock-agent' } },
+    { event: 'agent.output', payload: { runId: 'mock-agent', text: 'Checking calendar…' } },
+    {
+      event: 'agent.output',
+      payload: { runId: 'mock-agent', text: 'Three meetings today.' },
+      delayMs: 800
+    },
+    { event: 'agent.finished', payload: { runId: 'mock-agent', status: 'completed' }, delayMs: 400 }
+  ],
+  'morning-briefing': [
+    { event: 'cron.started', payload: { jobId: 'morning-briefing', runId: 'mock-briefing' } },
+    {
+      event: 'morning.briefing',
+      payload: {
+        date: new Date(now).toISOString().slice(0, 10),
+        summary: 'Clear skies, 3 meetings'
+      },
+      delayMs: 1000
+    },
+    {
+      event: 'cron.finished',
+      payload: { jobId: 'morning-briefing', runId: 'mock-briefing', status: 'completed' },
+      delayMs: 200
+    }
+  ]
+}
+
+/** Creates a mock gateway and starts it listening, for scripts and tests. */
+export async function startMockGateway(options: MockGatewayOptions = {}): Promise<MockGateway> {
+  const mock = new MockGateway(options)
+  await mock.start()
+  return mock
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Emits `request` for every RPC received and `connection` / `handshake`
+ * as clients arrive, which scripts can await to sequence their steps.
+ */
+export class MockGateway extends EventEmitter {
+  private server: WebSocketServer | null = null
+  private clients = new Set<WebSocket>()
+  private handshaken = new Set<WebSocket>()
+  private fixtures = new Map<string, unknown>()
+  private handshakeFailures: HandshakeFailure[] = []
+  private seq = 0
+  private silent = false
+  private stateVersion = 0
+  private options: Required<Omit<MockGatewayOptions, 'token' | 'fixtures'>> &
+    Pick<MockGatewayOptions, 'token'>
+
+  /** Every RPC received, in order, for assertions. */
+  readonly requests: RequestFrame[] = []
+
+  constructor(options: MockGatewayOptions = {}) {
+    super()
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+      protocol: options.protocol ?? PROTOCOL_MAX,
+      latencyMs: options.latencyMs ?? 0,
+      token: options.token
+    }
+    this.fixtures.set('agent', (params: unknown) => this.echoAgent(params))
+    for (const [method, fixture] of Object.entries({ ...DEFAULT_FIXTURES, ...options.fixtures })) {
+      this.fixtures.set(method, fixture)
+    }
+  }
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | undefined
+    if (!address) throw new Error('Mock gateway is not running')
+    return `ws://${this.options.host}:${address.port}`
+  }
+
+  /** Starts listening and resolves with the ws:// URL to connect to. */
+  start(): Promise<string> {
+    if (this.server) return Promise.resolve(this.url)
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        port: this.options.port,
+        host: this.options.host,
+        autoPong: false
+      })
+      server.once('error', reject)
+      server.once('listening', () => {
+        server.off('error', reject)
+        this.server = server
+        resolve(this.url)
+      })
+      server.on('connection', (ws) => this.accept(ws))
+    })
+  }
+
+  stop(): Promise<void> {
+    const server = this.server
+    if (!server) return Promise.resolve()
+    this.server = null
+    for (const ws of this.clients) ws.terminate()
+    this.clients.clear()
+    this.handshaken.clear()
+    return new Promise((resolve) => server.close(() => resolve()))
+  }
+
+  /** Connected clients that completed the handshake. */
+  get connectionCount(): number {
+    return this.handshaken.size
+  }
+
+  /** Answers `method` with a fixed value or a handler. */
+  setFixture(method: string, fixture: unknown): void {
+    this.fixtures.set(method, fixture)
+  }
+
+  setLatency(ms: number): void {
+    this.options.latencyMs = ms
+  }
+
+  setProtocol(version: number): void {
+    this.options.protocol = version
+  }
+
+  /** Rejects the next connect request with the given error code. */
+  failNextHandshake(code = 'AUTH_FAILED', message = 'Handshake rejected by mock gateway'): void {
+    this.handshakeFailures.push({ code, message })
+  }
+
+  /** Kills every socket without a close handshake, like a network drop. */
+  dropConnections(): void {
+    for (const ws of this.clients) ws.terminate()
+  }
+
+  /** Stops (or resumes) answering pings, so the client's heartbeat declares the link dead. */
+  setSilent(silent: boolean): void {
+    this.silent = silent
+  }
+
+  /** Sends an event to every handshaken client. */
+  broadcast(event: string, payload?: unknown): void {
+    this.seq += 1
+    this.stateVersion += 1
+    this.sendEvent(event, payload)
+  }
+
+  /** Advances the sequence without sending, so the next broadcast shows a gap. */
+  skipSequence(count = 1): void {
+    this.seq += count
+  }
+
+  /** Sends a frame that does not match the protocol schema. */
+  sendRaw(data: string): void {
+    for (const ws of this.handshaken) ws.send(data)
+  }
+
+  /** Plays a named scenario or custom step list, honouring each step's delay. */
+  async play(script: string | MockStep[]): Promise<void> {
+    const steps = typeof script === 'string' ? SCENARIOS[script] : script
+    if (!steps) throw new Error(`Unknown mock scenario: ${script}`)
+    for (const step of steps) {
+      if (step.delayMs) await sleep(step.delayMs)
+      this.broadcast(step.event, step.payload)
+    }
+  }
+
+  // Accepts an agent message like the real gateway and streams an echo of it as the run
+  private echoAgent(params: unknown): unknown {
+    const request = (params ?? {}) as {
+      message?: string
+      agentId?: string
+      idempotencyKey?: string
+    }
+    const runId = request.idempotencyKey ?? randomUUID()
+    const agent = request.agentId ?? 'main'
+    // After the response, which is sent once this handler returns
+    setTimeout(() => {
+      this.play([
+        { event: 'agent.started', payload: { agent, runId } },
+        { event: 'agent.output', payload: { runId, text: 'Echo: ' }, delayMs: 100 },
+        { event: 'agent.output', payload: { runId, text: request.message ?? '' }, delayMs: 100 },
+        { event: 'agent.finished', payload: { runId, status: 'completed' }, delayMs: 100 }
+      ]).catch(() => undefined)
+    })
+    return { runId, status: 'accepted' }
+  }
+
+  private sendEvent(event: string, payload: unknown): void {
+    const frame = JSON.stringify({
+      type: 'event',
+      event,
+      payload,
+      seq: this.seq,
+      stateVersion: this.stateVersion
+    })
+    for (const ws of this.handshaken) ws.send(frame)
+  }
+
+  private accept(ws: WebSocket): void {
+    this.clients.add(ws)
+    ws.on('close', () => {
+      this.clients.delete(ws)
+      this.handshaken.delete(ws)
+    })
+    ws.on('ping', (data: Buffer) => {
+      if (!this.silent) ws.pong(data)
+    })
+    ws.on('message', (data: Buffer) => {
+      this.handleMessage(ws, data.toString()).catch((err) => {
+        console.error('Mock gateway failed to handle frame:', (err as Error).message)
+      })
+    })
+    this.emit('connection', ws)
+
+    const nonce = randomUUID()
+    ws.send(
+      JSON.stringify({
+        type: 'event',
+        event: 'connect.challenge',
+        payload: { nonce, timestamp: Date.now() }
+      })
+    )
+  }
+
+  private async handleMessage(ws: WebSocket, raw: string): Promise<void> {
+    const frame = parseFrame(raw)
+    if (frame.type !== 'req') return
+    this.requests.push(frame)
+    this.emit('request', frame)
+
+    if (this.options.latencyMs > 0) {
+      await sleep(this.options.latencyMs)
+    }
+    if (ws.readyState !== WebSocket.OPEN) return
+
+    if (frame.method === 'connect') {
+      this.handshake(ws, frame)
+      return
+    }
+    if (!this.handshaken.has(ws)) {
+      this.respondError(ws, frame.id, { code: 'NOT_CONNECTED', message: 'Send connect first' })
+      return
+    }
+
+    const fixture = this.fixtures.get(frame.method)
+    if (fixture === undefined) {
+      this.respondError(ws, frame.id, {
+        code: 'METHOD_NOT_FOUND',
+        message: `Unknown method: ${frame.method}`
+      })
+      return
+    }
+    try {
+      const payload =
+        typeof fixture === 'function'
+          ? await (fixture as MockRpcHandler)(frame.params, frame)
+          : fixture
+      this.respond(ws, frame.id, payload)
+    } catch (err) {
+      const error = err as Error
+      this.respondError(ws, frame.id, {
+        code: err instanceof MockRpcError ? err.code : 'INTERNAL',
+        message: error.message,
+        details: err instanceof MockRpcError ? err.details : undefined
+      })
+    }
+  }
+
+  private handshake(ws: WebSocket, frame: RequestFrame): void {
+    const params = (frame.params ?? {}) as { auth?: { token?: string }; maxProtocol?: number }
+    const failure = this.handshakeFailures.shift()
+    if (failure) {
+      this.respondError(ws, frame.id, failure)
+      return
+    }
+    if (this.options.token && params.auth?.token !== this.options.token) {
+      this.respondError(ws, frame.id, { code: 'INVALID_TOKEN', message: 'Invalid gateway token' })
+      return
+    }
+
+    this.handshaken.add(ws)
+    this.respond(ws, frame.id, {
+      protocol: this.options.protocol,
+      server: { version: 'mock', host: 'localhost' },
+      features: { methods: [...this.fixtures.keys()], events: [] },
+      stateVersion: this.stateVersion
+    })
+    this.emit('handshake', ws, frame.params)
+  }
+
+  private respond(ws: WebSocket, id: string, payload: unknown): void {
+    ws.send(JSON.stringify({ type: 'res', id, ok: true, payload }))
+  }
+
+  private respondError(ws: WebSocket, id: string, error: ErrorShape): void {
+    ws.send(JSON.stringify({ type: 'res', id, ok: false, error }))
+  }
+}
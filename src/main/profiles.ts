@@ -0,0 +1,229 @@
+import { randomUUID } from 'crypto'
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { safeStorage } from 'electron'
+import { DEFAULT_GATEWAY_URL, DEFAULT_SCOPES, type GatewayConnectionConfig } from './gateway'
+
+const PROFILES_FILE = 'profiles.json'
+
+export interface ConnectionProfile {
+  id: string
+  name: string
+  url: string
+  scopes: string[]
+  displayName: string
+  /** Whether the monitor keeps a connection to this gateway open. */
+  enabled: boolean
+  /** Read cron jobs and skills through the local clawdbot CLI instead of gateway RPC. */
+  localCli: boolean
+  /** Plain-text token, only used when OS encryption is unavailable. */
+  token?: string
+  /** Token encrypted with Electron safeStorage, base64 encoded. */
+  tokenEncrypted?: string
+}
+
+/** Profile as sent to the renderer: the token itself never leaves main. */
+export type ConnectionProfileInfo = Omit<ConnectionProfile, 'token' | 'tokenEncrypted'> & {
+  hasToken: boolean
+}
+
+/**
+ * Fields accepted when creating or editing a profile. `token` undefined keeps
+ * the stored token, an empty string clears it.
+ */
+export interface ProfileInput {
+  id?: string
+  name: string
+  url: string
+  scopes: string[]
+  displayName: string
+  enabled: boolean
+  localCli: boolean
+  token?: string
+}
+
+/** What the gateway manager needs to run one profile. */
+export interface GatewayProfileEntry {
+  id: string
+  name: string
+  enabled: boolean
+  localCli: boolean
+  config: GatewayConnectionConfig
+}
+
+interface ProfileFile {
+  activeId: string
+  profiles: ConnectionProfile[]
+}
+
+function defaultProfiles(): ProfileFile {
+  const profile: ConnectionProfile = {
+    id: randomUUID(),
+    name: 'Local',
+    url: DEFAULT_GATEWAY_URL,
+    scopes: [...DEFAULT_SCOPES],
+    displayName: 'Clawd Monitor',
+    enabled: true,
+    localCli: true
+  }
+  return { activeId: profile.id, profiles: [profile] }
+}
+
+function encodeToken(token: string): Pick<ConnectionProfile, 'token' | 'tokenEncrypted'> {
+  if (!token) return {}
+  if (safeStorage.isEncryptionAvailable()) {
+    return { tokenEncrypted: safeStorage.encryptString(token).toString('base64') }
+  }
+  return { token }
+}
+
+function decodeToken(profile: ConnectionProfile): string | undefined {
+  if (profile.tokenEncrypted) {
+    try {
+      return safeStorage.decryptString(Buffer.from(profile.tokenEncrypted, 'base64'))
+    } catch (error: unknown) {
+      console.error(
+        `Failed to decrypt token for profile ${profile.name}:`,
+        (error as Error).message
+      )
+      return undefined
+    }
+  }
+  return profile.token
+}
+
+function isLoopback(url: string): boolean {
+  try {
+    return ['127.0.0.1', 'localhost', '[::1]'].includes(new URL(url).hostname)
+  } catch {
+    return false
+  }
+}
+
+function validate(input: ProfileInput): void {
+  if (!input.name.trim()) throw new Error('Profile name is required')
+  let url: URL
+  try {
+    url = new URL(input.url)
+  } catch {
+    throw new Error(`Invalid gateway URL: ${input.url}`)
+  }
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error('Gateway URL must start with ws:// or wss://')
+  }
+}
+
+/**
+ * Named gateway connection profiles persisted in userData. Every enabled
+ * profile is monitored; `activeId` is the one the UI opens by default.
+ */
+export class ProfileStore {
+  private path: string
+  private data: ProfileFile = defaultProfiles()
+
+  constructor(dir: string) {
+    this.path = join(dir, PROFILES_FILE)
+  }
+
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8')) as ProfileFile
+      if (Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+        this.data = parsed
+        // Profiles saved before multi-gateway support lack these flags
+        for (const profile of this.data.profiles) {
+          profile.enabled ??= true
+          profile.localCli ??= isLoopback(profile.url)
+        }
+        if (!this.data.profiles.some((p) => p.id === this.data.activeId)) {
+          this.data.activeId = this.data.profiles[0].id
+        }
+        return
+      }
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read connection profiles:', (error as Error).message)
+      }
+    }
+    this.data = defaultProfiles()
+    await this.persist()
+  }
+
+  list(): { activeId: string; profiles: ConnectionProfileInfo[] } {
+    return {
+      activeId: this.data.activeId,
+      profiles: this.data.profiles.map(({ token, tokenEncrypted, ...rest }) => ({
+        ...rest,
+        hasToken: Boolean(token || tokenEncrypted)
+      }))
+    }
+  }
+
+  get activeId(): string {
+    return this.data.activeId
+  }
+
+  /** Connection settings for every profile, with tokens decrypted. */
+  entries(): GatewayProfileEntry[] {
+    return this.data.profiles.map((profile) => ({
+      id: profile.id,
+      name: profile.name,
+      enabled: profile.enabled,
+      localCli: profile.localCli,
+      config: {
+        url: profile.url,
+        token: decodeToken(profile),
+        scopes: profile.scopes,
+        displayName: profile.displayName
+      }
+    }))
+  }
+
+  async save(input: ProfileInput): Promise<ConnectionProfileInfo> {
+    validate(input)
+    const existing = input.id ? this.data.profiles.find((p) => p.id === input.id) : undefined
+    const profile: ConnectionProfile = {
+      id: existing?.id ?? randomUUID(),
+      name: input.name.trim(),
+      url: input.url.trim(),
+      scopes: input.scopes.map((s) => s.trim()).filter(Boolean),
+      displayName: input.displayName.trim() || 'Clawd Monitor',
+      enabled: input.enabled,
+      localCli: input.localCli,
+      ...(input.token === undefined && existing
+        ? { token: existing.token, tokenEncrypted: existing.tokenEncrypted }
+        : encodeToken(input.token ?? ''))
+    }
+
+    if (existing) {
+      this.data.profiles = this.data.profiles.map((p) => (p.id === profile.id ? profile : p))
+    } else {
+      this.data.profiles.push(profile)
+    }
+    await this.persist()
+    return this.list().profiles.find((p) => p.id === profile.id)!
+  }
+
+  async remove(id: string): Promise<void> {
+    if (this.data.profiles.length <= 1) {
+      throw new Error('At least one profile is required')
+    }
+    this.data.profiles = this.data.profiles.filter((p) => p.id !== id)
+    if (this.data.activeId === id) {
+      this.data.activeId = this.data.profiles[0].id
+    }
+    await this.persist()
+  }
+
+  async activate(id: string): Promise<void> {
+    if (!this.data.profiles.some((p) => p.id === id)) {
+      throw new Error(`Unknown profile: ${id}`)
+    }
+    this.data.activeId = id
+    await this.persist()
+  }
+
+  private async persist(): Promise<void> {
+    await writeFile(this.path, JSON.stringify(this.data, null, 2), { mode: 0o600 })
+  }
+}
@@ -0,0 +1,380 @@
+import { readFile, writeFile } from 'fs/promises'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { join } from 'path'
+import type { RpcTiming } from './gateway'
+import type { ConnectionState, GatewaySummary } from '../shared/gateway'
+import type { StoredEvent } from './eventStore'
+import { FAILED_STATUSES } from '../shared/statuses'
+
+const PROMETHEUS_FILE = 'prometheus.json'
+export const PROMETHEUS_PORT = 18792
+const HOST = '127.0.0.1'
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+// Upper bounds of the RPC latency histogram, in seconds
+const RPC_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+// Distinct event types counted per gateway; the rest share type="other"
+const MAX_EVENT_TYPES = 200
+
+const STATES: ConnectionState[] = [
+  'idle',
+  'connecting',
+  'awaiting-challenge',
+  'handshaking',
+  'connected',
+  'backoff',
+  'auth-failed',
+  'incompatible',
+  'replaying'
+]
+
+export interface PrometheusInfo {
+  enabled: boolean
+  port: number
+  running: boolean
+  /** Scrape URL, while running. */
+  url?: string
+  /** Why the server is not running although enabled. */
+  error?: string
+}
+
+/** The fields of a cron job listing that are exported. */
+interface CronJobState {
+  id?: string
+  name?: string
+  state?: {
+    lastRunAtMs?: number
+    lastDurationMs?: number
+    status?: string
+    lastStatus?: string
+  }
+}
+
+interface Histogram {
+  counts: number[]
+  sum: number
+  count: number
+}
+
+type Labels = Record<string, string>
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+// Counters and gauges keyed by their serialized label set
+class Family {
+  values = new Map<string, number>()
+
+  constructor(
+    readonly name: string,
+    readonly type: 'counter' | 'gauge',
+    readonly help: string
+  ) {}
+
+  add(labels: Labels, value = 1): void {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + value)
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), value)
+  }
+
+  /** Drops every sample carrying this gateway label. */
+  forget(gatewayId: string): void {
+    const marker = `gateway="${escapeLabel(gatewayId)}"`
+    for (const key of this.values.keys()) {
+      if (key.includes(marker)) this.values.delete(key)
+    }
+  }
+
+  render(lines: string[]): void {
+    lines.push(`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`)
+    for (const [labels, value] of this.values) lines.push(`${this.name}${labels} ${value}`)
+  }
+}
+
+/**
+ * Collects gateway, RPC, cron, skill and autonomous session health and serves
+ * it in the Prometheus text format at /metrics on the loopback interface.
+ * Samples are collected whether or not the server is enabled, so turning it
+ * on exposes the counts since the app started.
+ */
+export class PrometheusExporter {
+  private path: string
+  private settings = { enabled: false, port: PROMETHEUS_PORT }
+  private server: Server | null = null
+  private error: string | undefined
+
+  private up = new Family('clawd_gateway_up', 'gauge', 'Whether the gateway connection is open.')
+  private state = new Family(
+    'clawd_gateway_state',
+    'gauge',
+    'Connection state of the gateway client; 1 for the current state.'
+  )
+  private reconnects = new Family(
+    'clawd_gateway_reconnects_total',
+    'counter',
+    'Reconnect attempts scheduled after a lost or failed connection.'
+  )
+  private events = new Family(
+    'clawd_gateway_events_total',
+    'counter',
+    'Events received from the gateway, by event type.'
+  )
+  private cronLastRun = new Family(
+    'clawd_cron_job_last_run_timestamp_seconds',
+    'gauge',
+    'When the cron job last ran.'
+  )
+  private cronLastSuccess = new Family(
+    'clawd_cron_job_last_run_success',
+    'gauge',
+    'Whether the last run of the cron job succeeded.'
+  )
+  private cronLastDuration = new Family(
+    'clawd_cron_job_last_run_duration_seconds',
+    'gauge',
+    'How long the last run of the cron job took.'
+  )
+  private skillRuns = new Family(
+    'clawd_skill_runs_total',
+    'counter',
+    'Skill runs started from the monitor, by outcome.'
+  )
+  private autonomous = new Family(
+    'clawd_autonomous_sessions',
+    'gauge',
+    'Autonomous work sessions recorded by the agent, by status.'
+  )
+  private families = [
+    this.up,
+    this.state,
+    this.reconnects,
+    this.events,
+    this.cronLastRun,
+    this.cronLastSuccess,
+    this.cronLastDuration,
+    this.skillRuns,
+    this.autonomous
+  ]
+
+  private rpc = new Map<string, Histogram>()
+  // Last state and attempt per gateway, to count each scheduled reconnect once
+  private lastStatus = new Map<string, { state: ConnectionState; attempt: number }>()
+  private eventTypes = new Map<string, Set<string>>()
+
+  constructor(dir: string) {
+    this.path = join(dir, PROMETHEUS_FILE)
+  }
+
+  /** Reads the saved settings and starts the server if it was enabled. */
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8')) as {
+        enabled?: boolean
+        port?: number
+      }
+      this.settings = {
+        enabled: parsed.enabled === true,
+        port: Number.isInteger(parsed.port) ? parsed.port! : PROMETHEUS_PORT
+      }
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read Prometheus settings:', (error as Error).message)
+      }
+    }
+    if (this.settings.enabled) {
+      await this.start().catch((error: unknown) => {
+        console.error('Failed to start Prometheus endpoint:', (error as Error).message)
+      })
+    }
+  }
+
+  get enabled(): boolean {
+    return this.settings.enabled
+  }
+
+  info(): PrometheusInfo {
+    const address = this.server?.address() as AddressInfo | null | undefined
+    return {
+      ...this.settings,
+      running: Boolean(address),
+      url: address ? `http://${HOST}:${address.port}/metrics` : undefined,
+      error: this.error
+    }
+  }
+
+  /** Applies new settings, restarting the server when the port changes. */
+  async configure(settings: { enabled: boolean; port: number }): Promise<PrometheusInfo> {
+    const port = Number(settings.port)
+    if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+      throw new Error('Port must be a whole number between 1024 and 65535')
+    }
+    const restart = port !== this.settings.port
+    this.settings = { enabled: settings.enabled, port }
+    await writeFile(this.path, JSON.stringify(this.settings, null, 2))
+    if (!settings.enabled || restart) await this.stop()
+    if (settings.enabled) await this.start()
+    return this.info()
+  }
+
+  updateStatus(summary: GatewaySummary): void {
+    const { id, name, status } = summary
+    // A renamed profile should not leave its old series behind
+    this.up.forget(id)
+    this.up.set({ gateway: id, name }, status.connected ? 1 : 0)
+    for (const state of STATES) {
+      this.state.set({ gateway: id, state }, state === status.state ? 1 : 0)
+    }
+    const last = this.lastStatus.get(id)
+    if (
+      status.state === 'backoff' &&
+      (last?.state !== 'backoff' || last.attempt !== status.attempt)
+    ) {
+      this.reconnects.add({ gateway: id })
+    }
+    this.lastStatus.set(id, { state: status.state, attempt: status.attempt })
+  }
+
+  recordEvent(event: StoredEvent): void {
+    if (event.synthetic) return
+    let types = this.eventTypes.get(event.gatewayId)
+    if (!types) {
+      types = new Set()
+      this.eventTypes.set(event.gatewayId, types)
+    }
+    if (!types.has(event.type) && types.size < MAX_EVENT_TYPES) types.add(event.type)
+    const type = types.has(event.type) ? event.type : 'other'
+    this.events.add({ gateway: event.gatewayId, type })
+  }
+
+  recordRpc(gatewayId: string, timing: RpcTiming): void {
+    const labels = formatLabels({
+      gateway: gatewayId,
+      method: timing.method,
+      outcome: timing.ok ? 'ok' : 'error'
+    })
+    let histogram = this.rpc.get(labels)
+    if (!histogram) {
+      histogram = { counts: RPC_BUCKETS.map(() => 0), sum: 0, count: 0 }
+      this.rpc.set(labels, histogram)
+    }
+    const seconds = timing.durationMs / 1000
+    RPC_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) histogram.counts[i]++
+    })
+    histogram.sum += seconds
+    histogram.count++
+  }
+
+  recordSkillRun(gatewayId: string, skill: string, ok: boolean): void {
+    this.skillRuns.add({ gateway: gatewayId, skill, outcome: ok ? 'success' : 'failure' })
+  }
+
+  /** Replaces the cron samples of a gateway with its latest job listing. */
+  setCronJobs(gatewayId: string, jobs: unknown[]): void {
+    for (const family of [this.cronLastRun, this.cronLastSuccess, this.cronLastDuration]) {
+      family.forget(gatewayId)
+    }
+    for (const job of jobs as CronJobState[]) {
+      const lastRun = job.state?.lastRunAtMs
+      if (!job.id || lastRun === undefined) continue
+      const labels = { gateway: gatewayId, job: job.id }
+      const status = (job.state?.lastStatus ?? job.state?.status)?.toLowerCase()
+      this.cronLastRun.set(labels, lastRun / 1000)
+      this.cronLastSuccess.set(labels, FAILED_STATUSES.includes(status ?? '') ? 0 : 1)
+      if (job.state?.lastDurationMs !== undefined) {
+        this.cronLastDuration.set(labels, job.state.lastDurationMs / 1000)
+      }
+    }
+  }
+
+  /** Replaces the session counts of a gateway with its latest autonomous work file. */
+  setAutonomousSessions(gatewayId: string, sessions: unknown[]): void {
+    this.autonomous.forget(gatewayId)
+    for (const session of sessions as Array<{ status?: string }>) {
+      this.autonomous.add({ gateway: gatewayId, status: session.status || 'unknown' })
+    }
+  }
+
+  forgetGateway(gatewayId: string): void {
+    for (const family of this.families) family.forget(gatewayId)
+    const marker = `gateway="${escapeLabel(gatewayId)}"`
+    for (const key of this.rpc.keys()) {
+      if (key.includes(marker)) this.rpc.delete(key)
+    }
+    this.lastStatus.delete(gatewayId)
+    this.eventTypes.delete(gatewayId)
+  }
+
+  /** Every series in the Prometheus text exposition format. */
+  render(): string {
+    const lines: string[] = []
+    for (const family of this.families) family.render(lines)
+
+    const name = 'clawd_gateway_rpc_duration_seconds'
+    lines.push(`# HELP ${name} Round-trip time of gateway RPCs.`, `# TYPE ${name} histogram`)
+    for (const [labels, histogram] of this.rpc) {
+      // Bucket labels go inside the existing braces
+      const withLe = (le: string): string => `${labels.slice(0, -1)},le="${le}"}`
+      RPC_BUCKETS.forEach((bound, i) => {
+        lines.push(`${name}_bucket${withLe(String(bound))} ${histogram.counts[i]}`)
+      })
+      lines.push(`${name}_bucket${withLe('+Inf')} ${histogram.count}`)
+      lines.push(`${name}_sum${labels} ${histogram.sum}`)
+      lines.push(`${name}_count${labels} ${histogram.count}`)
+    }
+    return `${lines.join('\n')}\n`
+  }
+
+  dispose(): void {
+    this.stop().catch(() => undefined)
+  }
+
+  private start(): Promise<void> {
+    if (this.server) return Promise.resolve()
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        const path = new URL(req.url ?? '/', `http://${HOST}`).pathname
+        if (req.method !== 'GET' || path !== '/metrics') {
+          res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' })
+          res.end('Not found; metrics are served at /metrics\n')
+          return
+        }
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPE, 'Cache-Control': 'no-store' })
+        res.end(this.render())
+      })
+      server.once('error', (error: Error) => {
+        this.error = error.message
+        reject(error)
+      })
+      server.listen(this.settings.port, HOST, () => {
+        server.removeAllListeners('error')
+        server.on('error', (error: Error) => {
+          console.error('Prometheus endpoint error:', error.message)
+        })
+        this.server = server
+        this.error = undefined
+        resolve()
+      })
+    })
+  }
+
+  private stop(): Promise<void> {
+    const server = this.server
+    this.error = undefined
+    if (!server) return Promise.resolve()
+    this.server = null
+    return new Promise((resolve) => {
+      server.close(() => resolve())
+      server.closeAllConnections()
+    })
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Runtime schemas for the gateway wire protocol. Every inbound frame is
+ * parsed through these before GatewayClient acts on it, so a malformed or
+ * unexpected frame surfaces as a ProtocolError instead of odd UI state.
+ */
+
+/** Protocol versions this client can speak. */
+export const PROTOCOL_MIN = 3
+export const PROTOCOL_MAX = 3
+
+export class ProtocolError extends Error {
+  path: string
+
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message)
+    this.name = 'ProtocolError'
+    this.path = path
+  }
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function schema<T>(parse: (value: unknown, path: string) => T): Schema<T> {
+  return { parse: (value, path = '') => parse(value, path) }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const string = schema<string>((value, path) => {
+  if (typeof value !== 'string')
+    throw new ProtocolError(path, `expected string, got ${describe(value)}`)
+  return value
+})
+
+const number = schema<number>((value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ProtocolError(path, `expected number, got ${describe(value)}`)
+  }
+  return value
+})
+
+const boolean = schema<boolean>((value, path) => {
+  if (typeof value !== 'boolean')
+    throw new ProtocolError(path, `expected boolean, got ${describe(value)}`)
+  return value
+})
+
+const unknown = schema<unknown>((value) => value)
+
+function literal<T extends string>(expected: T): Schema<T> {
+  return schema((value, path) => {
+    if (value !== expected)
+      throw new ProtocolError(path, `expected "${expected}", got ${JSON.stringify(value)}`)
+    return expected
+  })
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return schema((value, path) =>
+    value === undefined || value === null ? undefined : inner.parse(value, path)
+  )
+}
+
+/** Like `optional`, but substitutes `fallback` for a missing value. */
+function withDefault<T>(inner: Schema<T>, fallback: T): Schema<T> {
+  return schema((value, path) =>
+    value === undefined || value === null ? fallback : inner.parse(value, path)
+  )
+}
+
+function array<T>(inner: Schema<T>): Schema<T[]> {
+  return schema((value, path) => {
+    if (!Array.isArray(value))
+      throw new ProtocolError(path, `expected array, got ${describe(value)}`)
+    return value.map((item, i) => inner.parse(item, `${path}[${i}]`))
+  })
+}
+
+type Shape = Record<string, Schema<unknown>>
+
+/** Object type for a shape, with fields whose schema accepts undefined made optional. */
+type InferObject<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>
+}
+
+/** Validates the listed fields; unknown extra fields are kept as-is for forward compatibility. */
+function object<S extends Shape>(shape: S): Schema<InferObject<S>> {
+  return schema((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ProtocolError(path, `expected object, got ${describe(value)}`)
+    }
+    const input = value as Record<string, unknown>
+    const result: Record<string, unknown> = { ...input }
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key].parse(input[key], path ? `${path}.${key}` : key)
+      if (parsed === undefined) {
+        delete result[key]
+      } else {
+        result[key] = parsed
+      }
+    }
+    return result as InferObject<S>
+  })
+}
+
+// Frame payloads
+
+// Gateways omit the code for some failures; the message still explains them
+export const ErrorShapeSchema = object({
+  code: withDefault(string, 'UNKNOWN'),
+  message: string,
+  details: optional(unknown),
+  retryable: optional(boolean)
+})
+export type ErrorShape = Infer<typeof ErrorShapeSchema>
+
+export const ChallengePayloadSchema = object({
+  nonce: string,
+  timestamp: optional(number)
+})
+export type ChallengePayload = Infer<typeof ChallengePayloadSchema>
+
+export const HelloPayloadSchema = object({
+  /** Version the gateway picked from our min/max range. */
+  protocol: number,
+  server: optional(object({ version: optional(string), host: optional(string) })),
+  features: optional(object({ methods: optional(array(string)), events: optional(array(string)) })),
+  snapshot: optional(unknown),
+  stateVersion: optional(number)
+})
+export type HelloPayload = Infer<typeof HelloPayloadSchema>
+
+export const ConnectParamsSchema = object({
+  minProtocol: number,
+  maxProtocol: number,
+  client: object({
+    id: string,
+    displayName: string,
+    version: string,
+    platform: string,
+    mode: string
+  }),
+  role: string,
+  scopes: array(string),
+  caps: array(string),
+  commands: array(string),
+  auth: optional(object({ token: string })),
+  device: unknown,
+  locale: string,
+  userAgent: string
+})
+export type ConnectParams = Infer<typeof ConnectParamsSchema>
+
+// Frames
+
+export const RequestFrameSchema = object({
+  type: literal('req'),
+  id: string,
+  method: string,
+  params: optional(unknown)
+})
+export type RequestFrame = Infer<typeof RequestFrameSchema>
+
+export const ResponseFrameSchema = object({
+  type: literal('res'),
+  id: string,
+  ok: boolean,
+  payload: optional(unknown),
+  error: optional(ErrorShapeSchema)
+})
+export type ResponseFrame = Infer<typeof ResponseFrameSchema>
+
+export const EventFrameSchema = object({
+  type: literal('event'),
+  event: string,
+  payload: optional(unknown),
+  seq: optional(number),
+  stateVersion: optional(number)
+})
+export type EventFrame = Infer<typeof EventFrameSchema>
+
+export type Frame = RequestFrame | ResponseFrame | EventFrame
+
+const FRAME_SCHEMAS: Record<string, Schema<Frame>> = {
+  req: RequestFrameSchema,
+  res: ResponseFrameSchema,
+  event: EventFrameSchema
+}
+
+/** Parses and validates one raw WebSocket frame. Throws ProtocolError when malformed. */
+export function parseFrame(raw: string): Frame {
+  let value: unknown
+  try {
+    value = JSON.parse(raw)
+  } catch (err) {
+    throw new ProtocolError('', `invalid JSON: ${(err as Error).message}`)
+  }
+  const type = (value as { type?: unknown } | null)?.type
+  const frameSchema = typeof type === 'string' ? FRAME_SCHEMAS[type] : undefined
+  if (!frameSchema) {
+    throw new ProtocolError('type', `unknown frame type ${JSON.stringify(type)}`)
+  }
+  return frameSchema.parse(value)
+}
+
+/**
+ * Id of a frame that failed validation but looks like a response, so the
+ * call waiting on it can fail instead of timing out.
+ */
+export function malformedResponseId(raw: string): string | undefined {
+  try {
+    const value = JSON.parse(raw) as { type?: unknown; id?: unknown } | null
+    return value?.type === 'res' && typeof value.id === 'string' ? value.id : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function isSupportedProtocol(version: number): boolean {
+  return version >= PROTOCOL_MIN && version <= PROTOCOL_MAX
+}
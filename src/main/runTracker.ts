@@ -0,0 +1,379 @@
+import { EventEmitter } from 'events'
+import type { GatewayEvent } from './gateway'
+import type { StoredEvent } from './eventStore'
+import { ABORTED_STATUSES, FAILED_STATUSES } from '../shared/statuses'
+
+// Traces kept in memory, oldest dropped first
+const MAX_TRACES = 200
+// Streamed output kept per run; the events themselves stay in the store
+const MAX_OUTPUT_CHARS = 64 * 1024
+// Change notifications are coalesced so streamed tokens don't flood IPC
+const UPDATE_INTERVAL_MS = 500
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'aborted'
+
+export type RunStepKind = 'start' | 'output' | 'tool' | 'message' | 'end' | 'error'
+
+/** One span in a run's waterfall. Point-in-time steps have no `endedAt`. */
+export interface RunStep {
+  kind: RunStepKind
+  label: string
+  startedAt: number
+  endedAt?: number
+  /** Tool call id, so a tool's start and result land on one step. */
+  callId?: string
+  status?: string
+  detail?: string
+  eventIds: number[]
+}
+
+export interface RunSummary {
+  /** `<gatewayId>:<runId or session key>`. */
+  id: string
+  runId: string
+  gatewayId: string
+  agent?: string
+  sessionKey?: string
+  status: RunStatus
+  startedAt: number
+  endedAt?: number
+  /** Time of the newest event, for runs that never report an end. */
+  lastEventAt: number
+  error?: string
+  stepCount: number
+  toolCount: number
+  eventCount: number
+  /** Start of the streamed output. */
+  preview?: string
+}
+
+export interface RunTrace extends RunSummary {
+  steps: RunStep[]
+  output: string
+}
+
+type Fields = Record<string, unknown>
+
+function record(value: unknown): Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Fields)
+    : {}
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+function errorText(value: unknown): string | undefined {
+  return str(value) ?? str(record(value).message)
+}
+
+/** What one agent or chat event contributes to its run. */
+export interface RunSignal {
+  runId: string
+  phase: 'start' | 'output' | 'tool' | 'message' | 'end' | 'error' | 'other'
+  agent?: string
+  sessionKey?: string
+  text?: string
+  tool?: string
+  callId?: string
+  toolPhase?: string
+  status?: string
+  error?: string
+}
+
+function agentPhase(name: string | undefined): RunSignal['phase'] {
+  switch (name) {
+    case 'start':
+    case 'started':
+      return 'start'
+    case 'assistant':
+    case 'output':
+    case 'delta':
+      return 'output'
+    case 'tool':
+      return 'tool'
+    case 'end':
+    case 'finished':
+    case 'completed':
+      return 'end'
+    case 'error':
+    case 'failed':
+      return 'error'
+    default:
+      return 'other'
+  }
+}
+
+/**
+ * Reads the run identifiers out of an agent or chat event. Both the dotted
+ * names (`agent.output`) and the single `agent` event with a `stream` field
+ * are understood; events without a run or session id are not part of a run.
+ */
+export function readSignal(event: GatewayEvent): RunSignal | null {
+  const [family, action] = event.type.toLowerCase().split('.', 2)
+  if (family !== 'agent' && family !== 'chat') return null
+  const fields = record(event.payload)
+  const data = record(fields.data)
+  const runId = str(fields.runId) ?? str(fields.sessionKey) ?? str(fields.sessionId)
+  if (!runId) return null
+
+  const base = {
+    runId,
+    agent: str(fields.agent) ?? str(fields.agentId),
+    sessionKey: str(fields.sessionKey),
+    status: str(fields.status) ?? str(data.status),
+    error: errorText(fields.error) ?? errorText(data.error) ?? errorText(fields.errorMessage)
+  }
+
+  if (family === 'chat') {
+    const state = str(fields.state) ?? action
+    // Deltas repeat what the agent stream already carries
+    if (state === 'delta') return { ...base, phase: 'other' }
+    const message = record(fields.message)
+    const content = message.content
+    const text =
+      typeof content === 'string'
+        ? content
+        : Array.isArray(content)
+          ? content.map((block) => str(record(block).text) ?? '').join('')
+          : str(message.text)
+    if (state === 'error') return { ...base, phase: 'error' }
+    if (state === 'aborted') return { ...base, phase: 'end', status: 'aborted' }
+    return { ...base, phase: 'message', text: text || undefined, status: state }
+  }
+
+  const stream = str(fields.stream)
+  const phase = agentPhase(
+    action ?? (stream === 'lifecycle' ? str(data.phase) : stream) ?? str(fields.phase)
+  )
+  return {
+    ...base,
+    phase,
+    text: str(fields.text) ?? str(data.text) ?? str(data.delta),
+    tool: str(fields.tool) ?? str(data.name) ?? str(data.tool),
+    callId: str(fields.toolCallId) ?? str(data.toolCallId) ?? str(data.id),
+    toolPhase: str(data.phase) ?? str(fields.toolPhase)
+  }
+}
+
+// Lists and update notifications leave out the steps and output
+function summarize(trace: RunTrace): RunSummary {
+  const summary: RunSummary & Partial<RunTrace> = { ...trace }
+  delete summary.steps
+  delete summary.output
+  return summary
+}
+
+/**
+ * Groups agent and chat events into per-run traces as they arrive. Emits
+ * `updated` with the summaries of runs that changed, at most twice a second.
+ */
+export class RunTracker extends EventEmitter {
+  private traces = new Map<string, RunTrace>()
+  private dirty = new Set<string>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  /** Rebuilds traces from stored history, oldest first, without notifying. */
+  load(events: Iterable<StoredEvent>): void {
+    for (const event of events) this.apply(event)
+    this.dirty.clear()
+  }
+
+  ingest(event: StoredEvent): void {
+    const id = this.apply(event)
+    if (!id) return
+    this.dirty.add(id)
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), UPDATE_INTERVAL_MS)
+    }
+  }
+
+  /** Summaries newest first, for one gateway or `all`. */
+  list(gatewayId = 'all'): RunSummary[] {
+    return [...this.traces.values()]
+      .filter((trace) => gatewayId === 'all' || trace.gatewayId === gatewayId)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .map(summarize)
+  }
+
+  get(id: string): RunTrace | undefined {
+    return this.traces.get(id)
+  }
+
+  /** Forgets the traces of one gateway, or all of them. */
+  clear(gatewayId = 'all'): void {
+    for (const [id, trace] of this.traces) {
+      if (gatewayId === 'all' || trace.gatewayId === gatewayId) this.traces.delete(id)
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  private flush(): void {
+    this.timer = null
+    const updated = [...this.dirty]
+      .map((id) => this.traces.get(id))
+      .filter((trace): trace is RunTrace => trace !== undefined)
+      .map(summarize)
+    this.dirty.clear()
+    if (updated.length > 0) this.emit('updated', updated)
+  }
+
+  // Returns the id of the trace the event landed in
+  private apply(event: StoredEvent): string | null {
+    const signal = readSignal(event)
+    if (!signal) return null
+    const id = `${event.gatewayId}:${signal.runId}`
+    const at = event.timestamp
+
+    let trace = this.traces.get(id)
+    if (!trace) {
+      trace = {
+        id,
+        runId: signal.runId,
+        gatewayId: event.gatewayId,
+        status: 'running',
+        startedAt: at,
+        lastEventAt: at,
+        stepCount: 0,
+        toolCount: 0,
+        eventCount: 0,
+        steps: [],
+        output: ''
+      }
+      this.traces.set(id, trace)
+      this.prune()
+    }
+
+    trace.eventCount++
+    trace.lastEventAt = Math.max(trace.lastEventAt, at)
+    trace.agent ??= signal.agent
+    trace.sessionKey ??= signal.sessionKey
+    this.addStep(trace, signal, event)
+    trace.stepCount = trace.steps.length
+    trace.toolCount = trace.steps.filter((step) => step.kind === 'tool').length
+    trace.preview = trace.output ? trace.output.slice(0, 200) : undefined
+    return id
+  }
+
+  private addStep(trace: RunTrace, signal: RunSignal, event: StoredEvent): void {
+    const at = event.timestamp
+    const last = trace.steps.at(-1)
+
+    switch (signal.phase) {
+      case 'start':
+        trace.startedAt = Math.min(trace.startedAt, at)
+        trace.status = 'running'
+        trace.steps.push({
+          kind: 'start',
+          label: `${signal.agent ?? 'Agent'} started`,
+          startedAt: at,
+          eventIds: [event.id]
+        })
+        return
+
+      case 'output':
+        if (signal.text && trace.output.length < MAX_OUTPUT_CHARS) {
+          trace.output = (trace.output + signal.text).slice(0, MAX_OUTPUT_CHARS)
+        }
+        // Consecutive chunks extend one output span
+        if (last?.kind === 'output') {
+          last.endedAt = at
+          last.eventIds.push(event.id)
+        } else {
+          trace.steps.push({
+            kind: 'output',
+            label: 'Output',
+            startedAt: at,
+            endedAt: at,
+            eventIds: [event.id]
+          })
+        }
+        return
+
+      case 'tool': {
+        const open = signal.callId
+          ? trace.steps.find((step) => step.kind === 'tool' && step.callId === signal.callId)
+          : undefined
+        if (open) {
+          open.endedAt = at
+          open.status = signal.toolPhase ?? open.status
+          open.detail = signal.error ?? open.detail
+          open.eventIds.push(event.id)
+        } else {
+          trace.steps.push({
+            kind: 'tool',
+            label: signal.tool ?? 'Tool call',
+            startedAt: at,
+            endedAt: at,
+            callId: signal.callId,
+            status: signal.toolPhase,
+            detail: signal.error,
+            eventIds: [event.id]
+          })
+        }
+        return
+      }
+
+      case 'message':
+        trace.steps.push({
+          kind: 'message',
+          label: 'Reply',
+          startedAt: at,
+          status: signal.status,
+          detail: signal.text?.slice(0, 200),
+          eventIds: [event.id]
+        })
+        return
+
+      case 'end': {
+        const status = signal.status?.toLowerCase()
+        trace.status = FAILED_STATUSES.includes(status ?? '')
+          ? 'failed'
+          : ABORTED_STATUSES.includes(status ?? '')
+            ? 'aborted'
+            : trace.status === 'failed'
+              ? 'failed'
+              : 'completed'
+        trace.endedAt = at
+        trace.error ??= signal.error
+        trace.steps.push({
+          kind: 'end',
+          label: `Finished${signal.status ? ` (${signal.status})` : ''}`,
+          startedAt: at,
+          status: signal.status,
+          eventIds: [event.id]
+        })
+        return
+      }
+
+      case 'error':
+        trace.status = 'failed'
+        trace.endedAt = at
+        trace.error = signal.error ?? trace.error ?? 'Run failed'
+        trace.steps.push({
+          kind: 'error',
+          label: 'Error',
+          startedAt: at,
+          detail: signal.error,
+          eventIds: [event.id]
+        })
+        return
+
+      default:
+        if (last) last.eventIds.push(event.id)
+    }
+  }
+
+  private prune(): void {
+    if (this.traces.size <= MAX_TRACES) return
+    const oldest = [...this.traces.values()]
+      .sort((a, b) => a.startedAt - b.startedAt)
+      .slice(0, this.traces.size - MAX_TRACES)
+    for (const trace of oldest) this.traces.delete(trace.id)
+  }
+}
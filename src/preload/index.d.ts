@@ -1,27 +1,508 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
+import type { GatewayDiagnostic, GatewayStatus, GatewaySummary } from '../shared/gateway'
+
+interface GatewayEvent {
+  /** Store id, assigned when the event is persisted. */
+  id?: number
+  type: string
+  timestamp: number
+  payload?: unknown
+  seq?: number
+  stateVersion?: number
+  synthetic?: boolean
+  /** Id of the gateway (profile) the event came from. */
+  gatewayId?: string
+}
+
+interface EventBatch {
+  id: number
+  events: GatewayEvent[]
+  /** Events missed since the window fell behind. */
+  skipped?: number
+}
+
+interface EventQuery {
+  /** Gateway id, or `all` (the default). */
+  gatewayId?: string
+  /** Event type globs; an event matching any of them passes. */
+  types?: string[]
+  /** One of cron, gateway, telegram, agent. Gap markers pass every category. */
+  category?: string
+  from?: number
+  to?: number
+  /** Case-insensitive search in the type and payload. */
+  text?: string
+  seqFrom?: number
+  seqTo?: number
+  /** `nextCursor` from the previous page. */
+  cursor?: number
+  /** Default 100, max 1000; 0 returns only totals and counts. */
+  limit?: number
+}
+
+interface EventPage {
+  /** Newest first. */
+  events: GatewayEvent[]
+  total: number
+  /** Matches per category (and `all`) ignoring the category filter. */
+  counts: Record<string, number>
+  nextCursor?: number
+}
+
+type ExportFormat = 'ndjson' | 'json' | 'csv'
+
+interface ExportRequest {
+  format: ExportFormat
+  /** Selection to export; cursor and limit are ignored. */
+  query: EventQuery
+  /** Export from the imported file instead of the live history. */
+  imported?: boolean
+}
+
+export interface RetentionRule {
+  /** Event type glob, `*` matching any run of characters. */
+  match: string
+  maxAgeDays?: number
+  maxCount?: number
+  maxBytes?: number
+}
+
+export interface EventStoreStats {
+  count: number
+  bytes: number
+  segments: number
+  oldest?: number
+}
+
+type RunStatus = 'running' | 'completed' | 'failed' | 'aborted'
+
+interface RunSummary {
+  /** `<gatewayId>:<runId>`; pass to `runs.get`. */
+  id: string
+  runId: string
+  gatewayId: string
+  agent?: string
+  sessionKey?: string
+  status: RunStatus
+  startedAt: number
+  endedAt?: number
+  lastEventAt: number
+  error?: string
+  stepCount: number
+  toolCount: number
+  eventCount: number
+  preview?: string
+}
+
+/** One span in a run's waterfall. Point-in-time steps have no `endedAt`. */
+interface RunStep {
+  kind: 'start' | 'output' | 'tool' | 'message' | 'end' | 'error'
+  label: string
+  startedAt: number
+  endedAt?: number
+  callId?: string
+  status?: string
+  detail?: string
+  eventIds: number[]
+}
+
+interface RunTrace extends RunSummary {
+  steps: RunStep[]
+  output: string
+}
+
+type MetricSeries =
+  'events' | 'agent.sends' | 'agent.sendFailures' | 'cron.completed' | 'cron.failed' | 'briefings'
+
+type MetricResolution = 'minute' | 'hour'
+
+interface MetricsQuery {
+  series: MetricSeries[]
+  /** Minute buckets cover the last 24 hours, hour buckets the last 30 days. */
+  resolution: MetricResolution
+  /** Number of buckets, ending with the current one. */
+  buckets: number
+  /** Gateway id, or `all` (the default) to sum every gateway. */
+  gatewayId?: string
+}
+
+type AlertSeverity = 'info' | 'warning' | 'critical'
+
+type AlertCondition =
+  | { kind: 'cronFailed'; job?: string }
+  | { kind: 'silence'; minutes: number }
+  | { kind: 'disconnected'; minutes: number }
+  | { kind: 'payloadMatch'; pattern: string; types?: string }
+
+interface AlertRule {
+  id: string
+  name: string
+  enabled: boolean
+  /** Gateway the rule watches, or `all`. */
+  gatewayId: string
+  severity: AlertSeverity
+  cooldownMinutes: number
+  condition: AlertCondition
+}
+
+type AlertRuleInput = Omit<AlertRule, 'id'> & { id?: string }
+
+interface AlertRecord {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: AlertSeverity
+  gatewayId: string
+  message: string
+  firedAt: number
+  /** Tab that shows what the alert is about. */
+  tab: 'dashboard' | 'events' | 'cron'
+  eventId?: number
+}
+
+export type SinkKind = 'http' | 'file' | 'command'
+
+export interface SinkConfig {
+  id: string
+  name: string
+  enabled: boolean
+  kind: SinkKind
+  /** Filter expression; empty forwards every event. */
+  filter: string
+  url?: string
+  headers?: Record<string, string>
+  path?: string
+  command?: string
+  args?: string[]
+  maxAttempts: number
+}
+
+type SinkInput = Omit<SinkConfig, 'id' | 'maxAttempts'> & { id?: string; maxAttempts?: number }
+
+export interface SinkStatus {
+  id: string
+  delivered: number
+  failed: number
+  /** Events waiting, including one being retried. */
+  pending: number
+  /** Events dropped because the queue was full. */
+  dropped: number
+  retryAt?: number
+  lastDeliveredAt?: number
+  lastError?: string
+  lastErrorAt?: number
+}
+
+export interface LocalApiInfo {
+  enabled: boolean
+  port: number
+  /** Bearer token every request must carry. */
+  token: string
+  running: boolean
+  /** Base URL of the REST endpoints, while running. */
+  url?: string
+  /** Why the server is not running although enabled. */
+  error?: string
+  /** Open event streams. */
+  streams: number
+}
+
+export interface CliInfo {
+  /** Path set in settings; detected automatically when absent. */
+  binary?: string
+  /** Executable that will be run, when one was found. */
+  resolved?: string
+  error?: string
+}
+
+export interface PrometheusInfo {
+  enabled: boolean
+  port: number
+  running: boolean
+  /** Scrape URL, while running. */
+  url?: string
+  /** Why the server is not running although enabled. */
+  error?: string
+}
+
+interface AgentOutput {
+  stream: 'stdout' | 'stderr'
+  text: string
+}
+
+type AgentTransport = 'gateway' | 'cli'
+
+interface AgentSendResult {
+  success: boolean
+  /** Set once the message was handed to the gateway or the CLI. */
+  transport?: AgentTransport
+  output?: string
+  error?: string
+  /** Only runs through the CLI have one. */
+  exitCode?: number | null
+  durationMs?: number
+  /** Ended through agent.stop(). */
+  stopped?: boolean
+}
+
+interface ChatMessage {
+  id: string
+  role: 'user' | 'agent'
+  text: string
+  at: number
+  exitCode?: number | null
+  durationMs?: number
+  stopped?: boolean
+  error?: string
+  transport?: AgentTransport
+}
+
+interface ChatThread {
+  id: string
+  agent: string
+  title: string
+  sessionId: string
+  createdAt: number
+  updatedAt: number
+  messages: ChatMessage[]
+}
+
+interface ChatThreadSummary {
+  id: string
+  agent: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  messageCount: number
+  preview: string
+}
+
+interface ChatSearchResult {
+  threadId: string
+  agent: string
+  title: string
+  messageId: string
+  role: ChatMessage['role']
+  at: number
+  snippet: string
+}
+
+export interface SinkDelivery {
+  sinkId: string
+  eventId: number
+  eventType: string
+  attempt: number
+  ok: boolean
+  at: number
+  durationMs: number
+  error?: string
+  /** The last attempt failed and the event was dropped. */
+  gaveUp?: boolean
+}
+
+interface MetricsResult {
+  resolution: MetricResolution
+  /** Start of the first bucket; bucket `i` starts at `start + i * step`. */
+  start: number
+  step: number
+  series: Partial<Record<MetricSeries, number[]>>
+}
+
+export interface DeviceIdentityInfo {
+  deviceId: string
+  publicKey: string
+  fingerprint: string
+  createdAt: number
+  rotatedAt?: number
+}
+
+type DeviceIdentityResult = { success: boolean; identity?: DeviceIdentityInfo; error?: string }
+
+export interface ConnectionProfileInfo {
+  id: string
+  name: string
+  url: string
+  scopes: string[]
+  displayName: string
+  enabled: boolean
+  localCli: boolean
+  hasToken: boolean
+}
+
+interface ProfileInput {
+  id?: string
+  name: string
+  url: string
+  scopes: string[]
+  displayName: string
+  enabled: boolean
+  localCli: boolean
+  /** Omit to keep the stored token, empty string to clear it. */
+  token?: string
+}
 
 declare global {
   interface Window {
     electron: ElectronAPI
     api: {
       gateway: {
-        status(): Promise<{ connected: boolean; url: string }>
-        events(): Promise<Array<{ type: string; timestamp: number; data?: unknown }>>
-        connect(): Promise<{ success: boolean }>
-        disconnect(): Promise<{ success: boolean }>
-        clear(): Promise<{ success: boolean }>
-        onStatusChange(callback: (status: { connected: boolean; url: string }) => void): () => void
-        onEvent(callback: (event: { type: string; timestamp: number; data?: unknown }) => void): () => void
+        list(): Promise<GatewaySummary[]>
+        status(gatewayId: string): Promise<GatewayStatus | null>
+        /** Pass `all` for the merged view across gateways. */
+        /** The newest `limit` stored events (default 500), oldest first. */
+        events(gatewayId: string, limit?: number): Promise<GatewayEvent[]>
+        query(query: EventQuery): Promise<EventPage>
+        connect(gatewayId: string): Promise<{ success: boolean; error?: string }>
+        disconnect(gatewayId: string): Promise<{ success: boolean; error?: string }>
+        clear(gatewayId: string): Promise<{ success: boolean; error?: string }>
+        onStatusChange(callback: (summary: GatewaySummary) => void): () => void
+        onRemoved(callback: (gatewayId: string) => void): () => void
+        onEvent(callback: (event: GatewayEvent) => void): () => void
+        /**
+         * Live events, oldest first, a batch at a time. A batch with `skipped`
+         * means this window fell behind: nothing more arrives until `resume`.
+         */
+        onEventBatch(callback: (batch: EventBatch) => void): () => void
+        /** Restarts live delivery after a skip; reload history first or after. */
+        resume(): void
+        /** Frames that failed protocol validation, newest last. */
+        diagnostics(): Promise<GatewayDiagnostic[]>
+        onDiagnostic(callback: (diagnostic: GatewayDiagnostic) => void): () => void
+      }
+      store: {
+        stats(): Promise<EventStoreStats>
+        retention(): Promise<RetentionRule[]>
+        setRetention(
+          rules: RetentionRule[]
+        ): Promise<{ success: boolean; stats?: EventStoreStats; error?: string }>
+        /** Prompts for a file; cancelling gives `success: false`, no error. */
+        export(
+          request: ExportRequest
+        ): Promise<{ success: boolean; path?: string; count?: number; error?: string }>
+        /** Prompts for an exported file and opens it for read-only browsing. */
+        import(): Promise<{ success: boolean; name?: string; count?: number; error?: string }>
+        queryImported(query: EventQuery): Promise<EventPage>
+        closeImport(): Promise<{ success: boolean }>
+      }
+      profiles: {
+        list(): Promise<{ activeId: string; profiles: ConnectionProfileInfo[] }>
+        save(
+          profile: ProfileInput
+        ): Promise<{ success: boolean; profile?: ConnectionProfileInfo; error?: string }>
+        delete(id: string): Promise<{ success: boolean; error?: string }>
+        activate(id: string): Promise<{ success: boolean; error?: string }>
+      }
+      device: {
+        identity(): Promise<DeviceIdentityResult>
+        rotate(): Promise<DeviceIdentityResult>
+        reset(): Promise<DeviceIdentityResult>
+      }
+      runs: {
+        /** Newest first. */
+        list(gatewayId: string): Promise<RunSummary[]>
+        get(id: string): Promise<RunTrace | null>
+        /** Summaries of runs that changed, at most twice a second. */
+        onUpdated(callback: (summaries: RunSummary[]) => void): () => void
+      }
+      session: {
+        /** Prompts for a file and starts recording; cancelling gives `success: false`, no error. */
+        record(gatewayId: string): Promise<{ success: boolean; path?: string; error?: string }>
+        stopRecording(
+          gatewayId: string
+        ): Promise<{ success: boolean; path?: string; error?: string }>
+        /** Prompts for a capture and plays it through the replay gateway. */
+        replay(speed: number): Promise<{ success: boolean; gatewayId?: string; error?: string }>
+        closeReplay(): Promise<{ success: boolean }>
+        reveal(path: string): Promise<void>
       }
       agent: {
-        send(agent: string, message: string, local?: boolean): Promise<{ success: boolean; output?: string; error?: string }>
+        /**
+         * Sends through the active gateway while it is connected, otherwise
+         * (or with `local`) runs the agent through the CLI. With a requestId,
+         * output is passed to onOutput as it arrives and the run can be ended
+         * with stop(). With a threadId, the exchange is saved to that thread
+         * and continues its session.
+         */
+        send(
+          agent: string,
+          message: string,
+          local?: boolean,
+          options?: {
+            requestId?: string
+            threadId?: string
+            onOutput?: (output: AgentOutput) => void
+          }
+        ): Promise<AgentSendResult>
+        stop(requestId: string): Promise<{ success: boolean }>
+      }
+      threads: {
+        /** Most recently active first. */
+        list(agent?: string): Promise<ChatThreadSummary[]>
+        get(id: string): Promise<ChatThread | null>
+        /** Matches across all threads, newest first. */
+        search(query: string): Promise<ChatSearchResult[]>
+        create(agent: string): Promise<{ success: boolean; thread?: ChatThread; error?: string }>
+        rename(
+          id: string,
+          title: string
+        ): Promise<{ success: boolean; thread?: ChatThread; error?: string }>
+        delete(id: string): Promise<{ success: boolean; error?: string }>
+        markdown(id: string): Promise<{ success: boolean; markdown?: string; error?: string }>
+      }
+      metrics: {
+        query(query: MetricsQuery): Promise<MetricsResult>
+      }
+      alerts: {
+        rules(): Promise<AlertRule[]>
+        save(rule: AlertRuleInput): Promise<{ success: boolean; rule?: AlertRule; error?: string }>
+        delete(id: string): Promise<{ success: boolean; error?: string }>
+        /** Newest first. */
+        history(): Promise<AlertRecord[]>
+        clearHistory(): Promise<{ success: boolean; error?: string }>
+        onFired(callback: (record: AlertRecord) => void): () => void
+        /** A notification was clicked; show what it points at. */
+        onOpen(callback: (record: AlertRecord) => void): () => void
+      }
+      sinks: {
+        list(): Promise<{ sinks: SinkConfig[]; status: SinkStatus[] }>
+        save(sink: SinkInput): Promise<{ success: boolean; sink?: SinkConfig; error?: string }>
+        delete(id: string): Promise<{ success: boolean; error?: string }>
+        /** Queues a sample `monitor.test` event, bypassing the filter. */
+        test(id: string): Promise<{ success: boolean; error?: string }>
+        /** Delivery attempts, newest first. */
+        deliveries(sinkId?: string): Promise<SinkDelivery[]>
+        /** Status of every sink, at most once a second while deliveries happen. */
+        onUpdated(callback: (status: SinkStatus[]) => void): () => void
+      }
+      localApi: {
+        info(): Promise<LocalApiInfo>
+        /** Saves the settings and starts, restarts or stops the server to match. */
+        configure(settings: {
+          enabled: boolean
+          port: number
+        }): Promise<{ success: boolean; info: LocalApiInfo; error?: string }>
+        /** Invalidates the current token and closes open event streams. */
+        regenerateToken(): Promise<{ success: boolean; info?: LocalApiInfo; error?: string }>
+      }
+      cli: {
+        info(): Promise<CliInfo>
+        /** Sets the clawdbot executable; an empty path restores automatic detection. */
+        setBinary(binary: string): Promise<{ success: boolean; info?: CliInfo; error?: string }>
+      }
+      prometheus: {
+        info(): Promise<PrometheusInfo>
+        /** Saves the settings and starts, restarts or stops the /metrics endpoint to match. */
+        configure(settings: {
+          enabled: boolean
+          port: number
+        }): Promise<{ success: boolean; info: PrometheusInfo; error?: string }>
       }
       cron: {
-        status(): Promise<{ success: boolean; jobs?: unknown[]; error?: string }>
-        runs(): Promise<{ success: boolean; runs?: unknown[]; error?: string }>
+        status(gatewayId: string): Promise<{ success: boolean; jobs?: unknown[]; error?: string }>
+        runs(gatewayId: string): Promise<{ success: boolean; runs?: unknown[]; error?: string }>
       }
       skills: {
-        list(): Promise<{
+        list(gatewayId: string): Promise<{
           success: boolean
           skills: Array<{
             name: string
@@ -33,7 +514,7 @@ declare global {
           }>
           error?: string
         }>
-        autonomousStatus(): Promise<{
+        autonomousStatus(gatewayId: string): Promise<{
           success: boolean
           sessions: Array<{
             id: string
@@ -46,7 +527,7 @@ declare global {
           }>
           error?: string
         }>
-        notesSyncStatus(): Promise<{
+        notesSyncStatus(gatewayId: string): Promise<{
           success: boolean
           status: {
             lastSync?: string
@@ -55,7 +536,7 @@ declare global {
           }
           error?: string
         }>
-        run(skillName: string): Promise<{ success: boolean; error?: string }>
+        run(gatewayId: string, skillName: string): Promise<{ success: boolean; error?: string }>
       }
     }
   }
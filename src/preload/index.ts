@@ -1,49 +1,293 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
-
-export interface GatewayStatus {
-  connected: boolean
-  url: string
-}
+import type { GatewayDiagnostic, GatewaySummary } from '../shared/gateway'
 
 export interface GatewayEvent {
+  id?: number
   type: string
   timestamp: number
-  data?: unknown
+  payload?: unknown
+  gatewayId?: string
+}
+
+export interface EventBatch {
+  id: number
+  events: GatewayEvent[]
+  skipped?: number
+}
+
+export interface EventQuery {
+  gatewayId?: string
+  types?: string[]
+  category?: string
+  from?: number
+  to?: number
+  text?: string
+  seqFrom?: number
+  seqTo?: number
+  cursor?: number
+  limit?: number
+}
+
+export type ExportFormat = 'ndjson' | 'json' | 'csv'
+
+export interface ExportRequest {
+  format: ExportFormat
+  query: EventQuery
+  imported?: boolean
+}
+
+export interface RunSummary {
+  id: string
+  runId: string
+  gatewayId: string
+  agent?: string
+  sessionKey?: string
+  status: 'running' | 'completed' | 'failed' | 'aborted'
+  startedAt: number
+  endedAt?: number
+  lastEventAt: number
+  error?: string
+  stepCount: number
+  toolCount: number
+  eventCount: number
+  preview?: string
+}
+
+export type MetricSeries =
+  'events' | 'agent.sends' | 'agent.sendFailures' | 'cron.completed' | 'cron.failed' | 'briefings'
+
+export interface MetricsQuery {
+  series: MetricSeries[]
+  resolution: 'minute' | 'hour'
+  buckets: number
+  gatewayId?: string
+}
+
+export interface AlertRecord {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: 'info' | 'warning' | 'critical'
+  gatewayId: string
+  message: string
+  firedAt: number
+  tab: string
+  eventId?: number
+}
+
+export interface SinkStatus {
+  id: string
+  delivered: number
+  failed: number
+  pending: number
+  dropped: number
+  retryAt?: number
+  lastDeliveredAt?: number
+  lastError?: string
+  lastErrorAt?: number
+}
+
+export interface AgentOutput {
+  stream: 'stdout' | 'stderr'
+  text: string
+}
+
+export interface RetentionRule {
+  match: string
+  maxAgeDays?: number
+  maxCount?: number
+  maxBytes?: number
+}
+
+// One listener fans event batches out to every subscriber, then acknowledges
+// each batch once the renderer has had a frame to handle it. Main stops
+// sending to a window whose acknowledgements fall behind. Chromium pauses
+// animation frames in hidden windows, so those acknowledge straight away.
+const batchSubscribers = new Set<(batch: EventBatch) => void>()
+let pendingAcks: number[] = []
+
+function flushAcks(): void {
+  for (const id of pendingAcks) ipcRenderer.send('gateway:ack', id)
+  pendingAcks = []
+}
+
+ipcRenderer.on('gateway:eventBatch', (_, batch: EventBatch) => {
+  for (const callback of batchSubscribers) callback(batch)
+  pendingAcks.push(batch.id)
+  if (document.hidden) flushAcks()
+  else if (pendingAcks.length === 1) requestAnimationFrame(flushAcks)
+})
+
+// A frame requested just before the window was hidden would not run until it is shown again
+document.addEventListener('visibilitychange', () => {
+  if (document.hidden) flushAcks()
+})
+
+// A reloaded page starts live regardless of what the previous one acknowledged
+ipcRenderer.send('gateway:resume')
+
+function subscribeBatches(callback: (batch: EventBatch) => void): () => void {
+  batchSubscribers.add(callback)
+  return () => batchSubscribers.delete(callback)
 }
 
 // Custom APIs for renderer
 const api = {
   gateway: {
-    status: () => ipcRenderer.invoke('gateway:status'),
-    events: () => ipcRenderer.invoke('gateway:events'),
-    connect: () => ipcRenderer.invoke('gateway:connect'),
-    disconnect: () => ipcRenderer.invoke('gateway:disconnect'),
-    clear: () => ipcRenderer.invoke('gateway:clear'),
-    onStatusChange: (callback: (status: GatewayStatus) => void) => {
-      const listener = (_: unknown, status: GatewayStatus) => callback(status)
+    list: () => ipcRenderer.invoke('gateway:list'),
+    status: (gatewayId: string) => ipcRenderer.invoke('gateway:status', gatewayId),
+    events: (gatewayId: string, limit?: number) =>
+      ipcRenderer.invoke('gateway:events', gatewayId, limit),
+    query: (query: EventQuery) => ipcRenderer.invoke('gateway:query', query),
+    connect: (gatewayId: string) => ipcRenderer.invoke('gateway:connect', gatewayId),
+    disconnect: (gatewayId: string) => ipcRenderer.invoke('gateway:disconnect', gatewayId),
+    clear: (gatewayId: string) => ipcRenderer.invoke('gateway:clear', gatewayId),
+    onStatusChange: (callback: (summary: GatewaySummary) => void) => {
+      const listener = (_: unknown, summary: GatewaySummary): void => callback(summary)
       ipcRenderer.on('gateway:status', listener)
       return () => ipcRenderer.removeListener('gateway:status', listener)
     },
-    onEvent: (callback: (event: GatewayEvent) => void) => {
-      const listener = (_: unknown, event: GatewayEvent) => callback(event)
-      ipcRenderer.on('gateway:event', listener)
-      return () => ipcRenderer.removeListener('gateway:event', listener)
+    onRemoved: (callback: (gatewayId: string) => void) => {
+      const listener = (_: unknown, gatewayId: string): void => callback(gatewayId)
+      ipcRenderer.on('gateway:removed', listener)
+      return () => ipcRenderer.removeListener('gateway:removed', listener)
+    },
+    onEvent: (callback: (event: GatewayEvent) => void) =>
+      subscribeBatches((batch) => batch.events.forEach(callback)),
+    onEventBatch: (callback: (batch: EventBatch) => void) => subscribeBatches(callback),
+    resume: () => ipcRenderer.send('gateway:resume'),
+    diagnostics: () => ipcRenderer.invoke('gateway:diagnostics'),
+    onDiagnostic: (callback: (diagnostic: GatewayDiagnostic) => void) => {
+      const listener = (_: unknown, diagnostic: GatewayDiagnostic): void => callback(diagnostic)
+      ipcRenderer.on('gateway:diagnostic', listener)
+      return () => ipcRenderer.removeListener('gateway:diagnostic', listener)
+    }
+  },
+  store: {
+    stats: () => ipcRenderer.invoke('store:stats'),
+    retention: () => ipcRenderer.invoke('store:retention'),
+    setRetention: (rules: RetentionRule[]) => ipcRenderer.invoke('store:setRetention', rules),
+    export: (request: ExportRequest) => ipcRenderer.invoke('store:export', request),
+    import: () => ipcRenderer.invoke('store:import'),
+    queryImported: (query: EventQuery) => ipcRenderer.invoke('store:queryImported', query),
+    closeImport: () => ipcRenderer.invoke('store:closeImport')
+  },
+  profiles: {
+    list: () => ipcRenderer.invoke('profiles:list'),
+    save: (profile: unknown) => ipcRenderer.invoke('profiles:save', profile),
+    delete: (id: string) => ipcRenderer.invoke('profiles:delete', id),
+    activate: (id: string) => ipcRenderer.invoke('profiles:activate', id)
+  },
+  device: {
+    identity: () => ipcRenderer.invoke('device:identity'),
+    rotate: () => ipcRenderer.invoke('device:rotate'),
+    reset: () => ipcRenderer.invoke('device:reset')
+  },
+  runs: {
+    list: (gatewayId: string) => ipcRenderer.invoke('runs:list', gatewayId),
+    get: (id: string) => ipcRenderer.invoke('runs:get', id),
+    onUpdated: (callback: (summaries: RunSummary[]) => void) => {
+      const listener = (_: unknown, summaries: RunSummary[]): void => callback(summaries)
+      ipcRenderer.on('runs:updated', listener)
+      return () => ipcRenderer.removeListener('runs:updated', listener)
     }
   },
+  session: {
+    record: (gatewayId: string) => ipcRenderer.invoke('session:record', gatewayId),
+    stopRecording: (gatewayId: string) => ipcRenderer.invoke('session:stopRecording', gatewayId),
+    replay: (speed: number) => ipcRenderer.invoke('session:replay', speed),
+    closeReplay: () => ipcRenderer.invoke('session:closeReplay'),
+    reveal: (path: string) => ipcRenderer.invoke('session:reveal', path)
+  },
   agent: {
-    send: (agent: string, message: string, local?: boolean) =>
-      ipcRenderer.invoke('agent:send', { agent, message, local })
+    send: (
+      agent: string,
+      message: string,
+      local?: boolean,
+      options: {
+        requestId?: string
+        threadId?: string
+        onOutput?: (output: AgentOutput) => void
+      } = {}
+    ) => {
+      const { requestId, threadId, onOutput } = options
+      const channel = `agent:output:${requestId}`
+      const listener = (_: unknown, output: AgentOutput): void => onOutput?.(output)
+      if (requestId && onOutput) ipcRenderer.on(channel, listener)
+      return ipcRenderer
+        .invoke('agent:send', { agent, message, local, requestId, threadId })
+        .finally(() => ipcRenderer.removeListener(channel, listener))
+    },
+    stop: (requestId: string) => ipcRenderer.invoke('agent:stop', requestId)
+  },
+  threads: {
+    list: (agent?: string) => ipcRenderer.invoke('threads:list', agent),
+    get: (id: string) => ipcRenderer.invoke('threads:get', id),
+    search: (query: string) => ipcRenderer.invoke('threads:search', query),
+    create: (agent: string) => ipcRenderer.invoke('threads:create', agent),
+    rename: (id: string, title: string) => ipcRenderer.invoke('threads:rename', id, title),
+    delete: (id: string) => ipcRenderer.invoke('threads:delete', id),
+    markdown: (id: string) => ipcRenderer.invoke('threads:markdown', id)
+  },
+  metrics: {
+    query: (query: MetricsQuery) => ipcRenderer.invoke('metrics:query', query)
+  },
+  alerts: {
+    rules: () => ipcRenderer.invoke('alerts:rules'),
+    save: (rule: unknown) => ipcRenderer.invoke('alerts:save', rule),
+    delete: (id: string) => ipcRenderer.invoke('alerts:delete', id),
+    history: () => ipcRenderer.invoke('alerts:history'),
+    clearHistory: () => ipcRenderer.invoke('alerts:clearHistory'),
+    onFired: (callback: (record: AlertRecord) => void) => {
+      const listener = (_: unknown, record: AlertRecord): void => callback(record)
+      ipcRenderer.on('alerts:fired', listener)
+      return () => ipcRenderer.removeListener('alerts:fired', listener)
+    },
+    onOpen: (callback: (record: AlertRecord) => void) => {
+      const listener = (_: unknown, record: AlertRecord): void => callback(record)
+      ipcRenderer.on('alerts:open', listener)
+      return () => ipcRenderer.removeListener('alerts:open', listener)
+    }
+  },
+  sinks: {
+    list: () => ipcRenderer.invoke('sinks:list'),
+    save: (sink: unknown) => ipcRenderer.invoke('sinks:save', sink),
+    delete: (id: string) => ipcRenderer.invoke('sinks:delete', id),
+    test: (id: string) => ipcRenderer.invoke('sinks:test', id),
+    deliveries: (sinkId?: string) => ipcRenderer.invoke('sinks:deliveries', sinkId),
+    onUpdated: (callback: (status: SinkStatus[]) => void) => {
+      const listener = (_: unknown, status: SinkStatus[]): void => callback(status)
+      ipcRenderer.on('sinks:updated', listener)
+      return () => ipcRenderer.removeListener('sinks:updated', listener)
+    }
+  },
+  localApi: {
+    info: () => ipcRenderer.invoke('localApi:info'),
+    configure: (settings: { enabled: boolean; port: number }) =>
+      ipcRenderer.invoke('localApi:configure', settings),
+    regenerateToken: () => ipcRenderer.invoke('localApi:regenerateToken')
+  },
+  cli: {
+    info: () => ipcRenderer.invoke('cli:info'),
+    setBinary: (binary: string) => ipcRenderer.invoke('cli:setBinary', binary)
+  },
+  prometheus: {
+    info: () => ipcRenderer.invoke('prometheus:info'),
+    configure: (settings: { enabled: boolean; port: number }) =>
+      ipcRenderer.invoke('prometheus:configure', settings)
   },
   cron: {
-    status: () => ipcRenderer.invoke('cron:status'),
-    runs: () => ipcRenderer.invoke('cron:runs')
+    status: (gatewayId: string) => ipcRenderer.invoke('cron:status', gatewayId),
+    runs: (gatewayId: string) => ipcRenderer.invoke('cron:runs', gatewayId)
   },
   skills: {
-    list: () => ipcRenderer.invoke('skills:list'),
-    autonomousStatus: () => ipcRenderer.invoke('skills:autonomousStatus'),
-    notesSyncStatus: () => ipcRenderer.invoke('skills:notesSyncStatus'),
-    run: (skillName: string) => ipcRenderer.invoke('skills:run', skillName)
+    list: (gatewayId: string) => ipcRenderer.invoke('skills:list', gatewayId),
+    autonomousStatus: (gatewayId: string) =>
+      ipcRenderer.invoke('skills:autonomousStatus', gatewayId),
+    notesSyncStatus: (gatewayId: string) => ipcRenderer.invoke('skills:notesSyncStatus', gatewayId),
+    run: (gatewayId: string, skillName: string) =>
+      ipcRenderer.invoke('skills:run', gatewayId, skillName)
   }
 }
 
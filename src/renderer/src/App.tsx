@@ -1,33 +1,56 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
-import { Activity, Clock, MessageSquare, Sunrise, LayoutDashboard, X, Menu, Sparkles } from 'lucide-react'
+import {
+  Activity,
+  Bell,
+  Clock,
+  MessageSquare,
+  Sunrise,
+  LayoutDashboard,
+  X,
+  Menu,
+  Sparkles,
+  Workflow,
+  Settings as SettingsIcon
+} from 'lucide-react'
 import './App.css'
 import Sidebar from './components/Sidebar'
 import Dashboard from './components/Dashboard'
 import FilteredEvents from './components/FilteredEvents'
+import Runs from './components/Runs'
 import CronJobs from './components/CronJobs'
 import SendMessage from './components/SendMessage'
 import BriefingViewer from './components/BriefingViewer'
 import Skills from './components/Skills'
+import Settings from './components/Settings'
+import Alerts from './components/Alerts'
 import ErrorBoundary from './components/ErrorBoundary'
-
-interface GatewayStatus {
-  connected: boolean
-  url: string
-}
+import {
+  ALL_GATEWAYS,
+  describeStatus,
+  formatLastHeard,
+  isTerminalState,
+  statusTone
+} from './lib/gatewayStatus'
+import type { GatewaySummary } from '../../shared/gateway'
 
 const TABS = [
   { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { id: 'skills', label: 'Skills', icon: Sparkles },
   { id: 'events', label: 'Events', icon: Activity },
+  { id: 'runs', label: 'Runs', icon: Workflow },
   { id: 'cron', label: 'Cron Jobs', icon: Clock },
   { id: 'message', label: 'Send Message', icon: MessageSquare },
-  { id: 'briefing', label: 'Briefing', icon: Sunrise }
+  { id: 'briefing', label: 'Briefing', icon: Sunrise },
+  { id: 'alerts', label: 'Alerts', icon: Bell },
+  { id: 'settings', label: 'Settings', icon: SettingsIcon }
 ] as const
 
-type TabId = typeof TABS[number]['id']
+type TabId = (typeof TABS)[number]['id']
 
 function App(): React.JSX.Element {
-  const [status, setStatus] = useState<GatewayStatus>({ connected: false, url: 'ws://127.0.0.1:18789' })
+  const [gateways, setGateways] = useState<GatewaySummary[]>([])
+  const [selectedGateway, setSelectedGateway] = useState('')
+  const [now, setNow] = useState(() => Date.now())
   const [activeTab, setActiveTab] = useState<TabId>('dashboard')
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
@@ -35,19 +58,40 @@ function App(): React.JSX.Element {
 
   const currentTab = useMemo(() => TABS.find((t) => t.id === activeTab) || TABS[0], [activeTab])
 
+  const defaultGatewayId = useMemo(
+    () => (gateways.find((g) => g.isDefault) ?? gateways[0])?.id ?? '',
+    [gateways]
+  )
+  // Fall back to the default gateway if the selected one was removed
+  const viewGatewayId =
+    selectedGateway === ALL_GATEWAYS || gateways.some((g) => g.id === selectedGateway)
+      ? selectedGateway
+      : defaultGatewayId
+  const selected = gateways.find((g) => g.id === viewGatewayId)
+  // Views that need a single source (cron, skills, briefings) use the default in "all" mode
+  const sourceGatewayId = selected?.id ?? defaultGatewayId
+
   const handleConnect = useCallback(() => {
-    window.api.gateway.connect()
-  }, [])
+    if (selected) window.api.gateway.connect(selected.id)
+  }, [selected])
 
   const handleDisconnect = useCallback(() => {
-    window.api.gateway.disconnect()
-  }, [])
+    if (selected) window.api.gateway.disconnect(selected.id)
+  }, [selected])
 
   const handleTabChange = useCallback((tabId: string) => {
     setActiveTab(tabId as TabId)
     setMobileMenuOpen(false)
   }, [])
 
+  // Alerts link to the tab and gateway they are about
+  const handleOpenAlert = useCallback((record: { tab: string; gatewayId: string }) => {
+    setActiveTab(record.tab as TabId)
+    setSelectedGateway(record.gatewayId)
+  }, [])
+
+  useEffect(() => window.api.alerts.onOpen(handleOpenAlert), [handleOpenAlert])
+
   const handleSidebarCollapse = useCallback((collapsed: boolean) => {
     setSidebarCollapsed(collapsed)
   }, [])
@@ -63,11 +107,11 @@ function App(): React.JSX.Element {
   useEffect(() => {
     let mounted = true
 
-    const loadStatus = async () => {
+    const loadGateways = async (): Promise<void> => {
       try {
-        const result = await window.api.gateway.status()
+        const result = await window.api.gateway.list()
         if (mounted) {
-          setStatus(result)
+          setGateways(result)
           setIsLoading(false)
         }
       } catch (error) {
@@ -78,20 +122,62 @@ function App(): React.JSX.Element {
       }
     }
 
-    loadStatus()
+    loadGateways()
 
-    const unsubscribe = window.api.gateway.onStatusChange((newStatus) => {
+    const unsubscribeStatus = window.api.gateway.onStatusChange((summary) => {
+      if (!mounted) return
+      setGateways((prev) => {
+        const index = prev.findIndex((g) => g.id === summary.id)
+        if (index === -1) return [...prev, summary]
+        const next = [...prev]
+        next[index] = summary
+        return summary.isDefault
+          ? next.map((g) => ({ ...g, isDefault: g.id === summary.id }))
+          : next
+      })
+    })
+
+    const unsubscribeRemoved = window.api.gateway.onRemoved((gatewayId) => {
       if (mounted) {
-        setStatus(newStatus)
+        setGateways((prev) => prev.filter((g) => g.id !== gatewayId))
       }
     })
 
     return () => {
       mounted = false
-      unsubscribe()
+      unsubscribeStatus()
+      unsubscribeRemoved()
     }
   }, [])
 
+  const anyLive = gateways.some(
+    (g) => g.status.state === 'backoff' || g.status.state === 'connected'
+  )
+
+  // Tick once a second so the retry countdown and last-heard label stay current
+  useEffect(() => {
+    if (!anyLive) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [anyLive])
+
+  let tone: 'connected' | 'pending' | 'disconnected'
+  let statusText: string
+  if (selected) {
+    tone = statusTone(selected.status.state)
+    statusText = describeStatus(selected.status, now)
+  } else {
+    const connectedCount = gateways.filter((g) => g.status.connected).length
+    tone =
+      connectedCount === gateways.length && gateways.length > 0
+        ? 'connected'
+        : connectedCount > 0
+          ? 'pending'
+          : 'disconnected'
+    statusText = `${connectedCount}/${gateways.length} connected`
+  }
+  const status = selected?.status
+
   return (
     <div className="app">
       <Sidebar
@@ -102,16 +188,14 @@ function App(): React.JSX.Element {
         onCollapsedChange={handleSidebarCollapse}
         mobileOpen={mobileMenuOpen}
         onMobileClose={handleMobileClose}
+        statusText={statusText}
+        statusTone={tone}
       />
 
       <div className={`main-content ${sidebarCollapsed ? 'collapsed' : ''}`}>
         <header className="header">
           <div className="header-left">
-            <button
-              className="menu-toggle"
-              onClick={handleMobileToggle}
-              aria-label="Toggle menu"
-            >
+            <button className="menu-toggle" onClick={handleMobileToggle} aria-label="Toggle menu">
               {mobileMenuOpen ? <X /> : <Menu />}
             </button>
             <div className="header-title">
@@ -121,41 +205,93 @@ function App(): React.JSX.Element {
           </div>
 
           <div className="header-right">
+            {gateways.length > 0 && (
+              <select
+                className="gateway-switcher"
+                value={viewGatewayId}
+                onChange={(e) => setSelectedGateway(e.target.value)}
+                aria-label="Select gateway"
+              >
+                {gateways.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    {g.name}
+                  </option>
+                ))}
+                {gateways.length > 1 && <option value={ALL_GATEWAYS}>All gateways</option>}
+              </select>
+            )}
             {isLoading ? (
               <div className="status-badge">Loading...</div>
             ) : (
-              <div className={`status-badge ${status.connected ? 'connected' : 'disconnected'}`}>
-                <span className={`status-dot ${status.connected ? 'pulse' : ''}`}></span>
-                <span className="status-text">{status.connected ? 'Connected' : 'Disconnected'}</span>
+              <div className={`status-badge ${tone}`} title={status?.lastError || status?.url}>
+                <span className={`status-dot ${tone !== 'disconnected' ? 'pulse' : ''}`}></span>
+                <span className="status-text">{statusText}</span>
               </div>
             )}
-            {!status.connected ? (
-              <button className="btn btn-primary btn-sm" onClick={handleConnect} disabled={isLoading}>
-                Connect
-              </button>
-            ) : (
-              <button className="btn btn-secondary btn-sm" onClick={handleDisconnect}>
-                Disconnect
-              </button>
+            {status?.recording && (
+              <span className="rec-badge" title={`Recording to ${status.recording}`}>
+                REC
+              </span>
             )}
+            {status?.state === 'connected' && (
+              <div className="link-health" title="Heartbeat round-trip and last frame received">
+                <span className="link-latency">
+                  {status.latencyMs !== undefined ? `${status.latencyMs} ms` : '— ms'}
+                </span>
+                <span className="link-heard">
+                  heard {formatLastHeard(status.lastMessageAt, now)}
+                </span>
+                {status.protocol !== undefined && (
+                  <span
+                    className="link-protocol"
+                    title={status.serverVersion ? `Gateway ${status.serverVersion}` : undefined}
+                  >
+                    v{status.protocol}
+                  </span>
+                )}
+              </div>
+            )}
+            {status &&
+              (isTerminalState(status.state) || status.state === 'backoff' ? (
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={handleConnect}
+                  disabled={isLoading}
+                >
+                  Connect
+                </button>
+              ) : (
+                <button className="btn btn-secondary btn-sm" onClick={handleDisconnect}>
+                  Disconnect
+                </button>
+              ))}
           </div>
         </header>
 
         <main className="content">
           <ErrorBoundary>
-            {activeTab === 'dashboard' && <Dashboard />}
-            {activeTab === 'skills' && <Skills />}
-            {activeTab === 'events' && <FilteredEvents />}
-            {activeTab === 'cron' && <CronJobs />}
+            {activeTab === 'dashboard' && (
+              <Dashboard key={viewGatewayId} gatewayId={viewGatewayId} gateways={gateways} />
+            )}
+            {activeTab === 'skills' && <Skills key={sourceGatewayId} gatewayId={sourceGatewayId} />}
+            {activeTab === 'events' && (
+              <FilteredEvents key={viewGatewayId} gatewayId={viewGatewayId} gateways={gateways} />
+            )}
+            {activeTab === 'runs' && (
+              <Runs key={viewGatewayId} gatewayId={viewGatewayId} gateways={gateways} />
+            )}
+            {activeTab === 'cron' && <CronJobs key={sourceGatewayId} gatewayId={sourceGatewayId} />}
             {activeTab === 'message' && <SendMessage />}
-            {activeTab === 'briefing' && <BriefingViewer />}
+            {activeTab === 'briefing' && (
+              <BriefingViewer key={sourceGatewayId} gatewayId={sourceGatewayId} />
+            )}
+            {activeTab === 'alerts' && <Alerts gateways={gateways} onOpen={handleOpenAlert} />}
+            {activeTab === 'settings' && <Settings />}
           </ErrorBoundary>
         </main>
       </div>
 
-      {mobileMenuOpen && (
-        <div className="mobile-overlay" onClick={handleMobileClose} />
-      )}
+      {mobileMenuOpen && <div className="mobile-overlay" onClick={handleMobileClose} />}
     </div>
   )
 }
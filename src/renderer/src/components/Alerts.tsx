@@ -0,0 +1,454 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Bell, BellOff, History, Pencil, Plus, Trash2 } from 'lucide-react'
+import './Alerts.css'
+import LoadingSkeleton from './LoadingSkeleton'
+import type { GatewaySummary } from '../../../shared/gateway'
+
+type AlertSeverity = 'info' | 'warning' | 'critical'
+
+type AlertCondition =
+  | { kind: 'cronFailed'; job?: string }
+  | { kind: 'silence'; minutes: number }
+  | { kind: 'disconnected'; minutes: number }
+  | { kind: 'payloadMatch'; pattern: string; types?: string }
+
+interface AlertRule {
+  id: string
+  name: string
+  enabled: boolean
+  gatewayId: string
+  severity: AlertSeverity
+  cooldownMinutes: number
+  condition: AlertCondition
+}
+
+interface AlertRecord {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: AlertSeverity
+  gatewayId: string
+  message: string
+  firedAt: number
+  tab: 'dashboard' | 'events' | 'cron'
+}
+
+interface RuleDraft {
+  id?: string
+  name: string
+  enabled: boolean
+  gatewayId: string
+  severity: AlertSeverity
+  cooldownMinutes: string
+  kind: AlertCondition['kind']
+  job: string
+  minutes: string
+  pattern: string
+  types: string
+}
+
+interface AlertsProps {
+  gateways: GatewaySummary[]
+  /** Shows what an alert from the history is about. */
+  onOpen: (record: AlertRecord) => void
+}
+
+const CONDITION_LABELS: Record<AlertCondition['kind'], string> = {
+  cronFailed: 'Cron job failed',
+  silence: 'No events for a while',
+  disconnected: 'Gateway disconnected',
+  payloadMatch: 'Payload matches pattern'
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  enabled: true,
+  gatewayId: 'all',
+  severity: 'warning',
+  cooldownMinutes: '15',
+  kind: 'cronFailed',
+  job: '',
+  minutes: '30',
+  pattern: '',
+  types: ''
+}
+
+function toDraft(rule: AlertRule): RuleDraft {
+  const condition = rule.condition
+  return {
+    ...EMPTY_DRAFT,
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    gatewayId: rule.gatewayId,
+    severity: rule.severity,
+    cooldownMinutes: String(rule.cooldownMinutes),
+    kind: condition.kind,
+    job: condition.kind === 'cronFailed' ? (condition.job ?? '') : '',
+    minutes:
+      condition.kind === 'silence' || condition.kind === 'disconnected'
+        ? String(condition.minutes)
+        : EMPTY_DRAFT.minutes,
+    pattern: condition.kind === 'payloadMatch' ? condition.pattern : '',
+    types: condition.kind === 'payloadMatch' ? (condition.types ?? '') : ''
+  }
+}
+
+function toCondition(draft: RuleDraft): AlertCondition {
+  switch (draft.kind) {
+    case 'cronFailed':
+      return { kind: 'cronFailed', job: draft.job.trim() || undefined }
+    case 'silence':
+    case 'disconnected':
+      return { kind: draft.kind, minutes: Number(draft.minutes) }
+    case 'payloadMatch':
+      return {
+        kind: 'payloadMatch',
+        pattern: draft.pattern,
+        types: draft.types.trim() || undefined
+      }
+  }
+}
+
+function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'cronFailed':
+      return condition.job ? `Cron job "${condition.job}" fails` : 'Any cron job fails'
+    case 'silence':
+      return `No events for ${condition.minutes} min`
+    case 'disconnected':
+      return `Disconnected for more than ${condition.minutes} min`
+    case 'payloadMatch':
+      return `Payload matches ${condition.pattern}${condition.types ? ` in ${condition.types}` : ''}`
+  }
+}
+
+export default function Alerts({ gateways, onOpen }: AlertsProps): React.JSX.Element {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [history, setHistory] = useState<AlertRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const gatewayNames = useMemo(() => new Map(gateways.map((g) => [g.id, g.name])), [gateways])
+
+  useEffect(() => {
+    let mounted = true
+    Promise.all([window.api.alerts.rules(), window.api.alerts.history()])
+      .then(([rulesResult, historyResult]) => {
+        if (!mounted) return
+        setRules(rulesResult)
+        setHistory(historyResult)
+      })
+      .catch((err) => {
+        console.error('Failed to load alerts:', err)
+        if (mounted) setError('Failed to load alerts')
+      })
+      .finally(() => mounted && setLoading(false))
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  useEffect(() => {
+    return window.api.alerts.onFired((record) => setHistory((prev) => [record, ...prev]))
+  }, [])
+
+  const runAction = useCallback(
+    async (action: () => Promise<{ success: boolean; error?: string }>) => {
+      setBusy(true)
+      setError(null)
+      try {
+        const result = await action()
+        if (!result.success) {
+          setError(result.error || 'Operation failed')
+          return false
+        }
+        setRules(await window.api.alerts.rules())
+        return true
+      } finally {
+        setBusy(false)
+      }
+    },
+    []
+  )
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return
+    const saved = await runAction(() =>
+      window.api.alerts.save({
+        id: draft.id,
+        name: draft.name,
+        enabled: draft.enabled,
+        gatewayId: draft.gatewayId,
+        severity: draft.severity,
+        cooldownMinutes: Number(draft.cooldownMinutes),
+        condition: toCondition(draft)
+      })
+    )
+    if (saved) setDraft(null)
+  }, [draft, runAction])
+
+  const handleToggle = useCallback(
+    (rule: AlertRule) => {
+      runAction(() => window.api.alerts.save({ ...rule, enabled: !rule.enabled }))
+    },
+    [runAction]
+  )
+
+  const handleDelete = useCallback(
+    (rule: AlertRule) => {
+      if (!window.confirm(`Delete alert rule "${rule.name}"?`)) return
+      runAction(() => window.api.alerts.delete(rule.id))
+    },
+    [runAction]
+  )
+
+  const handleClearHistory = useCallback(async () => {
+    const result = await window.api.alerts.clearHistory()
+    if (result.success) {
+      setHistory([])
+    } else {
+      setError(result.error || 'Failed to clear history')
+    }
+  }, [])
+
+  const updateDraft = (patch: Partial<RuleDraft>): void => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  if (loading) {
+    return <LoadingSkeleton variant="list" count={4} />
+  }
+
+  return (
+    <div className="alerts-view">
+      <section className="alerts-card">
+        <div className="alerts-card-header">
+          <Bell className="alerts-card-icon" />
+          <h3>Alert Rules</h3>
+          <button
+            className="btn btn-secondary btn-sm alerts-header-action"
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            disabled={busy}
+          >
+            <Plus className="btn-icon" />
+            New rule
+          </button>
+        </div>
+        <p className="alerts-hint">
+          Rules run in the background and raise a desktop notification, even while this window is
+          hidden.
+        </p>
+
+        <div className="alert-rule-list">
+          {rules.length === 0 && <div className="empty-state-sm">No alert rules yet</div>}
+          {rules.map((rule) => (
+            <div key={rule.id} className={`alert-rule ${rule.enabled ? '' : 'disabled'}`}>
+              <div className="alert-rule-info">
+                <div className="alert-rule-name">
+                  {rule.name}
+                  <span className={`alert-severity ${rule.severity}`}>{rule.severity}</span>
+                </div>
+                <div className="alert-rule-meta">
+                  {describeCondition(rule.condition)} ·{' '}
+                  {rule.gatewayId === 'all'
+                    ? 'all gateways'
+                    : (gatewayNames.get(rule.gatewayId) ?? rule.gatewayId)}{' '}
+                  · cooldown {rule.cooldownMinutes} min
+                </div>
+              </div>
+              <div className="alert-rule-actions">
+                <button
+                  className="alert-icon-btn"
+                  onClick={() => handleToggle(rule)}
+                  title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                  disabled={busy}
+                >
+                  {rule.enabled ? <Bell /> : <BellOff />}
+                </button>
+                <button
+                  className="alert-icon-btn"
+                  onClick={() => setDraft(toDraft(rule))}
+                  title="Edit rule"
+                  disabled={busy}
+                >
+                  <Pencil />
+                </button>
+                <button
+                  className="alert-icon-btn"
+                  onClick={() => handleDelete(rule)}
+                  title="Delete rule"
+                  disabled={busy}
+                >
+                  <Trash2 />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {draft && (
+          <div className="alert-form">
+            <label className="alert-field">
+              <span>Name</span>
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Briefing failed"
+              />
+            </label>
+            <label className="alert-field">
+              <span>When</span>
+              <select
+                value={draft.kind}
+                onChange={(e) => updateDraft({ kind: e.target.value as RuleDraft['kind'] })}
+              >
+                {Object.entries(CONDITION_LABELS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {draft.kind === 'cronFailed' && (
+              <label className="alert-field">
+                <span>Job id or name</span>
+                <input
+                  value={draft.job}
+                  onChange={(e) => updateDraft({ job: e.target.value })}
+                  placeholder="Any job"
+                />
+              </label>
+            )}
+            {(draft.kind === 'silence' || draft.kind === 'disconnected') && (
+              <label className="alert-field">
+                <span>For at least (minutes)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.minutes}
+                  onChange={(e) => updateDraft({ minutes: e.target.value })}
+                />
+              </label>
+            )}
+            {draft.kind === 'payloadMatch' && (
+              <>
+                <label className="alert-field">
+                  <span>Pattern</span>
+                  <input
+                    className="mono"
+                    value={draft.pattern}
+                    onChange={(e) => updateDraft({ pattern: e.target.value })}
+                    placeholder="/error/i"
+                  />
+                </label>
+                <label className="alert-field">
+                  <span>Event types</span>
+                  <input
+                    className="mono"
+                    value={draft.types}
+                    onChange={(e) => updateDraft({ types: e.target.value })}
+                    placeholder="All types, or a glob like agent.*"
+                  />
+                </label>
+              </>
+            )}
+            <label className="alert-field">
+              <span>Gateway</span>
+              <select
+                value={draft.gatewayId}
+                onChange={(e) => updateDraft({ gatewayId: e.target.value })}
+              >
+                <option value="all">All gateways</option>
+                {gateways.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    {g.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="alert-field-row">
+              <label className="alert-field">
+                <span>Severity</span>
+                <select
+                  value={draft.severity}
+                  onChange={(e) => updateDraft({ severity: e.target.value as AlertSeverity })}
+                >
+                  <option value="info">Info</option>
+                  <option value="warning">Warning</option>
+                  <option value="critical">Critical</option>
+                </select>
+              </label>
+              <label className="alert-field">
+                <span>Cooldown (minutes)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.cooldownMinutes}
+                  onChange={(e) => updateDraft({ cooldownMinutes: e.target.value })}
+                />
+              </label>
+            </div>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => updateDraft({ enabled: e.target.checked })}
+              />
+              <span>Enabled</span>
+            </label>
+            <div className="alert-form-actions">
+              <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={busy}>
+                {draft.id ? 'Save changes' : 'Create rule'}
+              </button>
+              <button className="btn btn-secondary btn-sm" onClick={() => setDraft(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <div className="alerts-error">{error}</div>}
+      </section>
+
+      <section className="alerts-card">
+        <div className="alerts-card-header">
+          <History className="alerts-card-icon" />
+          <h3>History</h3>
+          <button
+            className="btn btn-secondary btn-sm alerts-header-action"
+            onClick={handleClearHistory}
+            disabled={history.length === 0}
+          >
+            Clear
+          </button>
+        </div>
+        <div className="alert-history">
+          {history.length === 0 && <div className="empty-state-sm">No alerts have fired</div>}
+          {history.map((record) => (
+            <button
+              key={record.id}
+              className={`alert-history-item ${record.severity}`}
+              onClick={() => onOpen(record)}
+              title="Show what this alert is about"
+            >
+              <div className="alert-history-header">
+                <span className={`alert-severity ${record.severity}`}>{record.severity}</span>
+                <span className="alert-history-rule">{record.ruleName}</span>
+                <span className="alert-history-time">
+                  {new Date(record.firedAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="alert-history-message">{record.message}</div>
+              <div className="alert-history-gateway">
+                {gatewayNames.get(record.gatewayId) ?? record.gatewayId}
+              </div>
+            </button>
+          ))}
+        </div>
+      </section>
+    </div>
+  )
+}
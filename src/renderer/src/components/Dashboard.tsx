@@ -1,255 +1,457 @@
-import { useEffect, useState, useCallback, useRef } from 'react'
-import { Activity, Clock, Send, Sunrise, TrendingUp, Zap, AlertCircle, CheckCircle } from 'lucide-react'
-import './Dashboard.css'
-import LoadingSkeleton from './LoadingSkeleton'
-
-interface CronJob {
-  id: string
-  name: string
-  enabled: boolean
-  state: {
-    nextRunAtMs?: number
-    lastRunAtMs?: number
-    status?: string
-  }
-}
-
-interface StatCard {
-  title: string
-  value: string | number
-  icon: React.ComponentType<{ className?: string }>
-  trend?: string
-  color: 'orange' | 'blue' | 'green' | 'purple'
-}
-
-export default function Dashboard(): React.JSX.Element {
-  const [events, setEvents] = useState<unknown[]>([])
-  const [cronJobs, setCronJobs] = useState<CronJob[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const isLoadingRef = useRef(false)
-
-  // Memoize loadData with lock to prevent stacking
-  const loadData = useCallback(async () => {
-    if (isLoadingRef.current) return // Skip if already loading
-    isLoadingRef.current = true
-
-    try {
-      const [, eventsResult, cronResult] = await Promise.all([
-        window.api.gateway.status(),
-        window.api.gateway.events(),
-        window.api.cron.status()
-      ])
-      if (Array.isArray(eventsResult)) {
-        setEvents(eventsResult.slice(0, 100))
-      }
-      if (cronResult.success && Array.isArray(cronResult.jobs)) {
-        setCronJobs(cronResult.jobs as CronJob[])
-      }
-      setError(null)
-    } catch (err) {
-      console.error('Failed to load dashboard data:', err)
-      setError('Failed to load data')
-    } finally {
-      setLoading(false)
-      isLoadingRef.current = false
-    }
-  }, [])
-
-  // Proper cleanup with mounted flag
-  useEffect(() => {
-    let mounted = true
-
-    loadData()
-
-    const interval = setInterval(() => {
-      if (mounted) {
-        loadData()
-      }
-    }, 10000) // Increased from 5s to 10s
-
-    return () => {
-      mounted = false
-      clearInterval(interval)
-    }
-  }, [loadData])
-
-  const stats: StatCard[] = [
-    {
-      title: 'Events (24h)',
-      value: events.length,
-      icon: Activity,
-      color: 'blue',
-      trend: '+12%'
-    },
-    {
-      title: 'Active Jobs',
-      value: cronJobs.filter((j) => j.enabled).length,
-      icon: Clock,
-      color: 'purple'
-    },
-    {
-      title: 'Messages Sent',
-      value: '0',
-      icon: Send,
-      color: 'green',
-      trend: 'Today'
-    },
-    {
-      title: 'Briefings',
-      value: events.filter((e: any) => e?.type?.includes('morning')).length,
-      icon: Sunrise,
-      color: 'orange',
-      trend: 'This week'
-    }
-  ]
-
-  const nextJob = cronJobs
-    .filter((j) => j.enabled && j.state.nextRunAtMs)
-    .sort((a, b) => (a.state.nextRunAtMs || 0) - (b.state.nextRunAtMs || 0))[0]
-
-  const runningJobs = cronJobs.filter((j) => j.state.status === 'running')
-  const failedJobs = cronJobs.filter((j) => j.state.status === 'failed')
-
-  const formatNextRun = (ms?: number): string => {
-    if (!ms) return 'Not scheduled'
-    const diff = ms - Date.now()
-    if (diff <= 0) return 'Due now'
-    const minutes = Math.floor(diff / 60000)
-    if (minutes < 60) return `In ${minutes}m`
-    const hours = Math.floor(minutes / 60)
-    return `In ${hours}h ${minutes % 60}m`
-  }
-
-  if (loading) {
-    return <LoadingSkeleton variant="card" count={4} />
-  }
-
-  if (error) {
-    return (
-      <div className="error-state">
-        <p>{error}</p>
-        <button className="btn btn-primary btn-sm" onClick={loadData}>
-          Retry
-        </button>
-      </div>
-    )
-  }
-
-  return (
-    <div className="dashboard">
-      <div className="stats-grid">
-        {stats.map((stat, i) => {
-          const Icon = stat.icon
-          return (
-            <div key={i} className={`stat-card stat-${stat.color}`}>
-              <div className="stat-header">
-                <div className="stat-icon">
-                  <Icon />
-                </div>
-                {stat.trend && (
-                  <span className="stat-trend">
-                    <TrendingUp className="trend-icon" />
-                    {stat.trend}
-                  </span>
-                )}
-              </div>
-              <div className="stat-value">{stat.value}</div>
-              <div className="stat-label">{stat.title}</div>
-            </div>
-          )
-        })}
-      </div>
-
-      <div className="dashboard-grid">
-        <div className="dashboard-card">
-          <div className="card-header">
-            <h3>Quick Actions</h3>
-          </div>
-          <div className="quick-actions">
-            <button className="action-btn" onClick={() => window.api.gateway.connect()}>
-              <Zap className="action-icon" />
-              <span>Connect Gateway</span>
-            </button>
-            <button className="action-btn" onClick={() => window.api.gateway.clear()}>
-              <CheckCircle className="action-icon" />
-              <span>Clear Events</span>
-            </button>
-            <button className="action-btn" onClick={loadData}>
-              <Activity className="action-icon" />
-              <span>Refresh Data</span>
-            </button>
-          </div>
-        </div>
-
-        <div className="dashboard-card">
-          <div className="card-header">
-            <h3>Next Run</h3>
-          </div>
-          {nextJob ? (
-            <div className="next-run">
-              <Clock className="next-run-icon" />
-              <div className="next-run-info">
-                <div className="next-run-name">{nextJob.name}</div>
-                <div className="next-run-time">{formatNextRun(nextJob.state.nextRunAtMs)}</div>
-              </div>
-            </div>
-          ) : (
-            <div className="empty-state-sm">No upcoming runs</div>
-          )}
-        </div>
-
-        {(runningJobs.length > 0 || failedJobs.length > 0) && (
-          <div className="dashboard-card">
-            <div className="card-header">
-              <h3>Job Status</h3>
-            </div>
-            <div className="job-status-list">
-              {runningJobs.map((job) => (
-                <div key={job.id} className="job-status-item running">
-                  <Activity className="status-icon" />
-                  <span>{job.name}</span>
-                  <span className="status-badge">Running</span>
-                </div>
-              ))}
-              {failedJobs.map((job) => (
-                <div key={job.id} className="job-status-item failed">
-                  <AlertCircle className="status-icon" />
-                  <span>{job.name}</span>
-                  <span className="status-badge">Failed</span>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-      </div>
-
-      <div className="dashboard-card">
-        <div className="card-header">
-          <h3>Recent Activity</h3>
-          <button className="text-btn" onClick={() => (window as any).location.hash = '#events'}>
-            View All
-          </button>
-        </div>
-        <div className="activity-list">
-          {events.slice(0, 5).map((event: any, i) => (
-            <div key={i} className="activity-item">
-              <div className="activity-time">
-                {event.timestamp ? new Date(event.timestamp).toLocaleTimeString() : '-'}
-              </div>
-              <div className="activity-details">
-                <div className="activity-type">{event.type || event.event || 'unknown'}</div>
-                {event.payload && typeof event.payload === 'string' && (
-                  <div className="activity-preview">{event.payload.slice(0, 100)}</div>
-                )}
-              </div>
-            </div>
-          ))}
-          {events.length === 0 && (
-            <div className="empty-state-sm">No recent activity</div>
-          )}
-        </div>
-      </div>
-    </div>
-  )
-}
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react'
+import {
+  Activity,
+  Clock,
+  Send,
+  Sunrise,
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  Zap,
+  AlertCircle,
+  CheckCircle,
+  Server
+} from 'lucide-react'
+import './Dashboard.css'
+import LoadingSkeleton from './LoadingSkeleton'
+import { stateLabel, statusTone } from '../lib/gatewayStatus'
+import type { GatewaySummary } from '../../../shared/gateway'
+import { decodeEvent, summarizeEvent, type DecodableEvent } from '../lib/eventDecoders'
+
+interface CronJob {
+  id: string
+  name: string
+  enabled: boolean
+  state: {
+    nextRunAtMs?: number
+    lastRunAtMs?: number
+    status?: string
+  }
+}
+
+interface Trend {
+  label: string
+  direction: 'up' | 'down' | 'flat'
+}
+
+interface StatCard {
+  title: string
+  value: string | number
+  icon: React.ComponentType<{ className?: string }>
+  trend?: Trend
+  /** Counts per bucket, oldest first, drawn as a sparkline. */
+  series?: number[]
+  color: 'orange' | 'blue' | 'green' | 'purple'
+}
+
+interface MetricsResult {
+  start: number
+  step: number
+  series: Partial<Record<string, number[]>>
+}
+
+const HOURS_PER_DAY = 24
+const BRIEFING_DAYS = 7
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+// Sums consecutive runs of `size` buckets, e.g. hours into days
+function rollUp(values: number[], size: number): number[] {
+  const rolled: number[] = []
+  for (let i = 0; i < values.length; i += size) rolled.push(sum(values.slice(i, i + size)))
+  return rolled
+}
+
+// Change of the current window against the one before it
+function trendOf(current: number, previous: number): Trend {
+  if (previous === 0) {
+    return current === 0
+      ? { label: 'No change', direction: 'flat' }
+      : { label: 'New', direction: 'up' }
+  }
+  const change = Math.round(((current - previous) / previous) * 100)
+  if (change === 0) return { label: '0%', direction: 'flat' }
+  return { label: `${change > 0 ? '+' : ''}${change}%`, direction: change > 0 ? 'up' : 'down' }
+}
+
+interface DashboardProps {
+  /** Gateway to summarise, or `all` to compare every gateway. */
+  gatewayId: string
+  gateways: GatewaySummary[]
+}
+
+export default function Dashboard({ gatewayId, gateways }: DashboardProps): React.JSX.Element {
+  const [events, setEvents] = useState<unknown[]>([])
+  const [jobsByGateway, setJobsByGateway] = useState<Record<string, CronJob[]>>({})
+  // Hourly buckets for the last 48 hours, and 14 days for briefings
+  const [hourly, setHourly] = useState<MetricsResult | null>(null)
+  const [briefings, setBriefings] = useState<number[]>([])
+  const [eventsByGateway, setEventsByGateway] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const isLoadingRef = useRef(false)
+
+  // Only refetch when the set of gateways changes, not on every status update
+  const gatewayIdKey = gateways.map((g) => g.id).join(',')
+  const gatewayIds = useMemo(() => (gatewayIdKey ? gatewayIdKey.split(',') : []), [gatewayIdKey])
+  const cronJobs = useMemo(() => Object.values(jobsByGateway).flat(), [jobsByGateway])
+  const recentActivity = useMemo(
+    () =>
+      (events as DecodableEvent[]).slice(0, 5).map((event) => ({
+        event,
+        summary: summarizeEvent(event),
+        severity: decodeEvent(event)?.severity ?? 'info'
+      })),
+    [events]
+  )
+
+  // Memoize loadData with lock to prevent stacking
+  const loadData = useCallback(async () => {
+    if (isLoadingRef.current) return // Skip if already loading
+    isLoadingRef.current = true
+
+    try {
+      const ids = gatewayId === 'all' ? gatewayIds : [gatewayId]
+      const [eventsResult, hourlyResult, briefingResult, ...cronResults] = await Promise.all([
+        window.api.gateway.events(gatewayId, 100),
+        window.api.metrics.query({
+          series: ['events', 'agent.sends', 'cron.completed', 'cron.failed'],
+          resolution: 'hour',
+          buckets: 2 * HOURS_PER_DAY,
+          gatewayId
+        }),
+        window.api.metrics.query({
+          series: ['briefings'],
+          resolution: 'hour',
+          buckets: 2 * BRIEFING_DAYS * HOURS_PER_DAY,
+          gatewayId
+        }),
+        ...ids.map((id) => window.api.cron.status(id))
+      ])
+      if (Array.isArray(eventsResult)) {
+        setEvents([...eventsResult].reverse())
+      }
+      setHourly(hourlyResult)
+      setBriefings(rollUp(briefingResult.series.briefings ?? [], HOURS_PER_DAY))
+      if (gatewayId === 'all') {
+        const perGateway = await Promise.all(
+          ids.map((id) =>
+            window.api.metrics.query({
+              series: ['events'],
+              resolution: 'hour',
+              buckets: HOURS_PER_DAY,
+              gatewayId: id
+            })
+          )
+        )
+        setEventsByGateway(
+          Object.fromEntries(ids.map((id, i) => [id, sum(perGateway[i].series.events ?? [])]))
+        )
+      }
+      const jobs: Record<string, CronJob[]> = {}
+      cronResults.forEach((cronResult, i) => {
+        if (cronResult.success && Array.isArray(cronResult.jobs)) {
+          jobs[ids[i]] = cronResult.jobs as CronJob[]
+        }
+      })
+      setJobsByGateway(jobs)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load dashboard data:', err)
+      setError('Failed to load data')
+    } finally {
+      setLoading(false)
+      isLoadingRef.current = false
+    }
+  }, [gatewayId, gatewayIds])
+
+  // Proper cleanup with mounted flag
+  useEffect(() => {
+    let mounted = true
+
+    loadData()
+
+    const interval = setInterval(() => {
+      if (mounted) {
+        loadData()
+      }
+    }, 10000) // Increased from 5s to 10s
+
+    return () => {
+      mounted = false
+      clearInterval(interval)
+    }
+  }, [loadData])
+
+  // Splits a 48 hour series into the last 24 hours and the 24 before them
+  const lastDay = (name: string): { current: number[]; previous: number } => {
+    const values = hourly?.series[name] ?? []
+    return {
+      current: values.slice(-HOURS_PER_DAY),
+      previous: sum(values.slice(0, -HOURS_PER_DAY))
+    }
+  }
+  const eventSeries = lastDay('events')
+  const sendSeries = lastDay('agent.sends')
+  const completedSeries = lastDay('cron.completed')
+  const failedSeries = lastDay('cron.failed')
+  const cronRuns = completedSeries.current.map((count, i) => count + failedSeries.current[i])
+  const failedRuns = sum(failedSeries.current)
+  const briefingWeek = briefings.slice(-BRIEFING_DAYS)
+
+  const stats: StatCard[] = [
+    {
+      title: 'Events (24h)',
+      value: sum(eventSeries.current),
+      icon: Activity,
+      color: 'blue',
+      trend: trendOf(sum(eventSeries.current), eventSeries.previous),
+      series: eventSeries.current
+    },
+    {
+      title: 'Active Jobs',
+      value: cronJobs.filter((j) => j.enabled).length,
+      icon: Clock,
+      color: 'purple',
+      trend:
+        failedRuns > 0
+          ? { label: `${failedRuns} failed (24h)`, direction: 'down' }
+          : { label: `${sum(cronRuns)} runs (24h)`, direction: 'flat' },
+      series: cronRuns
+    },
+    {
+      title: 'Messages Sent (24h)',
+      value: sum(sendSeries.current),
+      icon: Send,
+      color: 'green',
+      trend: trendOf(sum(sendSeries.current), sendSeries.previous),
+      series: sendSeries.current
+    },
+    {
+      title: 'Briefings (7d)',
+      value: sum(briefingWeek),
+      icon: Sunrise,
+      color: 'orange',
+      trend: trendOf(sum(briefingWeek), sum(briefings.slice(0, -BRIEFING_DAYS))),
+      series: briefingWeek
+    }
+  ]
+
+  const nextJob = cronJobs
+    .filter((j) => j.enabled && j.state.nextRunAtMs)
+    .sort((a, b) => (a.state.nextRunAtMs || 0) - (b.state.nextRunAtMs || 0))[0]
+
+  const runningJobs = cronJobs.filter((j) => j.state.status === 'running')
+  const failedJobs = cronJobs.filter((j) => j.state.status === 'failed')
+
+  const formatNextRun = (ms?: number): string => {
+    if (!ms) return 'Not scheduled'
+    const diff = ms - Date.now()
+    if (diff <= 0) return 'Due now'
+    const minutes = Math.floor(diff / 60000)
+    if (minutes < 60) return `In ${minutes}m`
+    const hours = Math.floor(minutes / 60)
+    return `In ${hours}h ${minutes % 60}m`
+  }
+
+  if (loading) {
+    return <LoadingSkeleton variant="card" count={4} />
+  }
+
+  if (error) {
+    return (
+      <div className="error-state">
+        <p>{error}</p>
+        <button className="btn btn-primary btn-sm" onClick={loadData}>
+          Retry
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard">
+      <div className="stats-grid">
+        {stats.map((stat, i) => {
+          const Icon = stat.icon
+          const TrendIcon =
+            stat.trend?.direction === 'up'
+              ? TrendingUp
+              : stat.trend?.direction === 'down'
+                ? TrendingDown
+                : Minus
+          return (
+            <div key={i} className={`stat-card stat-${stat.color}`}>
+              <div className="stat-header">
+                <div className="stat-icon">
+                  <Icon />
+                </div>
+                {stat.trend && (
+                  <span className={`stat-trend ${stat.trend.direction}`}>
+                    <TrendIcon className="trend-icon" />
+                    {stat.trend.label}
+                  </span>
+                )}
+              </div>
+              <div className="stat-value">{stat.value}</div>
+              <div className="stat-label">{stat.title}</div>
+              {stat.series && <Sparkline values={stat.series} />}
+            </div>
+          )
+        })}
+      </div>
+
+      {gatewayId === 'all' && (
+        <div className="dashboard-card">
+          <div className="card-header">
+            <h3>Gateways</h3>
+          </div>
+          <table className="gateway-compare">
+            <thead>
+              <tr>
+                <th>Gateway</th>
+                <th>State</th>
+                <th>Latency</th>
+                <th>Events (24h)</th>
+                <th>Active jobs</th>
+                <th>Failed jobs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gateways.map((g) => {
+                const jobs = jobsByGateway[g.id] ?? []
+                return (
+                  <tr key={g.id}>
+                    <td>
+                      <Server className="gateway-compare-icon" />
+                      {g.name}
+                    </td>
+                    <td>
+                      <span className={`gateway-state ${statusTone(g.status.state)}`}>
+                        {stateLabel(g.status.state)}
+                      </span>
+                    </td>
+                    <td>{g.status.latencyMs !== undefined ? `${g.status.latencyMs} ms` : '-'}</td>
+                    <td>{eventsByGateway[g.id] ?? 0}</td>
+                    <td>{jobs.filter((j) => j.enabled).length}</td>
+                    <td>{jobs.filter((j) => j.state.status === 'failed').length}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="dashboard-grid">
+        <div className="dashboard-card">
+          <div className="card-header">
+            <h3>Quick Actions</h3>
+          </div>
+          <div className="quick-actions">
+            <button
+              className="action-btn"
+              onClick={() =>
+                (gatewayId === 'all' ? gatewayIds : [gatewayId]).forEach((id) =>
+                  window.api.gateway.connect(id)
+                )
+              }
+            >
+              <Zap className="action-icon" />
+              <span>Connect Gateway</span>
+            </button>
+            <button className="action-btn" onClick={() => window.api.gateway.clear(gatewayId)}>
+              <CheckCircle className="action-icon" />
+              <span>Clear Events</span>
+            </button>
+            <button className="action-btn" onClick={loadData}>
+              <Activity className="action-icon" />
+              <span>Refresh Data</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="dashboard-card">
+          <div className="card-header">
+            <h3>Next Run</h3>
+          </div>
+          {nextJob ? (
+            <div className="next-run">
+              <Clock className="next-run-icon" />
+              <div className="next-run-info">
+                <div className="next-run-name">{nextJob.name}</div>
+                <div className="next-run-time">{formatNextRun(nextJob.state.nextRunAtMs)}</div>
+              </div>
+            </div>
+          ) : (
+            <div className="empty-state-sm">No upcoming runs</div>
+          )}
+        </div>
+
+        {(runningJobs.length > 0 || failedJobs.length > 0) && (
+          <div className="dashboard-card">
+            <div className="card-header">
+              <h3>Job Status</h3>
+            </div>
+            <div className="job-status-list">
+              {runningJobs.map((job) => (
+                <div key={job.id} className="job-status-item running">
+                  <Activity className="status-icon" />
+                  <span>{job.name}</span>
+                  <span className="status-badge">Running</span>
+                </div>
+              ))}
+              {failedJobs.map((job) => (
+                <div key={job.id} className="job-status-item failed">
+                  <AlertCircle className="status-icon" />
+                  <span>{job.name}</span>
+                  <span className="status-badge">Failed</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="dashboard-card">
+        <div className="card-header">
+          <h3>Recent Activity</h3>
+          <button className="text-btn" onClick={() => (window as any).location.hash = '#events'}>
+            View All
+          </button>
+        </div>
+        <div className="activity-list">
+          {recentActivity.map(({ event, summary, severity }, i) => (
+            <div key={i} className={`activity-item severity-${severity}`}>
+              <div className="activity-time">
+                {event.timestamp ? new Date(event.timestamp).toLocaleTimeString() : '-'}
+              </div>
+              <div className="activity-details">
+                <div className="activity-type">{event.type || event.event || 'unknown'}</div>
+                {summary && <div className="activity-preview">{summary}</div>}
+              </div>
+            </div>
+          ))}
+          {events.length === 0 && (
+            <div className="empty-state-sm">No recent activity</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function Sparkline({ values }: { values: number[] }): React.JSX.Element | null {
+  if (values.length < 2) return null
+  const max = Math.max(...values, 1)
+  const step = 100 / (values.length - 1)
+  const points = values.map((value, i) => `${i * step},${24 - (value / max) * 22}`).join(' ')
+  return (
+    <svg className="stat-sparkline" viewBox="0 0 100 24" preserveAspectRatio="none" aria-hidden>
+      <polygon className="stat-sparkline-area" points={`0,24 ${points} 100,24`} />
+      <polyline className="stat-sparkline-line" points={points} />
+    </svg>
+  )
+}
@@ -0,0 +1,75 @@
+import { createElement, useMemo, useState } from 'react'
+import { Activity, Clock, Globe, Send, Bot, MessageSquare, HeartPulse, Users } from 'lucide-react'
+import { decodeEvent } from '../lib/eventDecoders'
+import './EventCard.css'
+
+export interface EventCardEvent {
+  type: string
+  event?: string
+  payload?: unknown
+  timestamp?: number
+  gatewayId?: string
+}
+
+interface EventCardProps {
+  event: EventCardEvent
+  /** Gateway name to badge the card with in merged views. */
+  origin?: string
+  formatTime: (timestamp: number) => string
+}
+
+function getEventIcon(type: string): React.ComponentType<{ className?: string }> {
+  if (type.includes('cron')) return Clock
+  if (type.includes('gateway')) return Globe
+  if (type.includes('telegram')) return Send
+  if (type.includes('agent')) return Bot
+  if (type.includes('chat')) return MessageSquare
+  if (type.includes('health') || type.includes('tick')) return HeartPulse
+  if (type.includes('presence')) return Users
+  return Activity
+}
+
+function rawPayload(payload: unknown): string {
+  return typeof payload === 'string' ? payload : (JSON.stringify(payload, null, 2) ?? '')
+}
+
+/**
+ * One event as a card: decoded summary and body for known types, the raw
+ * payload for everything else. Decoded cards can be flipped to raw JSON.
+ */
+export default function EventCard({
+  event,
+  origin,
+  formatTime
+}: EventCardProps): React.JSX.Element {
+  const [showRaw, setShowRaw] = useState(false)
+  const decoded = useMemo(() => decodeEvent(event), [event])
+  const type = event.type || event.event || 'unknown'
+  const hasPayload = event.payload !== undefined && event.payload !== null
+
+  return (
+    <div className={`event-card severity-${decoded?.severity ?? 'info'}`}>
+      <div className="event-header">
+        {createElement(getEventIcon(type), { className: 'event-icon' })}
+        <span className="event-type">{type}</span>
+        {origin && <span className="event-origin">{origin}</span>}
+        {decoded && hasPayload && (
+          <button
+            className={`event-raw-toggle ${showRaw ? 'active' : ''}`}
+            onClick={() => setShowRaw((raw) => !raw)}
+            aria-pressed={showRaw}
+          >
+            JSON
+          </button>
+        )}
+        <span className="event-time">{event.timestamp ? formatTime(event.timestamp) : '-'}</span>
+      </div>
+      {decoded && <div className="event-summary">{decoded.summary}</div>}
+      {decoded && !showRaw ? (
+        <div className="event-body">{decoded.render()}</div>
+      ) : (
+        hasPayload && <pre className="event-data">{rawPayload(event.payload)}</pre>
+      )}
+    </div>
+  )
+}
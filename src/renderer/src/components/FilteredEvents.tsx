@@ -1,195 +1,609 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
-import { Activity, Clock, Globe, Send, Bot } from 'lucide-react'
-import './FilteredEvents.css'
-import LoadingSkeleton from './LoadingSkeleton'
-
-interface GatewayEvent {
-  type: string
-  event?: string
-  payload?: unknown
-  seq?: number
-  stateVersion?: number
-  timestamp?: number
-}
-
-const EVENT_FILTERS = [
-  { id: 'all', label: 'All Events', icon: Activity },
-  { id: 'cron', label: 'Cron Jobs', icon: Clock },
-  { id: 'gateway', label: 'Gateway', icon: Globe },
-  { id: 'telegram', label: 'Telegram', icon: Send },
-  { id: 'agent', label: 'Agent', icon: Bot }
-] as const
-
-function getEventIcon(type: string): React.ComponentType<{ className?: string }> {
-  if (type.includes('cron')) return Clock
-  if (type.includes('gateway')) return Globe
-  if (type.includes('telegram')) return Send
-  if (type.includes('agent')) return Bot
-  return Activity
-}
-
-export default function FilteredEvents(): React.JSX.Element {
-  const [events, setEvents] = useState<GatewayEvent[]>([])
-  const [filter, setFilter] = useState('all')
-  const [autoScroll, setAutoScroll] = useState(true)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  // Memoize filtered events to prevent recalculation
-  const filteredEvents = useMemo(() => {
-    if (filter === 'all') return events
-    return events.filter((event) => {
-      const eventType = event.type || event.event || ''
-      return eventType.toLowerCase().includes(filter)
-    })
-  }, [events, filter])
-
-  // Memoize format function
-  const formatTimestamp = useCallback((timestamp: number): string => {
-    return new Date(timestamp).toLocaleTimeString()
-  }, [])
-
-  // Stable event handler with proper cleanup
-  const handleEvent = useCallback((event: GatewayEvent) => {
-    setEvents((prev) => {
-      const updated = [event, ...prev].slice(0, 100)
-      if (autoScroll) {
-        // Use requestAnimationFrame to ensure DOM is ready
-        requestAnimationFrame(() => {
-          const container = document.querySelector('.filtered-events-list')
-          if (container) {
-            container.scrollTop = 0
-          }
-        })
-      }
-      return updated
-    })
-  }, [autoScroll])
-
-  // Load events with error handling
-  const loadEvents = useCallback(async () => {
-    setIsLoading(true)
-    setError(null)
-    try {
-      const result = await window.api.gateway.events()
-      setEvents(result)
-    } catch (err) {
-      console.error('Failed to load events:', err)
-      setError('Failed to load events')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
-
-  // Handle clear with error handling
-  const handleClear = useCallback(async () => {
-    try {
-      await window.api.gateway.clear()
-      setEvents([])
-    } catch (err) {
-      console.error('Failed to clear events:', err)
-      setError('Failed to clear events')
-    }
-  }, [])
-
-  // Initial load and event listener setup with proper cleanup
-  useEffect(() => {
-    loadEvents()
-
-    const unsubscribe = window.api.gateway.onEvent(handleEvent)
-
-    return () => {
-      unsubscribe()
-    }
-  }, [handleEvent, loadEvents])
-
-  if (isLoading) {
-    return <LoadingSkeleton variant="list" count={5} />
-  }
-
-  if (error) {
-    return (
-      <div className="error-state">
-        <p>{error}</p>
-        <button className="btn btn-primary btn-sm" onClick={loadEvents}>
-          Retry
-        </button>
-      </div>
-    )
-  }
-
-  return (
-    <div className="filtered-events">
-      <div className="events-toolbar">
-        <div className="filter-tabs">
-          {EVENT_FILTERS.map((f) => (
-            <button
-              key={f.id}
-              className={`filter-tab ${filter === f.id ? 'active' : ''}`}
-              onClick={() => setFilter(f.id)}
-              aria-pressed={filter === f.id}
-              aria-label={`Show ${f.label.toLowerCase()}`}
-            >
-              <f.icon className="filter-icon" />
-              <span className="filter-label">{f.label}</span>
-              <span className="filter-count">
-                {f.id === 'all'
-                  ? events.length
-                  : events.filter((e) => {
-                      const eventType = e.type || e.event || ''
-                      return eventType.toLowerCase().includes(f.id)
-                    }).length}
-              </span>
-            </button>
-          ))}
-        </div>
-
-        <div className="toolbar-actions">
-          <label className="checkbox-label">
-            <input
-              type="checkbox"
-              checked={autoScroll}
-              onChange={(e) => setAutoScroll(e.target.checked)}
-              aria-label="Enable auto-scroll"
-            />
-            <span>Auto-scroll</span>
-          </label>
-          <button className="btn btn-secondary" onClick={handleClear}>
-            Clear
-          </button>
-        </div>
-      </div>
-
-      <div className="filtered-events-list">
-        {filteredEvents.length === 0 ? (
-          <div className="empty-state">
-            <p>No events yet</p>
-            <p className="empty-hint">Events will appear when the Gateway is active</p>
-          </div>
-        ) : (
-          filteredEvents.map((event, index) => {
-            const Icon = getEventIcon(event.type || event.event || '')
-            return (
-              <div key={`${event.seq || index}-${event.timestamp || Date.now()}`} className="event-card">
-                <div className="event-header">
-                  <Icon className="event-icon" />
-                  <span className="event-type">{event.type || event.event || 'unknown'}</span>
-                  <span className="event-time">
-                    {event.timestamp ? formatTimestamp(event.timestamp) : '-'}
-                  </span>
-                </div>
-                {event.payload !== undefined && event.payload !== null && (
-                  <pre className="event-data">
-                    {typeof event.payload === 'string'
-                      ? event.payload
-                      : JSON.stringify(event.payload, null, 2) ?? ''}
-                  </pre>
-                )}
-              </div>
-            )
-          })
-        )}
-      </div>
-    </div>
-  )
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import {
+  Activity,
+  Clock,
+  Globe,
+  Send,
+  Bot,
+  AlertTriangle,
+  Search,
+  Download,
+  Upload,
+  FileText
+} from 'lucide-react'
+import './FilteredEvents.css'
+import LoadingSkeleton from './LoadingSkeleton'
+import EventCard from './EventCard'
+
+interface GatewayEvent {
+  id?: number
+  type: string
+  event?: string
+  payload?: unknown
+  seq?: number
+  stateVersion?: number
+  timestamp?: number
+  synthetic?: boolean
+  gatewayId?: string
+}
+
+interface GatewayInfo {
+  id: string
+  name: string
+}
+
+interface FilteredEventsProps {
+  /** Gateway to show, or `all` for the merged view. */
+  gatewayId: string
+  gateways: GatewayInfo[]
+}
+
+interface GapInfo {
+  reason: 'seq' | 'stateVersion' | 'reconnect'
+  expectedSeq?: number
+  receivedSeq?: number
+  missed?: number
+  previousStateVersion?: number
+  stateVersion?: number
+}
+
+interface EventBatch {
+  id: number
+  events: GatewayEvent[]
+  skipped?: number
+}
+
+interface EventQuery {
+  gatewayId: string
+  category?: string
+  text?: string
+}
+
+type ExportFormat = 'ndjson' | 'json' | 'csv'
+
+interface ImportedFile {
+  name: string
+  count: number
+}
+
+interface Notice {
+  text: string
+  /** Exported file, offered for showing in the file manager. */
+  path?: string
+}
+
+// Loaded events plus whether older ones remain in the store
+interface EventList {
+  events: GatewayEvent[]
+  hasMore: boolean
+}
+
+const PAGE_SIZE = 100
+// Live events beyond this push the oldest loaded ones out; scrolling fetches them again
+const MAX_VISIBLE_EVENTS = 2000
+const SEARCH_DEBOUNCE_MS = 250
+const COUNTS_REFRESH_MS = 1000
+// Start fetching the next page this close to the bottom of the list
+const LOAD_MORE_THRESHOLD_PX = 300
+
+const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'ndjson', label: 'NDJSON' },
+  { id: 'json', label: 'JSON' },
+  { id: 'csv', label: 'CSV' }
+]
+
+const EVENT_FILTERS = [
+  { id: 'all', label: 'All Events', icon: Activity },
+  { id: 'cron', label: 'Cron Jobs', icon: Clock },
+  { id: 'gateway', label: 'Gateway', icon: Globe },
+  { id: 'telegram', label: 'Telegram', icon: Send },
+  { id: 'agent', label: 'Agent', icon: Bot }
+] as const
+
+function isGapMarker(event: GatewayEvent): boolean {
+  return event.synthetic === true && event.type === 'gap'
+}
+
+function describeGap(gap: GapInfo): string {
+  switch (gap.reason) {
+    case 'seq':
+      return `${gap.missed ?? '?'} event(s) missed (seq ${gap.expectedSeq}–${(gap.receivedSeq ?? 1) - 1})`
+    case 'stateVersion':
+      return `State changed without events (v${gap.previousStateVersion} → v${gap.stateVersion})`
+    case 'reconnect':
+      return 'Reconnected — events sent while disconnected were not received'
+    default:
+      return 'Events may have been lost'
+  }
+}
+
+// Mirrors the main process query so live events can be placed without a round trip
+function matchesView(event: GatewayEvent, filter: string, search: string): boolean {
+  const eventType = (event.type || event.event || '').toLowerCase()
+  if (filter !== 'all' && !isGapMarker(event) && !eventType.includes(filter)) return false
+  if (!search) return true
+  const payload = typeof event.payload === 'string' ? event.payload : JSON.stringify(event.payload)
+  return `${eventType}\n${payload ?? ''}`.toLowerCase().includes(search)
+}
+
+export default function FilteredEvents({
+  gatewayId,
+  gateways
+}: FilteredEventsProps): React.JSX.Element {
+  const [list, setList] = useState<EventList>({ events: [], hasMore: false })
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [total, setTotal] = useState(0)
+  const [filter, setFilter] = useState('all')
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [autoScroll, setAutoScroll] = useState(true)
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [imported, setImported] = useState<ImportedFile | null>(null)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('ndjson')
+  const [exportScope, setExportScope] = useState<'filtered' | 'range'>('filtered')
+  const [rangeFrom, setRangeFrom] = useState('')
+  const [rangeTo, setRangeTo] = useState('')
+  const [notice, setNotice] = useState<Notice | null>(null)
+  // Events main stopped sending while this window was behind
+  const [skipped, setSkipped] = useState<number | null>(null)
+  const countsTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // An imported file spans whatever gateways it was exported from
+  const merged = gatewayId === 'all' || imported !== null
+  const gatewayNames = useMemo(() => new Map(gateways.map((g) => [g.id, g.name])), [gateways])
+
+  // Filtering happens in the main process; this is what we ask it for
+  const query = useMemo<EventQuery>(
+    () => ({
+      gatewayId: imported ? 'all' : gatewayId,
+      category: filter === 'all' ? undefined : filter,
+      text: search || undefined
+    }),
+    [gatewayId, filter, search, imported]
+  )
+  // Lets async callbacks drop results for a query the user has moved away from
+  const queryRef = useRef(query)
+  useEffect(() => {
+    queryRef.current = query
+  }, [query])
+
+  // The imported file and the live history answer the same queries
+  const fetchPage = useCallback(
+    (q: EventQuery & { cursor?: number; limit?: number }) =>
+      imported ? window.api.store.queryImported(q) : window.api.gateway.query(q),
+    [imported]
+  )
+
+  const nextCursor = list.hasMore ? list.events[list.events.length - 1]?.id : undefined
+
+  // Memoize format function
+  const formatTimestamp = useCallback((timestamp: number): string => {
+    return new Date(timestamp).toLocaleTimeString()
+  }, [])
+
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim().toLowerCase()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // First page for the current query
+  useEffect(() => {
+    let mounted = true
+    fetchPage({ ...query, limit: PAGE_SIZE })
+      .then((page) => {
+        if (!mounted) return
+        setList({ events: page.events, hasMore: page.nextCursor !== undefined })
+        setCounts(page.counts)
+        setTotal(page.total)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error('Failed to load events:', err)
+        if (mounted) setError('Failed to load events')
+      })
+      .finally(() => mounted && setIsLoading(false))
+    return () => {
+      mounted = false
+    }
+  }, [query, reloadKey, fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (nextCursor === undefined || loadingMore) return
+    const requested = query
+    setLoadingMore(true)
+    try {
+      const page = await fetchPage({ ...requested, cursor: nextCursor, limit: PAGE_SIZE })
+      if (queryRef.current !== requested) return
+      setList((prev) => ({
+        events: [...prev.events, ...page.events],
+        hasMore: page.nextCursor !== undefined
+      }))
+    } catch (err) {
+      console.error('Failed to load older events:', err)
+      setError('Failed to load events')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [query, nextCursor, loadingMore, fetchPage])
+
+  const handleScroll = useCallback(
+    (e: React.UIEvent<HTMLDivElement>) => {
+      const el = e.currentTarget
+      if (el.scrollHeight - el.scrollTop - el.clientHeight < LOAD_MORE_THRESHOLD_PX) {
+        loadMore()
+      }
+    },
+    [loadMore]
+  )
+
+  // Tab counts come from the store; refresh them at most once a second while events stream in
+  const scheduleCountsRefresh = useCallback(() => {
+    if (countsTimer.current) return
+    countsTimer.current = setTimeout(() => {
+      countsTimer.current = null
+      const requested = queryRef.current
+      window.api.gateway
+        .query({ ...requested, limit: 0 })
+        .then((page) => {
+          if (queryRef.current !== requested) return
+          setCounts(page.counts)
+          setTotal(page.total)
+        })
+        .catch((err) => console.error('Failed to refresh event counts:', err))
+    }, COUNTS_REFRESH_MS)
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      if (countsTimer.current) clearTimeout(countsTimer.current)
+    }
+  }, [])
+
+  // Live events arrive in batches, oldest first; one state update per batch
+  const handleBatch = useCallback(
+    (batch: EventBatch) => {
+      if (batch.skipped !== undefined) {
+        setSkipped(batch.skipped)
+        return
+      }
+      if (imported) return
+      const relevant = batch.events.filter((event) => merged || event.gatewayId === gatewayId)
+      if (relevant.length === 0) return
+      scheduleCountsRefresh()
+      const visible = relevant.filter((event) => matchesView(event, filter, search)).reverse()
+      if (visible.length === 0) return
+
+      setList((prev) => {
+        // A page fetched while the batch was in flight may already hold some of it
+        const newest = prev.events[0]?.id
+        const fresh =
+          newest === undefined
+            ? visible
+            : visible.filter((event) => event.id === undefined || event.id > newest)
+        const events = [...fresh, ...prev.events]
+        const trimmed = events.length > MAX_VISIBLE_EVENTS
+        return {
+          events: trimmed ? events.slice(0, MAX_VISIBLE_EVENTS) : events,
+          hasMore: prev.hasMore || trimmed
+        }
+      })
+      if (autoScroll) {
+        // Use requestAnimationFrame to ensure DOM is ready
+        requestAnimationFrame(() => {
+          if (listRef.current) listRef.current.scrollTop = 0
+        })
+      }
+    },
+    [autoScroll, imported, merged, gatewayId, filter, search, scheduleCountsRefresh]
+  )
+
+  useEffect(() => {
+    return window.api.gateway.onEventBatch(handleBatch)
+  }, [handleBatch])
+
+  // Catch up after falling behind: go live again, then reload the first page
+  const handleLoadSkipped = useCallback(() => {
+    window.api.gateway.resume()
+    setSkipped(null)
+    setReloadKey((key) => key + 1)
+  }, [])
+
+  const handleRetry = useCallback(() => {
+    setIsLoading(true)
+    setError(null)
+    setReloadKey((key) => key + 1)
+  }, [])
+
+  // Handle clear with error handling
+  const handleClear = useCallback(async () => {
+    try {
+      await window.api.gateway.clear(gatewayId)
+      setList({ events: [], hasMore: false })
+      setReloadKey((key) => key + 1)
+    } catch (err) {
+      console.error('Failed to clear events:', err)
+      setError('Failed to clear events')
+    }
+  }, [gatewayId])
+
+  const handleImport = useCallback(async () => {
+    setNotice(null)
+    const result = await window.api.store.import()
+    if (result.success && result.name) {
+      setList({ events: [], hasMore: false })
+      setImported({ name: result.name, count: result.count ?? 0 })
+    } else if (result.error) {
+      setNotice({ text: `Import failed: ${result.error}` })
+    }
+  }, [])
+
+  const handleCloseImport = useCallback(async () => {
+    await window.api.store.closeImport()
+    if (skipped !== null) {
+      window.api.gateway.resume()
+      setSkipped(null)
+    }
+    setList({ events: [], hasMore: false })
+    setImported(null)
+  }, [skipped])
+
+  const handleExport = useCallback(async () => {
+    let selection: EventQuery & { from?: number; to?: number } = query
+    if (exportScope === 'range') {
+      const from = rangeFrom ? new Date(rangeFrom).getTime() : undefined
+      const to = rangeTo ? new Date(rangeTo).getTime() : undefined
+      if (from !== undefined && to !== undefined && from > to) {
+        setNotice({ text: 'The range ends before it starts' })
+        return
+      }
+      selection = { gatewayId: query.gatewayId, from, to }
+    }
+    setNotice(null)
+    const result = await window.api.store.export({
+      format: exportFormat,
+      query: selection,
+      imported: imported !== null
+    })
+    if (result.success) {
+      setExportOpen(false)
+      setNotice({ text: `Exported ${result.count} events`, path: result.path })
+    } else if (result.error) {
+      setNotice({ text: `Export failed: ${result.error}` })
+    }
+  }, [query, exportScope, rangeFrom, rangeTo, exportFormat, imported])
+
+  if (isLoading) {
+    return <LoadingSkeleton variant="list" count={5} />
+  }
+
+  if (error) {
+    return (
+      <div className="error-state">
+        <p>{error}</p>
+        <button className="btn btn-primary btn-sm" onClick={handleRetry}>
+          Retry
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="filtered-events">
+      <div className="events-toolbar">
+        <div className="filter-tabs">
+          {EVENT_FILTERS.map((f) => (
+            <button
+              key={f.id}
+              className={`filter-tab ${filter === f.id ? 'active' : ''}`}
+              onClick={() => setFilter(f.id)}
+              aria-pressed={filter === f.id}
+              aria-label={`Show ${f.label.toLowerCase()}`}
+            >
+              <f.icon className="filter-icon" />
+              <span className="filter-label">{f.label}</span>
+              <span className="filter-count">{counts[f.id] ?? 0}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="toolbar-actions">
+          <label className="events-search">
+            <Search className="events-search-icon" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search payloads"
+              aria-label="Search event payloads"
+            />
+          </label>
+          <button className="btn btn-secondary" onClick={handleImport}>
+            <Upload className="btn-icon" />
+            Import
+          </button>
+          <button
+            className={`btn btn-secondary ${exportOpen ? 'active' : ''}`}
+            onClick={() => setExportOpen((open) => !open)}
+            aria-expanded={exportOpen}
+          >
+            <Download className="btn-icon" />
+            Export
+          </button>
+          {!imported && (
+            <>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={autoScroll}
+                  onChange={(e) => setAutoScroll(e.target.checked)}
+                  aria-label="Enable auto-scroll"
+                />
+                <span>Auto-scroll</span>
+              </label>
+              <button className="btn btn-secondary" onClick={handleClear}>
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {exportOpen && (
+        <div className="events-export">
+          <div className="export-scope">
+            <label className="radio-label">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={exportScope === 'filtered'}
+                onChange={() => setExportScope('filtered')}
+              />
+              <span>Current filter ({total} events)</span>
+            </label>
+            <label className="radio-label">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={exportScope === 'range'}
+                onChange={() => setExportScope('range')}
+              />
+              <span>Time range</span>
+            </label>
+            {exportScope === 'range' && (
+              <div className="export-range">
+                <input
+                  type="datetime-local"
+                  value={rangeFrom}
+                  onChange={(e) => setRangeFrom(e.target.value)}
+                  aria-label="Export events from"
+                />
+                <span>to</span>
+                <input
+                  type="datetime-local"
+                  value={rangeTo}
+                  onChange={(e) => setRangeTo(e.target.value)}
+                  aria-label="Export events until"
+                />
+              </div>
+            )}
+          </div>
+          <div className="export-actions">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            <button className="btn btn-primary btn-sm" onClick={handleExport}>
+              Export…
+            </button>
+          </div>
+        </div>
+      )}
+
+      {imported && (
+        <div className="events-imported">
+          <FileText className="events-imported-icon" />
+          <span>
+            Viewing <strong>{imported.name}</strong> · {imported.count} events, read-only
+          </span>
+          <button className="btn btn-secondary btn-sm" onClick={handleCloseImport}>
+            Back to live events
+          </button>
+        </div>
+      )}
+
+      {notice && (
+        <div className="events-notice" role="status">
+          <span>{notice.text}</span>
+          {notice.path && (
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={() => window.api.session.reveal(notice.path!)}
+            >
+              Show in folder
+            </button>
+          )}
+          <button className="btn btn-secondary btn-sm" onClick={() => setNotice(null)}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {skipped !== null && !imported && (
+        <button className="events-skipped" onClick={handleLoadSkipped}>
+          {skipped} events skipped while the view was busy. Click to load.
+        </button>
+      )}
+
+      <div className="filtered-events-list" ref={listRef} onScroll={handleScroll}>
+        {list.events.length === 0 ? (
+          <div className="empty-state">
+            <p>{search || imported ? 'No matching events' : 'No events yet'}</p>
+            <p className="empty-hint">
+              {search || imported
+                ? 'Try a different search or filter'
+                : 'Events will appear when the Gateway is active'}
+            </p>
+          </div>
+        ) : (
+          list.events.map((event, index) => {
+            const key = event.id ?? `${event.seq ?? 'live'}-${event.timestamp}-${index}`
+            if (isGapMarker(event)) {
+              return (
+                <div key={key} className="event-gap" role="separator">
+                  <AlertTriangle className="event-gap-icon" />
+                  {merged && event.gatewayId && (
+                    <span className="event-origin">
+                      {gatewayNames.get(event.gatewayId) ?? event.gatewayId}
+                    </span>
+                  )}
+                  <span className="event-gap-text">{describeGap(event.payload as GapInfo)}</span>
+                  <span className="event-time">
+                    {event.timestamp ? formatTimestamp(event.timestamp) : '-'}
+                  </span>
+                </div>
+              )
+            }
+            return (
+              <EventCard
+                key={key}
+                event={event}
+                origin={
+                  merged && event.gatewayId
+                    ? (gatewayNames.get(event.gatewayId) ?? event.gatewayId)
+                    : undefined
+                }
+                formatTime={formatTimestamp}
+              />
+            )
+          })
+        )}
+        {list.events.length > 0 && (
+          <div className="events-footer">
+            {loadingMore ? (
+              'Loading older events…'
+            ) : list.hasMore ? (
+              <button className="btn btn-secondary btn-sm" onClick={loadMore}>
+                Load older events
+              </button>
+            ) : (
+              `${list.events.length} of ${total} events`
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Bot, RefreshCw, Workflow } from 'lucide-react'
+import './Runs.css'
+import LoadingSkeleton from './LoadingSkeleton'
+
+type RunStatus = 'running' | 'completed' | 'failed' | 'aborted'
+
+interface RunSummary {
+  id: string
+  runId: string
+  gatewayId: string
+  agent?: string
+  sessionKey?: string
+  status: RunStatus
+  startedAt: number
+  endedAt?: number
+  lastEventAt: number
+  error?: string
+  stepCount: number
+  toolCount: number
+  eventCount: number
+  preview?: string
+}
+
+interface RunStep {
+  kind: 'start' | 'output' | 'tool' | 'message' | 'end' | 'error'
+  label: string
+  startedAt: number
+  endedAt?: number
+  status?: string
+  detail?: string
+  eventIds: number[]
+}
+
+interface RunTrace extends RunSummary {
+  steps: RunStep[]
+  output: string
+}
+
+interface GatewayInfo {
+  id: string
+  name: string
+}
+
+interface RunsProps {
+  /** Gateway to show, or `all` for every gateway. */
+  gatewayId: string
+  gateways: GatewayInfo[]
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`
+  const minutes = Math.floor(ms / 60_000)
+  return `${minutes}m ${Math.round((ms % 60_000) / 1000)}s`
+}
+
+// Running runs are measured up to now; finished ones without an end event up to their last event
+function runEnd(run: RunSummary, now: number): number {
+  return run.endedAt ?? (run.status === 'running' ? now : run.lastEventAt)
+}
+
+export default function Runs({ gatewayId, gateways }: RunsProps): React.JSX.Element {
+  const [runs, setRuns] = useState<RunSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [trace, setTrace] = useState<RunTrace | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
+
+  const merged = gatewayId === 'all'
+  const gatewayNames = useMemo(() => new Map(gateways.map((g) => [g.id, g.name])), [gateways])
+
+  useEffect(() => {
+    let mounted = true
+    window.api.runs
+      .list(gatewayId)
+      .then((result) => {
+        if (!mounted) return
+        setRuns(result)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error('Failed to load runs:', err)
+        if (mounted) setError('Failed to load runs')
+      })
+      .finally(() => mounted && setLoading(false))
+    return () => {
+      mounted = false
+    }
+  }, [gatewayId, reloadKey])
+
+  const loadTrace = useCallback((id: string) => {
+    window.api.runs
+      .get(id)
+      .then((result) => setTrace((current) => (current && current.id !== id ? current : result)))
+      .catch((err) => console.error('Failed to load run:', err))
+  }, [])
+
+  // Merge live updates and refresh the open trace when it changes
+  useEffect(() => {
+    return window.api.runs.onUpdated((summaries) => {
+      const relevant = summaries.filter((s) => merged || s.gatewayId === gatewayId)
+      if (relevant.length === 0) return
+      setRuns((prev) => {
+        const byId = new Map(prev.map((run) => [run.id, run]))
+        for (const summary of relevant) byId.set(summary.id, summary)
+        return [...byId.values()].sort((a, b) => b.startedAt - a.startedAt)
+      })
+      if (selectedId && relevant.some((s) => s.id === selectedId)) loadTrace(selectedId)
+    })
+  }, [merged, gatewayId, selectedId, loadTrace])
+
+  const anyRunning = runs.some((run) => run.status === 'running')
+
+  // Keep durations of running runs ticking
+  useEffect(() => {
+    if (!anyRunning) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [anyRunning])
+
+  const handleSelect = useCallback(
+    (id: string) => {
+      setSelectedId(id)
+      setTrace(null)
+      loadTrace(id)
+    },
+    [loadTrace]
+  )
+
+  const handleRefresh = useCallback(() => {
+    setReloadKey((key) => key + 1)
+    if (selectedId) loadTrace(selectedId)
+  }, [selectedId, loadTrace])
+
+  if (loading) {
+    return <LoadingSkeleton variant="list" count={5} />
+  }
+
+  if (error) {
+    return (
+      <div className="error-state">
+        <p>{error}</p>
+        <button className="btn btn-primary btn-sm" onClick={handleRefresh}>
+          Retry
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="runs-view">
+      <div className="runs-sidebar">
+        <div className="runs-header">
+          <h3>Agent runs</h3>
+          <button className="btn-icon" onClick={handleRefresh} title="Refresh">
+            <RefreshCw className="icon" />
+          </button>
+        </div>
+        <div className="trace-list">
+          {runs.length === 0 ? (
+            <div className="empty-state">
+              <p>No runs yet</p>
+              <p className="empty-hint">Agent runs appear here as their events arrive</p>
+            </div>
+          ) : (
+            runs.map((run) => (
+              <button
+                key={run.id}
+                className={`trace-item ${selectedId === run.id ? 'active' : ''}`}
+                onClick={() => handleSelect(run.id)}
+              >
+                <div className="trace-item-header">
+                  <Bot className="trace-item-icon" />
+                  <span className="trace-item-agent">{run.agent ?? 'Agent'}</span>
+                  <span className={`trace-status ${run.status}`}>{run.status}</span>
+                </div>
+                <div className="trace-item-meta">
+                  <span>{new Date(run.startedAt).toLocaleTimeString()}</span>
+                  <span>{formatDuration(runEnd(run, now) - run.startedAt)}</span>
+                  <span>
+                    {run.toolCount} tool{run.toolCount === 1 ? '' : 's'}
+                  </span>
+                  {merged && (
+                    <span className="trace-item-origin">
+                      {gatewayNames.get(run.gatewayId) ?? run.gatewayId}
+                    </span>
+                  )}
+                </div>
+                {(run.error || run.preview) && (
+                  <div className={`trace-item-preview ${run.error ? 'error' : ''}`}>
+                    {run.error ?? run.preview}
+                  </div>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="runs-detail">
+        {!selectedId ? (
+          <div className="empty-state">
+            <Workflow className="empty-icon" />
+            <p>Select a run to see its timeline</p>
+          </div>
+        ) : !trace ? (
+          <LoadingSkeleton variant="list" count={3} />
+        ) : (
+          <RunDetail trace={trace} now={now} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+function RunDetail({ trace, now }: { trace: RunTrace; now: number }): React.JSX.Element {
+  const start = trace.startedAt
+  const end = Math.max(
+    runEnd(trace, now),
+    ...trace.steps.map((step) => step.endedAt ?? step.startedAt)
+  )
+  const span = Math.max(end - start, 1)
+
+  return (
+    <div className="trace-detail">
+      <div className="trace-detail-header">
+        <div>
+          <h2>{trace.agent ?? 'Agent'} run</h2>
+          <div className="trace-detail-id">{trace.runId}</div>
+        </div>
+        <span className={`trace-status ${trace.status}`}>{trace.status}</span>
+      </div>
+
+      <dl className="trace-facts">
+        <div>
+          <dt>Started</dt>
+          <dd>{new Date(trace.startedAt).toLocaleString()}</dd>
+        </div>
+        <div>
+          <dt>Duration</dt>
+          <dd>{formatDuration(runEnd(trace, now) - trace.startedAt)}</dd>
+        </div>
+        <div>
+          <dt>Tool calls</dt>
+          <dd>{trace.toolCount}</dd>
+        </div>
+        <div>
+          <dt>Events</dt>
+          <dd>{trace.eventCount}</dd>
+        </div>
+        {trace.sessionKey && (
+          <div>
+            <dt>Session</dt>
+            <dd>{trace.sessionKey}</dd>
+          </div>
+        )}
+      </dl>
+
+      {trace.error && <div className="trace-error">{trace.error}</div>}
+
+      <div className="waterfall">
+        {trace.steps.map((step, i) => {
+          const offset = step.startedAt - start
+          const duration = (step.endedAt ?? step.startedAt) - step.startedAt
+          const point = step.endedAt === undefined
+          return (
+            <div key={i} className={`waterfall-row ${step.kind}`}>
+              <div className="waterfall-label" title={step.detail ?? step.label}>
+                {step.label}
+                {step.status && <span className="waterfall-step-status">{step.status}</span>}
+              </div>
+              <div className="waterfall-track">
+                <div
+                  className={`waterfall-bar ${point ? 'point' : ''}`}
+                  style={{
+                    left: `${(offset / span) * 100}%`,
+                    width: point ? undefined : `max(${(duration / span) * 100}%, 2px)`
+                  }}
+                />
+              </div>
+              <div className="waterfall-timing">
+                +{formatDuration(offset)}
+                {!point && ` · ${formatDuration(duration)}`}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {trace.output && (
+        <div className="trace-output">
+          <h4>Output</h4>
+          <pre>{trace.output}</pre>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,133 +1,457 @@
-import { useState, useCallback } from 'react'
-import { Send } from 'lucide-react'
-import './SendMessage.css'
-
-export default function SendMessage(): React.JSX.Element {
-  const [agent, setAgent] = useState('main')
-  const [message, setMessage] = useState('')
-  const [local, setLocal] = useState(true)
-  const [loading, setLoading] = useState(false)
-  const [output, setOutput] = useState('')
-  const [error, setError] = useState('')
-
-  // Memoize handler with proper error handling
-  const handleSend = useCallback(async () => {
-    if (!message.trim()) return
-
-    setLoading(true)
-    setError('')
-    setOutput('')
-
-    try {
-      const result = await window.api.agent.send(agent, message, local)
-
-      if (result.success) {
-        setOutput(result.output || 'No output')
-      } else {
-        setError(result.error || 'Failed to send message')
-      }
-    } catch (err) {
-      console.error('Failed to send message:', err)
-      setError('An error occurred while sending the message')
-    } finally {
-      setLoading(false)
-    }
-  }, [message, agent, local])
-
-  const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-      handleSend()
-    }
-  }, [handleSend])
-
-  const handleClear = useCallback(() => {
-    setMessage('')
-    setOutput('')
-    setError('')
-  }, [])
-
-  return (
-    <div className="send-message">
-      <div className="send-form">
-        <div className="form-row">
-          <label className="form-label">Agent</label>
-          <select
-            className="form-select"
-            value={agent}
-            onChange={(e) => setAgent(e.target.value)}
-          >
-            <option value="main">main (GLM)</option>
-            <option value="local">local (Ollama)</option>
-          </select>
-        </div>
-
-        <div className="form-row">
-          <label className="form-label">Mode</label>
-          <div className="form-checkboxes">
-            <label className="checkbox-label">
-              <input
-                type="checkbox"
-                checked={local}
-                onChange={(e) => setLocal(e.target.checked)}
-              />
-              <span>Local (bypass Gateway)</span>
-            </label>
-          </div>
-        </div>
-
-        <div className="form-row">
-          <label className="form-label">Message</label>
-          <textarea
-            className="form-textarea"
-            placeholder="Type your message... (Cmd/Ctrl+Enter to send)"
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            rows={4}
-          />
-        </div>
-
-        <div className="form-actions">
-          <button
-            className="btn btn-primary"
-            onClick={handleSend}
-            disabled={loading || !message.trim()}
-          >
-            {loading ? (
-              'Sending...'
-            ) : (
-              <>
-                <Send className="btn-icon" />
-                Send Message
-              </>
-            )}
-          </button>
-          <button
-            className="btn btn-secondary"
-            onClick={handleClear}
-          >
-            Clear
-          </button>
-        </div>
-      </div>
-
-      {error && (
-        <div className="output-section">
-          <div className="output-header">
-            <h3>Error</h3>
-          </div>
-          <div className="output-error">{error}</div>
-        </div>
-      )}
-
-      {output && (
-        <div className="output-section">
-          <div className="output-header">
-            <h3>Response</h3>
-          </div>
-          <pre className="output-content">{output}</pre>
-        </div>
-      )}
-    </div>
-  )
-}
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { Check, Copy, MessageSquarePlus, Pencil, Search, Send, Square, Trash2 } from 'lucide-react'
+import './SendMessage.css'
+
+interface OutputSegment {
+  stream: 'stdout' | 'stderr'
+  text: string
+}
+
+interface RunStatus {
+  exitCode?: number | null
+  durationMs?: number
+  stopped?: boolean
+}
+
+interface ChatMessage extends RunStatus {
+  id: string
+  role: 'user' | 'agent'
+  text: string
+  at: number
+  error?: string
+  transport?: 'gateway' | 'cli'
+}
+
+interface ChatThread {
+  id: string
+  agent: string
+  title: string
+  messages: ChatMessage[]
+}
+
+interface ChatThreadSummary {
+  id: string
+  agent: string
+  title: string
+  updatedAt: number
+  messageCount: number
+  preview: string
+}
+
+interface ChatSearchResult {
+  threadId: string
+  agent: string
+  title: string
+  messageId: string
+  at: number
+  snippet: string
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatTime(at: number): string {
+  const date = new Date(at)
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString()
+}
+
+function describeStatus(status: RunStatus): string {
+  const duration = status.durationMs !== undefined ? formatDuration(status.durationMs) : null
+  if (status.stopped) return duration ? `Stopped after ${duration}` : 'Stopped'
+  const exit =
+    status.exitCode === null ? 'Killed' : `Exited with code ${status.exitCode ?? 'unknown'}`
+  return duration ? `${exit} after ${duration}` : exit
+}
+
+const TRANSPORT_LABELS = { gateway: 'via gateway', cli: 'via CLI' }
+
+// Consecutive chunks of the same stream are merged so the pane renders few nodes
+function appendOutput(
+  segments: OutputSegment[],
+  stream: OutputSegment['stream'],
+  text: string
+): OutputSegment[] {
+  const last = segments[segments.length - 1]
+  if (last?.stream === stream) {
+    return [...segments.slice(0, -1), { stream, text: last.text + text }]
+  }
+  return [...segments, { stream, text }]
+}
+
+export default function SendMessage(): React.JSX.Element {
+  const [agent, setAgent] = useState('main')
+  const [message, setMessage] = useState('')
+  const [local, setLocal] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([])
+  const [threadId, setThreadId] = useState<string | null>(null)
+  const [loaded, setLoaded] = useState<ChatThread | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [pending, setPending] = useState<string | null>(null)
+  const [segments, setSegments] = useState<OutputSegment[]>([])
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<ChatSearchResult[]>([])
+  const [titleDraft, setTitleDraft] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+  const requestIdRef = useRef<string | null>(null)
+  const conversationRef = useRef<HTMLDivElement>(null)
+
+  // A thread of another agent, or one still loading, is not shown
+  const thread = threadId && loaded?.id === threadId ? loaded : null
+  const searching = query.trim() !== ''
+
+  useEffect(() => {
+    let mounted = true
+    window.api.threads
+      .list(agent)
+      .then((result) => mounted && setThreads(result))
+      .catch((err) => console.error('Failed to load threads:', err))
+    return () => {
+      mounted = false
+    }
+  }, [agent, reloadKey])
+
+  useEffect(() => {
+    if (!threadId) return
+    let mounted = true
+    window.api.threads
+      .get(threadId)
+      .then((result) => mounted && setLoaded(result))
+      .catch((err) => console.error('Failed to load thread:', err))
+    return () => {
+      mounted = false
+    }
+  }, [threadId, reloadKey])
+
+  useEffect(() => {
+    if (!searching) return
+    const timer = setTimeout(() => {
+      window.api.threads
+        .search(query)
+        .then(setResults)
+        .catch((err) => console.error('Failed to search threads:', err))
+    }, 200)
+    return () => clearTimeout(timer)
+  }, [query, searching])
+
+  // Follow the conversation while it streams, unless the user scrolled up to read
+  useEffect(() => {
+    const pane = conversationRef.current
+    if (!pane) return
+    if (pane.scrollHeight - pane.scrollTop - pane.clientHeight < 80) {
+      pane.scrollTop = pane.scrollHeight
+    }
+  }, [segments, pending, thread])
+
+  const selectThread = useCallback((id: string | null) => {
+    setThreadId(id)
+    setTitleDraft(null)
+    setError('')
+  }, [])
+
+  const handleSend = useCallback(async () => {
+    const text = message.trim()
+    if (!text || requestIdRef.current) return
+
+    const requestId = crypto.randomUUID()
+    requestIdRef.current = requestId
+    setLoading(true)
+    setError('')
+    setSegments([])
+
+    try {
+      // A new conversation becomes a thread with its first message
+      let id = threadId
+      if (!id) {
+        const created = await window.api.threads.create(agent)
+        if (!created.success || !created.thread) {
+          setError(created.error || 'Failed to start a thread')
+          return
+        }
+        id = created.thread.id
+        setThreadId(id)
+      }
+      setPending(text)
+      setMessage('')
+
+      const result = await window.api.agent.send(agent, text, local, {
+        requestId,
+        threadId: id,
+        onOutput: ({ stream, text }) => setSegments((prev) => appendOutput(prev, stream, text))
+      })
+      // Once a transport took the message, the outcome is shown in the thread
+      if (!result.success && !result.transport) {
+        setError(result.error || 'Failed to send message')
+      }
+    } catch (err) {
+      console.error('Failed to send message:', err)
+      setError('An error occurred while sending the message')
+    } finally {
+      requestIdRef.current = null
+      setLoading(false)
+      setPending(null)
+      setSegments([])
+      setReloadKey((key) => key + 1)
+    }
+  }, [message, agent, local, threadId])
+
+  const handleStop = useCallback(() => {
+    if (requestIdRef.current) window.api.agent.stop(requestIdRef.current)
+  }, [])
+
+  const handleKeyPress = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+        handleSend()
+      }
+    },
+    [handleSend]
+  )
+
+  const handleAgentChange = useCallback(
+    (value: string) => {
+      setAgent(value)
+      selectThread(null)
+    },
+    [selectThread]
+  )
+
+  const handleOpenResult = useCallback(
+    (result: ChatSearchResult) => {
+      setAgent(result.agent)
+      setQuery('')
+      selectThread(result.threadId)
+    },
+    [selectThread]
+  )
+
+  const handleRename = useCallback(async () => {
+    if (!thread || titleDraft === null) return
+    const result = await window.api.threads.rename(thread.id, titleDraft)
+    if (!result.success) {
+      setError(result.error || 'Failed to rename thread')
+      return
+    }
+    setTitleDraft(null)
+    setReloadKey((key) => key + 1)
+  }, [thread, titleDraft])
+
+  const handleCopy = useCallback(async () => {
+    if (!thread) return
+    const result = await window.api.threads.markdown(thread.id)
+    if (!result.success || result.markdown === undefined) {
+      setError(result.error || 'Failed to export thread')
+      return
+    }
+    await navigator.clipboard.writeText(result.markdown)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }, [thread])
+
+  const handleDelete = useCallback(async () => {
+    if (!thread) return
+    if (!confirm(`Delete the thread "${thread.title || 'Untitled thread'}"?`)) return
+    const result = await window.api.threads.delete(thread.id)
+    if (!result.success) {
+      setError(result.error || 'Failed to delete thread')
+      return
+    }
+    selectThread(null)
+    setReloadKey((key) => key + 1)
+  }, [thread, selectThread])
+
+  return (
+    <div className="send-message">
+      <div className="thread-sidebar">
+        <div className="thread-sidebar-header">
+          <select
+            className="form-select"
+            value={agent}
+            onChange={(e) => handleAgentChange(e.target.value)}
+            disabled={loading}
+          >
+            <option value="main">main (GLM)</option>
+            <option value="local">local (Ollama)</option>
+          </select>
+          <button
+            className="btn btn-secondary btn-new-thread"
+            onClick={() => selectThread(null)}
+            disabled={loading}
+            title="New thread"
+          >
+            <MessageSquarePlus className="btn-icon" />
+          </button>
+        </div>
+        <div className="thread-search">
+          <Search className="thread-search-icon" />
+          <input
+            type="search"
+            placeholder="Search all threads"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <div className="thread-list">
+          {searching
+            ? results.map((result) => (
+                <button
+                  key={result.messageId}
+                  className="thread-item"
+                  onClick={() => handleOpenResult(result)}
+                  disabled={loading}
+                >
+                  <span className="thread-item-title">
+                    {result.title || 'Untitled thread'}
+                    <span className="thread-item-agent">{result.agent}</span>
+                  </span>
+                  <span className="thread-item-preview">{result.snippet}</span>
+                </button>
+              ))
+            : threads.map((summary) => (
+                <button
+                  key={summary.id}
+                  className={`thread-item${summary.id === threadId ? ' active' : ''}`}
+                  onClick={() => selectThread(summary.id)}
+                  disabled={loading}
+                >
+                  <span className="thread-item-title">
+                    {summary.title || 'Untitled thread'}
+                    <span className="thread-item-time">{formatTime(summary.updatedAt)}</span>
+                  </span>
+                  <span className="thread-item-preview">{summary.preview || 'No messages'}</span>
+                </button>
+              ))}
+          {searching && results.length === 0 && <div className="thread-empty">No matches</div>}
+          {!searching && threads.length === 0 && (
+            <div className="thread-empty">No threads for {agent} yet</div>
+          )}
+        </div>
+      </div>
+
+      <div className="conversation">
+        <div className="output-header">
+          {titleDraft !== null ? (
+            <input
+              className="thread-title-input"
+              value={titleDraft}
+              autoFocus
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename()
+                if (e.key === 'Escape') setTitleDraft(null)
+              }}
+              onBlur={() => handleRename()}
+            />
+          ) : (
+            <h3>{thread ? thread.title || 'Untitled thread' : 'New thread'}</h3>
+          )}
+          {loading && <span className="output-streaming">Receiving…</span>}
+          {thread && !loading && (
+            <div className="thread-actions">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => setTitleDraft(thread.title)}
+                title="Rename"
+              >
+                <Pencil className="btn-icon" />
+              </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={handleCopy}
+                title="Copy as Markdown"
+              >
+                {copied ? <Check className="btn-icon" /> : <Copy className="btn-icon" />}
+              </button>
+              <button className="btn btn-secondary btn-sm" onClick={handleDelete} title="Delete">
+                <Trash2 className="btn-icon" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="conversation-messages" ref={conversationRef}>
+          {thread?.messages.map((entry) => (
+            <div key={entry.id} className={`chat-message ${entry.role}`}>
+              <div className="chat-message-meta">
+                {entry.role === 'user' ? 'You' : thread.agent} · {formatTime(entry.at)}
+                {entry.transport && ` · ${TRANSPORT_LABELS[entry.transport]}`}
+              </div>
+              <pre className="output-content">{entry.text || 'No output'}</pre>
+              {(entry.error || entry.stopped) && (
+                <div className="output-status failed">{entry.error ?? describeStatus(entry)}</div>
+              )}
+            </div>
+          ))}
+          {pending !== null && (
+            <>
+              <div className="chat-message user">
+                <div className="chat-message-meta">You</div>
+                <pre className="output-content">{pending}</pre>
+              </div>
+              <div className="chat-message agent">
+                <div className="chat-message-meta">{agent}</div>
+                <pre className="output-content">
+                  {segments.map((segment, i) => (
+                    <span
+                      key={i}
+                      className={segment.stream === 'stderr' ? 'output-stderr' : undefined}
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                  {segments.length === 0 && '…'}
+                </pre>
+              </div>
+            </>
+          )}
+          {!thread && pending === null && (
+            <div className="thread-empty">Send a message to start a thread with {agent}</div>
+          )}
+        </div>
+
+        {error && <div className="output-error">{error}</div>}
+
+        <div className="send-form">
+          <textarea
+            className="form-textarea"
+            placeholder="Type your message... (Cmd/Ctrl+Enter to send)"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyPress={handleKeyPress}
+            rows={3}
+          />
+          <div className="form-actions">
+            <label className="checkbox-label">
+              <input type="checkbox" checked={local} onChange={(e) => setLocal(e.target.checked)} />
+              <span>Local (bypass Gateway)</span>
+            </label>
+            {loading && (
+              <button className="btn btn-secondary" onClick={handleStop}>
+                <Square className="btn-icon" />
+                Stop
+              </button>
+            )}
+            <button
+              className="btn btn-primary"
+              onClick={handleSend}
+              disabled={loading || !message.trim()}
+            >
+              {loading ? (
+                'Sending...'
+              ) : (
+                <>
+                  <Send className="btn-icon" />
+                  Send
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import './Settings.css'
+import ProfilesSection from './settings/ProfilesSection'
+import DeviceIdentitySection from './settings/DeviceIdentitySection'
+import EventHistorySection from './settings/EventHistorySection'
+import EventSinksSection from './settings/EventSinksSection'
+import CliSection from './settings/CliSection'
+import LocalApiSection from './settings/LocalApiSection'
+import PrometheusSection from './settings/PrometheusSection'
+import SessionCaptureSection from './settings/SessionCaptureSection'
+import ProtocolDiagnosticsSection from './settings/ProtocolDiagnosticsSection'
+
+export default function Settings(): React.JSX.Element {
+  return (
+    <div className="settings">
+      <ProfilesSection />
+      <DeviceIdentitySection />
+      <EventHistorySection />
+      <EventSinksSection />
+      <CliSection />
+      <LocalApiSection />
+      <PrometheusSection />
+      <SessionCaptureSection />
+      <ProtocolDiagnosticsSection />
+    </div>
+  )
+}
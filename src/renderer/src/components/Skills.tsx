@@ -52,7 +52,11 @@ const SKILL_ICONS: Record<string, React.ComponentType<{ className?: string }>> =
   'reddit-monitor': MessageSquare
 }
 
-export default function Skills(): React.JSX.Element {
+interface SkillsProps {
+  gatewayId: string
+}
+
+export default function Skills({ gatewayId }: SkillsProps): React.JSX.Element {
   const [skills, setSkills] = useState<Skill[]>([])
   const [autonomousSessions, setAutonomousSessions] = useState<AutonomousSession[]>([])
   const [notesSyncStatus, setNotesSyncStatus] = useState<NotesSyncStatus>({})
@@ -66,19 +70,19 @@ export default function Skills(): React.JSX.Element {
 
     try {
       // Load skills from the skills directory
-      const result = await window.api.skills.list()
+      const result = await window.api.skills.list(gatewayId)
       if (result.success && Array.isArray(result.skills)) {
         setSkills(result.skills)
       }
 
       // Load autonomous work status
-      const autonomousResult = await window.api.skills.autonomousStatus()
+      const autonomousResult = await window.api.skills.autonomousStatus(gatewayId)
       if (autonomousResult.success && Array.isArray(autonomousResult.sessions)) {
         setAutonomousSessions(autonomousResult.sessions)
       }
 
       // Load notes sync status
-      const notesResult = await window.api.skills.notesSyncStatus()
+      const notesResult = await window.api.skills.notesSyncStatus(gatewayId)
       if (notesResult.success) {
         setNotesSyncStatus(notesResult.status || {})
       }
@@ -88,7 +92,7 @@ export default function Skills(): React.JSX.Element {
       setLoading(false)
       isLoadingRef.current = false
     }
-  }, [])
+  }, [gatewayId])
 
   useEffect(() => {
     loadSkills()
@@ -99,7 +103,7 @@ export default function Skills(): React.JSX.Element {
   const handleRunSkill = async (skillName: string) => {
     setRunningSkill(skillName)
     try {
-      await window.api.skills.run(skillName)
+      await window.api.skills.run(gatewayId, skillName)
       // Refresh after a short delay
       setTimeout(loadSkills, 2000)
     } catch (err) {
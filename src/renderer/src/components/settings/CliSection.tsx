@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Check, Terminal } from 'lucide-react'
+import type { CliInfo } from '../../../../preload/index.d'
+
+export default function CliSection(): React.JSX.Element {
+  const [info, setInfo] = useState<CliInfo | null>(null)
+  const [binary, setBinary] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyInfo = useCallback((next: CliInfo) => {
+    setInfo(next)
+    setBinary(next.binary ?? '')
+  }, [])
+
+  useEffect(() => {
+    let mounted = true
+    window.api.cli
+      .info()
+      .then((result) => mounted && applyInfo(result))
+      .catch((err) => {
+        console.error('Failed to load CLI settings:', err)
+        if (mounted) setError('Failed to load CLI settings')
+      })
+    return () => {
+      mounted = false
+    }
+  }, [applyInfo])
+
+  const handleSave = useCallback(async () => {
+    setBusy(true)
+    try {
+      const result = await window.api.cli.setBinary(binary)
+      if (result.success && result.info) {
+        applyInfo(result.info)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to save the binary path')
+      }
+    } finally {
+      setBusy(false)
+    }
+  }, [applyInfo, binary])
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Terminal className="settings-card-icon" />
+        <h3>Clawdbot CLI</h3>
+      </div>
+      <p className="settings-hint">
+        Gateways with local CLI access run the clawdbot executable directly. Leave the path empty to
+        look for it on PATH and in the usual install locations.
+      </p>
+
+      {info && (
+        <>
+          <div className="profile-form local-api-form">
+            <label className="settings-field">
+              <span>Binary path</span>
+              <input
+                className="mono"
+                value={binary}
+                onChange={(e) => setBinary(e.target.value)}
+                placeholder="Detect automatically"
+              />
+            </label>
+          </div>
+          {info.resolved && (
+            <dl className="settings-fields">
+              <dt>Using</dt>
+              <dd className="mono">{info.resolved}</dd>
+            </dl>
+          )}
+        </>
+      )}
+
+      {(error || info?.error) && <div className="settings-error">{error || info?.error}</div>}
+
+      <div className="settings-actions">
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={handleSave}
+          disabled={busy || !info || binary === (info.binary ?? '')}
+        >
+          <Check className="btn-icon" />
+          Save
+        </button>
+      </div>
+    </section>
+  )
+}
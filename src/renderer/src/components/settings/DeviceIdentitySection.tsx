@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react'
+import { KeyRound, RefreshCw, RotateCcw, Copy } from 'lucide-react'
+import LoadingSkeleton from '../LoadingSkeleton'
+import type { DeviceIdentityInfo } from '../../../../preload/index.d'
+
+export default function DeviceIdentitySection(): React.JSX.Element {
+  const [identity, setIdentity] = useState<DeviceIdentityInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyResult = useCallback(
+    (result: { success: boolean; identity?: DeviceIdentityInfo; error?: string }) => {
+      if (result.success && result.identity) {
+        setIdentity(result.identity)
+        setError(null)
+      } else {
+        setError(result.error || 'Device identity unavailable')
+      }
+    },
+    []
+  )
+
+  useEffect(() => {
+    let mounted = true
+    window.api.device
+      .identity()
+      .then((result) => mounted && applyResult(result))
+      .catch((err) => {
+        console.error('Failed to load device identity:', err)
+        if (mounted) setError('Failed to load device identity')
+      })
+      .finally(() => mounted && setLoading(false))
+    return () => {
+      mounted = false
+    }
+  }, [applyResult])
+
+  const handleRotate = useCallback(async () => {
+    if (
+      !window.confirm('Generate a new keypair? The gateway may need to re-approve this device.')
+    ) {
+      return
+    }
+    setBusy(true)
+    try {
+      applyResult(await window.api.device.rotate())
+    } finally {
+      setBusy(false)
+    }
+  }, [applyResult])
+
+  const handleReset = useCallback(async () => {
+    if (!window.confirm('Reset the device identity? This monitor will pair as a new device.')) {
+      return
+    }
+    setBusy(true)
+    try {
+      applyResult(await window.api.device.reset())
+    } finally {
+      setBusy(false)
+    }
+  }, [applyResult])
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <KeyRound className="settings-card-icon" />
+        <h3>Device Identity</h3>
+      </div>
+      <p className="settings-hint">
+        The gateway uses this Ed25519 key to recognise this monitor as a paired device.
+      </p>
+
+      {loading ? (
+        <LoadingSkeleton variant="text" />
+      ) : identity ? (
+        <dl className="settings-fields">
+          <dt>Fingerprint</dt>
+          <dd className="mono">
+            {identity.fingerprint}
+            <button
+              className="settings-copy"
+              onClick={() => navigator.clipboard.writeText(identity.fingerprint)}
+              title="Copy fingerprint"
+            >
+              <Copy />
+            </button>
+          </dd>
+          <dt>Device ID</dt>
+          <dd className="mono">{identity.deviceId}</dd>
+          <dt>Created</dt>
+          <dd>{new Date(identity.createdAt).toLocaleString()}</dd>
+          {identity.rotatedAt && (
+            <>
+              <dt>Key rotated</dt>
+              <dd>{new Date(identity.rotatedAt).toLocaleString()}</dd>
+            </>
+          )}
+        </dl>
+      ) : null}
+
+      {error && <div className="settings-error">{error}</div>}
+
+      <div className="settings-actions">
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={handleRotate}
+          disabled={busy || !identity}
+        >
+          <RefreshCw className="btn-icon" />
+          Rotate key
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={handleReset} disabled={busy}>
+          <RotateCcw className="btn-icon" />
+          Reset identity
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Trash2, Check, Database } from 'lucide-react'
+import LoadingSkeleton from '../LoadingSkeleton'
+import type { EventStoreStats, RetentionRule } from '../../../../preload/index.d'
+
+// Form state for one retention rule; empty strings mean "no limit"
+interface RuleDraft {
+  match: string
+  maxAgeDays: string
+  maxCount: string
+  maxMb: string
+}
+
+const MB = 1024 * 1024
+
+function toRuleDraft(rule: RetentionRule): RuleDraft {
+  return {
+    match: rule.match,
+    maxAgeDays: rule.maxAgeDays?.toString() ?? '',
+    maxCount: rule.maxCount?.toString() ?? '',
+    maxMb: rule.maxBytes !== undefined ? String(Math.round((rule.maxBytes / MB) * 10) / 10) : ''
+  }
+}
+
+function fromRuleDraft(draft: RuleDraft): RetentionRule {
+  const number = (value: string): number | undefined =>
+    value.trim() === '' ? undefined : Number(value)
+  const maxMb = number(draft.maxMb)
+  return {
+    match: draft.match,
+    maxAgeDays: number(draft.maxAgeDays),
+    maxCount: number(draft.maxCount),
+    maxBytes: maxMb !== undefined ? Math.round(maxMb * MB) : undefined
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / MB).toFixed(1)} MB`
+}
+
+export default function EventHistorySection(): React.JSX.Element {
+  const [stats, setStats] = useState<EventStoreStats | null>(null)
+  const [rules, setRules] = useState<RuleDraft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+    Promise.all([window.api.store.stats(), window.api.store.retention()])
+      .then(([initialStats, retention]) => {
+        if (!mounted) return
+        setStats(initialStats)
+        setRules(retention.map(toRuleDraft))
+      })
+      .catch((err) => {
+        console.error('Failed to load event history settings:', err)
+        if (mounted) setError('Failed to load event history settings')
+      })
+      .finally(() => mounted && setLoading(false))
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  const updateRule = useCallback((index: number, patch: Partial<RuleDraft>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)))
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    setBusy(true)
+    try {
+      const result = await window.api.store.setRetention(rules.map(fromRuleDraft))
+      if (result.success) {
+        setError(null)
+        if (result.stats) setStats(result.stats)
+      } else {
+        setError(result.error || 'Failed to save retention rules')
+      }
+    } finally {
+      setBusy(false)
+    }
+  }, [rules])
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Database className="settings-card-icon" />
+        <h3>Event History</h3>
+      </div>
+      <p className="settings-hint">
+        Events are kept on disk between restarts. Each event follows the first rule whose pattern
+        matches its type (<span className="mono">*</span> matches anything); empty limits are not
+        enforced.
+      </p>
+
+      {loading ? (
+        <LoadingSkeleton variant="text" />
+      ) : (
+        <>
+          {stats && (
+            <dl className="settings-fields">
+              <dt>Stored events</dt>
+              <dd>{stats.count.toLocaleString()}</dd>
+              <dt>Disk usage</dt>
+              <dd>
+                {formatBytes(stats.bytes)} in {stats.segments} segment
+                {stats.segments === 1 ? '' : 's'}
+              </dd>
+              {stats.oldest && (
+                <>
+                  <dt>Oldest event</dt>
+                  <dd>{new Date(stats.oldest).toLocaleString()}</dd>
+                </>
+              )}
+            </dl>
+          )}
+
+          <div className="retention-rules">
+            <div className="retention-row retention-head">
+              <span>Event types</span>
+              <span>Max age (days)</span>
+              <span>Max count</span>
+              <span>Max size (MB)</span>
+              <span />
+            </div>
+            {rules.map((rule, index) => (
+              <div key={index} className="retention-row">
+                <input
+                  className="mono"
+                  value={rule.match}
+                  onChange={(e) => updateRule(index, { match: e.target.value })}
+                  placeholder="agent.*"
+                  aria-label="Event type pattern"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.maxAgeDays}
+                  onChange={(e) => updateRule(index, { maxAgeDays: e.target.value })}
+                  aria-label="Max age in days"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.maxCount}
+                  onChange={(e) => updateRule(index, { maxCount: e.target.value })}
+                  aria-label="Max count"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.maxMb}
+                  onChange={(e) => updateRule(index, { maxMb: e.target.value })}
+                  aria-label="Max size in MB"
+                />
+                <button
+                  className="settings-copy"
+                  onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                  title="Remove rule"
+                >
+                  <Trash2 />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && <div className="settings-error">{error}</div>}
+
+      <div className="settings-actions">
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={() =>
+            setRules((prev) => [...prev, { match: '', maxAgeDays: '', maxCount: '', maxMb: '' }])
+          }
+          disabled={busy || loading}
+        >
+          <Plus className="btn-icon" />
+          Add rule
+        </button>
+        <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={busy || loading}>
+          <Check className="btn-icon" />
+          Save retention
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,396 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Pencil, Trash2, Webhook, Send, ScrollText } from 'lucide-react'
+import type { SinkConfig, SinkDelivery, SinkKind, SinkStatus } from '../../../../preload/index.d'
+
+interface SinkDraft {
+  id?: string
+  name: string
+  enabled: boolean
+  kind: SinkKind
+  filter: string
+  url: string
+  /** One `Name: value` header per line. */
+  headers: string
+  path: string
+  command: string
+  /** One argument per line. */
+  args: string
+  maxAttempts: string
+}
+
+const SINK_KINDS: { value: SinkKind; label: string }[] = [
+  { value: 'http', label: 'Webhook (HTTP POST)' },
+  { value: 'file', label: 'Append to file' },
+  { value: 'command', label: 'Run command' }
+]
+
+const EMPTY_SINK: SinkDraft = {
+  name: '',
+  enabled: true,
+  kind: 'http',
+  filter: '',
+  url: 'http://127.0.0.1:',
+  headers: '',
+  path: '',
+  command: '',
+  args: '',
+  maxAttempts: '5'
+}
+
+function toSinkDraft(sink: SinkConfig): SinkDraft {
+  return {
+    id: sink.id,
+    name: sink.name,
+    enabled: sink.enabled,
+    kind: sink.kind,
+    filter: sink.filter,
+    url: sink.url ?? '',
+    headers: Object.entries(sink.headers ?? {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n'),
+    path: sink.path ?? '',
+    command: sink.command ?? '',
+    args: (sink.args ?? []).join('\n'),
+    maxAttempts: String(sink.maxAttempts)
+  }
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+function sinkTarget(sink: SinkConfig): string {
+  if (sink.kind === 'http') return sink.url ?? ''
+  if (sink.kind === 'file') return sink.path ?? ''
+  return [sink.command, ...(sink.args ?? [])].join(' ')
+}
+
+export default function EventSinksSection(): React.JSX.Element {
+  const [sinks, setSinks] = useState<SinkConfig[]>([])
+  const [status, setStatus] = useState<Record<string, SinkStatus>>({})
+  const [draft, setDraft] = useState<SinkDraft | null>(null)
+  const [logSinkId, setLogSinkId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<SinkDelivery[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyList = useCallback((result: { sinks: SinkConfig[]; status: SinkStatus[] }) => {
+    setSinks(result.sinks)
+    setStatus(Object.fromEntries(result.status.map((s) => [s.id, s])))
+  }, [])
+
+  useEffect(() => {
+    let mounted = true
+    window.api.sinks
+      .list()
+      .then((result) => mounted && applyList(result))
+      .catch((err) => {
+        console.error('Failed to load event sinks:', err)
+        if (mounted) setError('Failed to load event sinks')
+      })
+    const unsubscribe = window.api.sinks.onUpdated((updated) => {
+      setStatus(Object.fromEntries(updated.map((s) => [s.id, s])))
+    })
+    return () => {
+      mounted = false
+      unsubscribe()
+    }
+  }, [applyList])
+
+  // The open delivery log follows status updates
+  useEffect(() => {
+    if (!logSinkId) return
+    window.api.sinks
+      .deliveries(logSinkId)
+      .then(setDeliveries)
+      .catch((err) => console.error('Failed to load deliveries:', err))
+  }, [logSinkId, status])
+
+  const runAction = useCallback(
+    async (action: () => Promise<{ success: boolean; error?: string }>) => {
+      setBusy(true)
+      setError(null)
+      try {
+        const result = await action()
+        if (!result.success) {
+          setError(result.error || 'Operation failed')
+          return false
+        }
+        applyList(await window.api.sinks.list())
+        return true
+      } finally {
+        setBusy(false)
+      }
+    },
+    [applyList]
+  )
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return
+    const saved = await runAction(() =>
+      window.api.sinks.save({
+        id: draft.id,
+        name: draft.name,
+        enabled: draft.enabled,
+        kind: draft.kind,
+        filter: draft.filter,
+        url: draft.url,
+        headers: parseHeaders(draft.headers),
+        path: draft.path,
+        command: draft.command,
+        args: draft.args.split('\n').filter((arg) => arg !== ''),
+        maxAttempts: Number(draft.maxAttempts)
+      })
+    )
+    if (saved) setDraft(null)
+  }, [draft, runAction])
+
+  const handleDelete = useCallback(
+    (sink: SinkConfig) => {
+      if (!window.confirm(`Delete sink "${sink.name}"?`)) return
+      if (logSinkId === sink.id) setLogSinkId(null)
+      runAction(() => window.api.sinks.delete(sink.id))
+    },
+    [logSinkId, runAction]
+  )
+
+  const updateDraft = (patch: Partial<SinkDraft>): void => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Webhook className="settings-card-icon" />
+        <h3>Event Forwarding</h3>
+        <button
+          className="btn btn-secondary btn-sm settings-header-action"
+          onClick={() => setDraft({ ...EMPTY_SINK })}
+          disabled={busy}
+        >
+          <Plus className="btn-icon" />
+          New sink
+        </button>
+      </div>
+      <p className="settings-hint">
+        Forward matching events as JSON to a webhook, a file or a local command. Failed deliveries
+        are retried with increasing delays.
+      </p>
+
+      <div className="profile-list">
+        {sinks.map((sink) => {
+          const sinkStatus = status[sink.id]
+          return (
+            <div key={sink.id} className="profile-item">
+              <div className="profile-info">
+                <div className="profile-name">
+                  {sink.name}
+                  {!sink.enabled && <span className="profile-disabled">disabled</span>}
+                  {sinkStatus?.retryAt && <span className="sink-retrying">retrying</span>}
+                </div>
+                <div className="profile-url mono">{sinkTarget(sink)}</div>
+                <div className="profile-meta">
+                  {sink.filter ? <span className="mono">{sink.filter}</span> : 'all events'} ·{' '}
+                  {sinkStatus?.delivered ?? 0} delivered · {sinkStatus?.failed ?? 0} failed ·{' '}
+                  {sinkStatus?.pending ?? 0} pending
+                  {sinkStatus?.dropped ? ` · ${sinkStatus.dropped} dropped` : ''}
+                </div>
+                {sinkStatus?.lastError && (
+                  <div className="sink-error">Last error: {sinkStatus.lastError}</div>
+                )}
+              </div>
+              <div className="profile-actions">
+                <button
+                  className="settings-copy"
+                  onClick={() => runAction(() => window.api.sinks.test(sink.id))}
+                  title="Send a test event"
+                  disabled={busy}
+                >
+                  <Send />
+                </button>
+                <button
+                  className="settings-copy"
+                  onClick={() => setLogSinkId(logSinkId === sink.id ? null : sink.id)}
+                  title="Delivery log"
+                >
+                  <ScrollText />
+                </button>
+                <button
+                  className="settings-copy"
+                  onClick={() => setDraft(toSinkDraft(sink))}
+                  title="Edit sink"
+                  disabled={busy}
+                >
+                  <Pencil />
+                </button>
+                <button
+                  className="settings-copy"
+                  onClick={() => handleDelete(sink)}
+                  title="Delete sink"
+                  disabled={busy}
+                >
+                  <Trash2 />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {logSinkId && (
+        <div className="sink-log">
+          <div className="sink-log-title">
+            Delivery log · {sinks.find((s) => s.id === logSinkId)?.name}
+          </div>
+          {deliveries.length === 0 ? (
+            <div className="diagnostic-empty">No deliveries yet.</div>
+          ) : (
+            <div className="diagnostic-list">
+              {deliveries.map((delivery, i) => (
+                <div
+                  key={`${delivery.at}-${i}`}
+                  className={`sink-delivery ${delivery.ok ? 'ok' : 'failed'}`}
+                >
+                  <span className="diagnostic-time">
+                    {new Date(delivery.at).toLocaleTimeString()}
+                  </span>
+                  <span className="mono">{delivery.eventType}</span>
+                  <span>
+                    {delivery.ok ? 'delivered' : delivery.gaveUp ? 'gave up' : 'failed'}
+                    {delivery.attempt > 1 && ` (attempt ${delivery.attempt})`}
+                  </span>
+                  <span className="sink-delivery-duration">{delivery.durationMs} ms</span>
+                  {delivery.error && <span className="sink-delivery-error">{delivery.error}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {draft && (
+        <div className="profile-form">
+          <label className="settings-field">
+            <span>Name</span>
+            <input
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="Home automation"
+            />
+          </label>
+          <label className="settings-field">
+            <span>Deliver to</span>
+            <select
+              value={draft.kind}
+              onChange={(e) => updateDraft({ kind: e.target.value as SinkKind })}
+            >
+              {SINK_KINDS.map((kind) => (
+                <option key={kind.value} value={kind.value}>
+                  {kind.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {draft.kind === 'http' && (
+            <>
+              <label className="settings-field">
+                <span>URL</span>
+                <input
+                  className="mono"
+                  value={draft.url}
+                  onChange={(e) => updateDraft({ url: e.target.value })}
+                  placeholder="http://127.0.0.1:8123/api/webhook/clawd"
+                />
+              </label>
+              <label className="settings-field">
+                <span>Headers</span>
+                <textarea
+                  className="mono"
+                  rows={2}
+                  value={draft.headers}
+                  onChange={(e) => updateDraft({ headers: e.target.value })}
+                  placeholder="Authorization: Bearer …"
+                />
+              </label>
+            </>
+          )}
+          {draft.kind === 'file' && (
+            <label className="settings-field">
+              <span>File path</span>
+              <input
+                className="mono"
+                value={draft.path}
+                onChange={(e) => updateDraft({ path: e.target.value })}
+                placeholder="/var/log/clawd/events.ndjson"
+              />
+            </label>
+          )}
+          {draft.kind === 'command' && (
+            <>
+              <label className="settings-field">
+                <span>Command</span>
+                <input
+                  className="mono"
+                  value={draft.command}
+                  onChange={(e) => updateDraft({ command: e.target.value })}
+                  placeholder="/usr/local/bin/handle-event"
+                />
+              </label>
+              <label className="settings-field">
+                <span>Arguments, one per line</span>
+                <textarea
+                  className="mono"
+                  rows={2}
+                  value={draft.args}
+                  onChange={(e) => updateDraft({ args: e.target.value })}
+                />
+              </label>
+            </>
+          )}
+          <label className="settings-field">
+            <span>Filter</span>
+            <input
+              className="mono"
+              value={draft.filter}
+              onChange={(e) => updateDraft({ filter: e.target.value })}
+              placeholder="type:cron.* payload.status=error -type:tick"
+            />
+          </label>
+          <label className="settings-field">
+            <span>Attempts per event</span>
+            <input
+              type="number"
+              min={1}
+              value={draft.maxAttempts}
+              onChange={(e) => updateDraft({ maxAttempts: e.target.value })}
+            />
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => updateDraft({ enabled: e.target.checked })}
+            />
+            <span>Enabled</span>
+          </label>
+          <div className="settings-actions">
+            <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={busy}>
+              {draft.id ? 'Save changes' : 'Create sink'}
+            </button>
+            <button className="btn btn-secondary btn-sm" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="settings-error">{error}</div>}
+    </section>
+  )
+}
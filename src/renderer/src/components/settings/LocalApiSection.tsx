@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react'
+import { RefreshCw, Copy, Check, Plug, Eye, EyeOff } from 'lucide-react'
+import type { LocalApiInfo } from '../../../../preload/index.d'
+
+export default function LocalApiSection(): React.JSX.Element {
+  const [info, setInfo] = useState<LocalApiInfo | null>(null)
+  const [enabled, setEnabled] = useState(false)
+  const [port, setPort] = useState('')
+  const [showToken, setShowToken] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyInfo = useCallback((next: LocalApiInfo) => {
+    setInfo(next)
+    setEnabled(next.enabled)
+    setPort(String(next.port))
+  }, [])
+
+  useEffect(() => {
+    let mounted = true
+    window.api.localApi
+      .info()
+      .then((result) => mounted && applyInfo(result))
+      .catch((err) => {
+        console.error('Failed to load local API settings:', err)
+        if (mounted) setError('Failed to load local API settings')
+      })
+    return () => {
+      mounted = false
+    }
+  }, [applyInfo])
+
+  const handleSave = useCallback(async () => {
+    setBusy(true)
+    try {
+      const result = await window.api.localApi.configure({ enabled, port: Number(port) })
+      applyInfo(result.info)
+      setError(result.success ? null : result.error || 'Failed to apply settings')
+    } finally {
+      setBusy(false)
+    }
+  }, [applyInfo, enabled, port])
+
+  const handleRegenerate = useCallback(async () => {
+    if (!window.confirm('Generate a new token? Clients using the current one will stop working.')) {
+      return
+    }
+    setBusy(true)
+    try {
+      const result = await window.api.localApi.regenerateToken()
+      if (result.success && result.info) {
+        applyInfo(result.info)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to generate a new token')
+      }
+    } finally {
+      setBusy(false)
+    }
+  }, [applyInfo])
+
+  const dirty = info !== null && (enabled !== info.enabled || port !== String(info.port))
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Plug className="settings-card-icon" />
+        <h3>Local API</h3>
+      </div>
+      <p className="settings-hint">
+        Serves events, runs, cron jobs and skills over HTTP on 127.0.0.1 for editor plugins and
+        scripts, with a live event stream at <span className="mono">/events/stream</span>. Requests
+        must send the token as <span className="mono">Authorization: Bearer &lt;token&gt;</span>.
+      </p>
+
+      {info && (
+        <>
+          <div className="profile-form local-api-form">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              <span>Enable local API</span>
+            </label>
+            <label className="settings-field">
+              <span>Port</span>
+              <input
+                className="mono"
+                type="number"
+                min={1024}
+                max={65535}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+              />
+            </label>
+          </div>
+
+          <dl className="settings-fields">
+            <dt>Status</dt>
+            <dd>
+              {info.running
+                ? `Listening, ${info.streams} event stream${info.streams === 1 ? '' : 's'} open`
+                : info.enabled
+                  ? 'Not running'
+                  : 'Disabled'}
+            </dd>
+            {info.url && (
+              <>
+                <dt>URL</dt>
+                <dd className="mono">
+                  {info.url}
+                  <button
+                    className="settings-copy"
+                    onClick={() => navigator.clipboard.writeText(info.url!)}
+                    title="Copy URL"
+                  >
+                    <Copy />
+                  </button>
+                </dd>
+              </>
+            )}
+            <dt>Token</dt>
+            <dd className="mono">
+              {showToken ? info.token : '•'.repeat(24)}
+              <button
+                className="settings-copy"
+                onClick={() => setShowToken((shown) => !shown)}
+                title={showToken ? 'Hide token' : 'Show token'}
+              >
+                {showToken ? <EyeOff /> : <Eye />}
+              </button>
+              <button
+                className="settings-copy"
+                onClick={() => navigator.clipboard.writeText(info.token)}
+                title="Copy token"
+              >
+                <Copy />
+              </button>
+            </dd>
+          </dl>
+        </>
+      )}
+
+      {(error || info?.error) && <div className="settings-error">{error || info?.error}</div>}
+
+      <div className="settings-actions">
+        <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={busy || !dirty}>
+          <Check className="btn-icon" />
+          Apply
+        </button>
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={handleRegenerate}
+          disabled={busy || !info}
+        >
+          <RefreshCw className="btn-icon" />
+          New token
+        </button>
+      </div>
+    </section>
+  )
+}
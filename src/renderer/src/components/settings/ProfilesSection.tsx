@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Server, Plus, Pencil, Trash2, Check } from 'lucide-react'
+import type { ConnectionProfileInfo } from '../../../../preload/index.d'
+
+interface ProfileDraft {
+  id?: string
+  name: string
+  url: string
+  scopes: string
+  displayName: string
+  enabled: boolean
+  localCli: boolean
+  token: string
+  clearToken: boolean
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  url: 'ws://',
+  scopes: 'operator.read, operator.write',
+  displayName: 'Clawd Monitor',
+  enabled: true,
+  localCli: false,
+  token: '',
+  clearToken: false
+}
+
+function toDraft(profile: ConnectionProfileInfo): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    url: profile.url,
+    scopes: profile.scopes.join(', '),
+    displayName: profile.displayName,
+    enabled: profile.enabled,
+    localCli: profile.localCli,
+    token: '',
+    clearToken: false
+  }
+}
+
+export default function ProfilesSection(): React.JSX.Element {
+  const [profiles, setProfiles] = useState<ConnectionProfileInfo[]>([])
+  const [activeId, setActiveId] = useState('')
+  const [draft, setDraft] = useState<ProfileDraft | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const result = await window.api.profiles.list()
+      setProfiles(result.profiles)
+      setActiveId(result.activeId)
+    } catch (err) {
+      console.error('Failed to load profiles:', err)
+      setError('Failed to load profiles')
+    }
+  }, [])
+
+  useEffect(() => {
+    let mounted = true
+    window.api.profiles
+      .list()
+      .then((result) => {
+        if (!mounted) return
+        setProfiles(result.profiles)
+        setActiveId(result.activeId)
+      })
+      .catch((err) => {
+        console.error('Failed to load profiles:', err)
+        if (mounted) setError('Failed to load profiles')
+      })
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  const runAction = useCallback(
+    async (action: () => Promise<{ success: boolean; error?: string }>) => {
+      setBusy(true)
+      setError(null)
+      try {
+        const result = await action()
+        if (!result.success) {
+          setError(result.error || 'Operation failed')
+          return false
+        }
+        await loadProfiles()
+        return true
+      } finally {
+        setBusy(false)
+      }
+    },
+    [loadProfiles]
+  )
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return
+    const saved = await runAction(() =>
+      window.api.profiles.save({
+        id: draft.id,
+        name: draft.name,
+        url: draft.url,
+        scopes: draft.scopes.split(','),
+        displayName: draft.displayName,
+        enabled: draft.enabled,
+        localCli: draft.localCli,
+        // Leave the stored token alone unless a new one was typed or it was cleared
+        token: draft.clearToken ? '' : draft.token || undefined
+      })
+    )
+    if (saved) setDraft(null)
+  }, [draft, runAction])
+
+  const handleDelete = useCallback(
+    (profile: ConnectionProfileInfo) => {
+      if (!window.confirm(`Delete profile "${profile.name}"?`)) return
+      runAction(() => window.api.profiles.delete(profile.id))
+    },
+    [runAction]
+  )
+
+  const updateDraft = (patch: Partial<ProfileDraft>): void => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Server className="settings-card-icon" />
+        <h3>Gateway Profiles</h3>
+        <button
+          className="btn btn-secondary btn-sm settings-header-action"
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          disabled={busy}
+        >
+          <Plus className="btn-icon" />
+          New profile
+        </button>
+      </div>
+      <p className="settings-hint">
+        Every enabled profile is monitored at the same time. The default one is shown first.
+      </p>
+
+      <div className="profile-list">
+        {profiles.map((profile) => (
+          <div
+            key={profile.id}
+            className={`profile-item ${profile.id === activeId ? 'active' : ''}`}
+          >
+            <div className="profile-info">
+              <div className="profile-name">
+                {profile.name}
+                {profile.id === activeId && <span className="profile-active">default</span>}
+                {!profile.enabled && <span className="profile-disabled">disabled</span>}
+              </div>
+              <div className="profile-url mono">{profile.url}</div>
+              <div className="profile-meta">
+                {profile.scopes.join(', ') || 'no scopes'} ·{' '}
+                {profile.hasToken ? 'token set' : 'no token'} ·{' '}
+                {profile.localCli ? 'local CLI' : 'gateway RPC'}
+              </div>
+            </div>
+            <div className="profile-actions">
+              {profile.id !== activeId && (
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => runAction(() => window.api.profiles.activate(profile.id))}
+                  disabled={busy}
+                >
+                  <Check className="btn-icon" />
+                  Make default
+                </button>
+              )}
+              <button
+                className="settings-copy"
+                onClick={() => setDraft(toDraft(profile))}
+                title="Edit profile"
+                disabled={busy}
+              >
+                <Pencil />
+              </button>
+              <button
+                className="settings-copy"
+                onClick={() => handleDelete(profile)}
+                title="Delete profile"
+                disabled={busy || profiles.length <= 1}
+              >
+                <Trash2 />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="profile-form">
+          <label className="settings-field">
+            <span>Name</span>
+            <input
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="Home gateway"
+            />
+          </label>
+          <label className="settings-field">
+            <span>Gateway URL</span>
+            <input
+              className="mono"
+              value={draft.url}
+              onChange={(e) => updateDraft({ url: e.target.value })}
+              placeholder="ws://127.0.0.1:18789"
+            />
+          </label>
+          <label className="settings-field">
+            <span>Auth token</span>
+            <input
+              type="password"
+              value={draft.token}
+              onChange={(e) => updateDraft({ token: e.target.value, clearToken: false })}
+              placeholder={draft.id ? 'Leave blank to keep the current token' : 'Optional'}
+            />
+          </label>
+          {draft.id && profiles.find((p) => p.id === draft.id)?.hasToken && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={draft.clearToken}
+                onChange={(e) => updateDraft({ clearToken: e.target.checked, token: '' })}
+              />
+              <span>Remove stored token</span>
+            </label>
+          )}
+          <label className="settings-field">
+            <span>Scopes</span>
+            <input
+              className="mono"
+              value={draft.scopes}
+              onChange={(e) => updateDraft({ scopes: e.target.value })}
+              placeholder="operator.read, operator.write"
+            />
+          </label>
+          <label className="settings-field">
+            <span>Client name</span>
+            <input
+              value={draft.displayName}
+              onChange={(e) => updateDraft({ displayName: e.target.value })}
+            />
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => updateDraft({ enabled: e.target.checked })}
+            />
+            <span>Monitor this gateway</span>
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draft.localCli}
+              onChange={(e) => updateDraft({ localCli: e.target.checked })}
+            />
+            <span>Read cron jobs and skills from the local clawdbot CLI</span>
+          </label>
+          <div className="settings-actions">
+            <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={busy}>
+              {draft.id ? 'Save changes' : 'Create profile'}
+            </button>
+            <button className="btn btn-secondary btn-sm" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="settings-error">{error}</div>}
+    </section>
+  )
+}
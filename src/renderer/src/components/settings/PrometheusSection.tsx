@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Copy, Check, Activity } from 'lucide-react'
+import type { PrometheusInfo } from '../../../../preload/index.d'
+
+export default function PrometheusSection(): React.JSX.Element {
+  const [info, setInfo] = useState<PrometheusInfo | null>(null)
+  const [enabled, setEnabled] = useState(false)
+  const [port, setPort] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyInfo = useCallback((next: PrometheusInfo) => {
+    setInfo(next)
+    setEnabled(next.enabled)
+    setPort(String(next.port))
+  }, [])
+
+  useEffect(() => {
+    let mounted = true
+    window.api.prometheus
+      .info()
+      .then((result) => mounted && applyInfo(result))
+      .catch((err) => {
+        console.error('Failed to load Prometheus settings:', err)
+        if (mounted) setError('Failed to load Prometheus settings')
+      })
+    return () => {
+      mounted = false
+    }
+  }, [applyInfo])
+
+  const handleSave = useCallback(async () => {
+    setBusy(true)
+    try {
+      const result = await window.api.prometheus.configure({ enabled, port: Number(port) })
+      applyInfo(result.info)
+      setError(result.success ? null : result.error || 'Failed to apply settings')
+    } finally {
+      setBusy(false)
+    }
+  }, [applyInfo, enabled, port])
+
+  const dirty = info !== null && (enabled !== info.enabled || port !== String(info.port))
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Activity className="settings-card-icon" />
+        <h3>Prometheus Metrics</h3>
+      </div>
+      <p className="settings-hint">
+        Exposes gateway connection state, reconnects, event counts, RPC latency, cron job results,
+        skill runs and autonomous sessions at <span className="mono">/metrics</span> on 127.0.0.1,
+        without authentication.
+      </p>
+
+      {info && (
+        <>
+          <div className="profile-form local-api-form">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              <span>Enable metrics endpoint</span>
+            </label>
+            <label className="settings-field">
+              <span>Port</span>
+              <input
+                className="mono"
+                type="number"
+                min={1024}
+                max={65535}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {info.url && (
+            <dl className="settings-fields">
+              <dt>Scrape URL</dt>
+              <dd className="mono">
+                {info.url}
+                <button
+                  className="settings-copy"
+                  onClick={() => navigator.clipboard.writeText(info.url!)}
+                  title="Copy URL"
+                >
+                  <Copy />
+                </button>
+              </dd>
+            </dl>
+          )}
+        </>
+      )}
+
+      {(error || info?.error) && <div className="settings-error">{error || info?.error}</div>}
+
+      <div className="settings-actions">
+        <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={busy || !dirty}>
+          <Check className="btn-icon" />
+          Apply
+        </button>
+      </div>
+    </section>
+  )
+}
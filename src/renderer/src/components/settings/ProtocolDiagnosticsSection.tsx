@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react'
+import { FileWarning } from 'lucide-react'
+import type { GatewayDiagnostic } from '../../../../shared/gateway'
+
+const MAX_DIAGNOSTICS = 50
+
+export default function ProtocolDiagnosticsSection(): React.JSX.Element {
+  const [diagnostics, setDiagnostics] = useState<GatewayDiagnostic[]>([])
+  const [names, setNames] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    let mounted = true
+    Promise.all([window.api.gateway.diagnostics(), window.api.gateway.list()])
+      .then(([initial, gateways]) => {
+        if (!mounted) return
+        setDiagnostics(initial)
+        setNames(Object.fromEntries(gateways.map((g) => [g.id, g.name])))
+      })
+      .catch((err) => console.error('Failed to load protocol diagnostics:', err))
+
+    const unsubscribe = window.api.gateway.onDiagnostic((diagnostic) => {
+      setDiagnostics((prev) => [...prev, diagnostic].slice(-MAX_DIAGNOSTICS))
+    })
+    return () => {
+      mounted = false
+      unsubscribe()
+    }
+  }, [])
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <FileWarning className="settings-card-icon" />
+        <h3>Protocol Diagnostics</h3>
+      </div>
+      <p className="settings-hint">
+        Frames a gateway sent that did not match the expected protocol. They are dropped instead of
+        being shown as events.
+      </p>
+
+      {diagnostics.length === 0 ? (
+        <div className="diagnostic-empty">No malformed frames received.</div>
+      ) : (
+        <div className="diagnostic-list">
+          {[...diagnostics].reverse().map((diagnostic, i) => (
+            <details key={`${diagnostic.timestamp}-${i}`} className="diagnostic-item">
+              <summary>
+                <span className="diagnostic-time">
+                  {new Date(diagnostic.timestamp).toLocaleTimeString()}
+                </span>
+                {diagnostic.gatewayId && (
+                  <span className="diagnostic-gateway">
+                    {names[diagnostic.gatewayId] ?? diagnostic.gatewayId}
+                  </span>
+                )}
+                <span className="diagnostic-message">{diagnostic.message}</span>
+              </summary>
+              <pre className="diagnostic-raw mono">{diagnostic.raw}</pre>
+            </details>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Circle, Square, Play, FolderOpen, X } from 'lucide-react'
+import { REPLAY_GATEWAY_ID, stateLabel } from '../../lib/gatewayStatus'
+import type { GatewaySummary } from '../../../../shared/gateway'
+
+const REPLAY_SPEEDS = [
+  { value: 0.5, label: '0.5×' },
+  { value: 1, label: '1×' },
+  { value: 2, label: '2×' },
+  { value: 10, label: '10×' },
+  { value: 0, label: 'Instant' }
+]
+
+export default function SessionCaptureSection(): React.JSX.Element {
+  const [gateways, setGateways] = useState<GatewaySummary[]>([])
+  const [speed, setSpeed] = useState(1)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lastCapture, setLastCapture] = useState<string | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+    window.api.gateway
+      .list()
+      .then((list) => mounted && setGateways(list))
+      .catch((err) => console.error('Failed to load gateways:', err))
+
+    const unsubscribeStatus = window.api.gateway.onStatusChange((summary) => {
+      setGateways((prev) =>
+        prev.some((g) => g.id === summary.id)
+          ? prev.map((g) => (g.id === summary.id ? summary : g))
+          : [...prev, summary]
+      )
+    })
+    const unsubscribeRemoved = window.api.gateway.onRemoved((gatewayId) => {
+      setGateways((prev) => prev.filter((g) => g.id !== gatewayId))
+    })
+    return () => {
+      mounted = false
+      unsubscribeStatus()
+      unsubscribeRemoved()
+    }
+  }, [])
+
+  const runAction = useCallback(
+    async (action: () => Promise<{ success: boolean; path?: string; error?: string }>) => {
+      setBusy(true)
+      try {
+        const result = await action()
+        if (result.error) {
+          setError(result.error)
+        } else {
+          setError(null)
+          if (result.path) setLastCapture(result.path)
+        }
+      } finally {
+        setBusy(false)
+      }
+    },
+    []
+  )
+
+  const replayGateway = gateways.find((g) => g.id === REPLAY_GATEWAY_ID)
+
+  return (
+    <section className="settings-card">
+      <div className="settings-card-header">
+        <Circle className="settings-card-icon" />
+        <h3>Session Capture</h3>
+      </div>
+      <p className="settings-hint">
+        Record every raw frame a gateway sends and receives, then replay the capture to reproduce a
+        bug. Tokens are redacted from recordings.
+      </p>
+
+      <div className="profile-list">
+        {gateways
+          .filter((g) => g.id !== replayGateway?.id)
+          .map((gateway) => (
+            <div key={gateway.id} className="profile-item">
+              <div className="profile-info">
+                <div className="profile-name">
+                  {gateway.name}
+                  {gateway.status.recording && <span className="capture-rec">recording</span>}
+                </div>
+                <div className="profile-url mono">
+                  {gateway.status.recording ?? stateLabel(gateway.status.state)}
+                </div>
+              </div>
+              <div className="profile-actions">
+                {gateway.status.recording ? (
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => runAction(() => window.api.session.stopRecording(gateway.id))}
+                    disabled={busy}
+                  >
+                    <Square className="btn-icon" />
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => runAction(() => window.api.session.record(gateway.id))}
+                    disabled={busy}
+                  >
+                    <Circle className="btn-icon" />
+                    Record
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+      </div>
+
+      {lastCapture && (
+        <div className="capture-last">
+          Saved <span className="mono">{lastCapture}</span>
+          <button
+            className="settings-copy"
+            onClick={() => window.api.session.reveal(lastCapture)}
+            title="Show in folder"
+          >
+            <FolderOpen />
+          </button>
+        </div>
+      )}
+
+      {error && <div className="settings-error">{error}</div>}
+
+      <div className="settings-actions">
+        <select
+          className="capture-speed"
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={() => runAction(() => window.api.session.replay(speed))}
+          disabled={busy}
+        >
+          <Play className="btn-icon" />
+          Replay capture…
+        </button>
+        {replayGateway && (
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => runAction(() => window.api.session.closeReplay())}
+            disabled={busy}
+          >
+            <X className="btn-icon" />
+            Close {replayGateway.name}
+          </button>
+        )}
+      </div>
+    </section>
+  )
+}
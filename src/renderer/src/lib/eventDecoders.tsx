@@ -0,0 +1,565 @@
+/**
+ * Turns raw gateway event payloads into typed models the views can show.
+ * Decoders are looked up by exact event name first, then by the family
+ * before the first dot, so `agent` and `agent.output` share one. A decoder
+ * returning null (or no decoder at all) leaves the event to the raw JSON view.
+ */
+
+import type { ReactNode } from 'react'
+import { DONE_STATUSES, FAILED_STATUSES, WARNING_STATUSES } from '../../../shared/statuses'
+
+export type Severity = 'info' | 'success' | 'warning' | 'error'
+
+/** Event fields a decoder can look at besides the payload. */
+export interface DecodableEvent {
+  type: string
+  event?: string
+  payload?: unknown
+  timestamp?: number
+}
+
+export interface DecodedEvent<M = unknown> {
+  /** Decoder family, e.g. `agent` or `cron`. */
+  kind: string
+  model: M
+  /** One line, suitable for lists. */
+  summary: string
+  severity: Severity
+  /** Card body for the model. */
+  render: () => ReactNode
+}
+
+interface EventDecoder<M> {
+  kind: string
+  decode(payload: unknown, event: DecodableEvent): M | null
+  summary(model: M): string
+  severity(model: M): Severity
+  render(model: M): ReactNode
+}
+
+const SUMMARY_LENGTH = 120
+
+// Payload readers
+
+type Fields = Record<string, unknown>
+
+function record(value: unknown): Fields | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Fields)
+    : null
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/** The part of an event name after the family, e.g. `started` in `cron.started`. */
+function action(event: DecodableEvent): string | undefined {
+  const name = event.type || event.event || ''
+  const dot = name.indexOf('.')
+  return dot === -1 ? undefined : name.slice(dot + 1)
+}
+
+function truncate(text: string, length = SUMMARY_LENGTH): string {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line
+}
+
+/** Message text from a string or a list of content blocks. */
+function contentText(content: unknown): string | undefined {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return undefined
+  const text = content
+    .map((block) => str(record(block)?.text))
+    .filter(Boolean)
+    .join('')
+  return text || undefined
+}
+
+function errorText(value: unknown): string | undefined {
+  return str(value) ?? str(record(value)?.message)
+}
+
+function statusSeverity(status: string | undefined): Severity | undefined {
+  if (!status) return undefined
+  const lower = status.toLowerCase()
+  if (FAILED_STATUSES.includes(lower)) return 'error'
+  if (WARNING_STATUSES.includes(lower)) return 'warning'
+  if (DONE_STATUSES.includes(lower)) return 'success'
+  return undefined
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`
+  return `${Math.round(ms / 60_000)} min`
+}
+
+// Card building blocks
+
+function fieldList(fields: [string, ReactNode | undefined][]): ReactNode {
+  const shown = fields.filter(([, value]) => value !== undefined && value !== '')
+  if (shown.length === 0) return null
+  return (
+    <dl className="event-fields">
+      {shown.map(([label, value]) => (
+        <div key={label} className="event-field">
+          <dt>{label}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+function textBlock(text: string | undefined, tone?: Severity): ReactNode {
+  if (!text) return null
+  return <div className={`event-text ${tone ? `tone-${tone}` : ''}`}>{text}</div>
+}
+
+// Agent runs: `agent.started` / `agent.output` / `agent.finished`, or a
+// single `agent` event whose `stream` says what happened
+
+export interface AgentEventModel {
+  phase: 'started' | 'output' | 'tool' | 'finished' | 'error' | 'other'
+  runId?: string
+  agent?: string
+  text?: string
+  tool?: string
+  status?: string
+  error?: string
+}
+
+function agentPhase(name: string | undefined): AgentEventModel['phase'] {
+  switch (name) {
+    case 'start':
+    case 'started':
+      return 'started'
+    case 'assistant':
+    case 'output':
+    case 'delta':
+      return 'output'
+    case 'tool':
+      return 'tool'
+    case 'end':
+    case 'finished':
+    case 'completed':
+      return 'finished'
+    case 'error':
+    case 'failed':
+      return 'error'
+    default:
+      return 'other'
+  }
+}
+
+const agentDecoder: EventDecoder<AgentEventModel> = {
+  kind: 'agent',
+  decode(payload, event) {
+    const fields = record(payload)
+    if (!fields) return null
+    const data = record(fields.data) ?? {}
+    const stream = str(fields.stream)
+    const phaseName =
+      action(event) ?? (stream === 'lifecycle' ? str(data.phase) : stream) ?? str(fields.phase)
+    return {
+      phase: agentPhase(phaseName),
+      runId: str(fields.runId),
+      agent: str(fields.agent) ?? str(fields.agentId),
+      text: str(fields.text) ?? str(data.text) ?? str(data.delta),
+      tool: str(fields.tool) ?? str(data.name) ?? str(data.tool),
+      status: str(fields.status) ?? str(data.status),
+      error: errorText(fields.error) ?? errorText(data.error)
+    }
+  },
+  summary(model) {
+    const who = model.agent ?? 'Agent'
+    switch (model.phase) {
+      case 'started':
+        return `${who} started a run`
+      case 'output':
+        return model.text ? truncate(model.text) : `${who} is responding`
+      case 'tool':
+        return `${who} called ${model.tool ?? 'a tool'}`
+      case 'finished':
+        return `${who} finished${model.status ? ` (${model.status})` : ''}`
+      case 'error':
+        return `${who} failed${model.error ? `: ${truncate(model.error)}` : ''}`
+      default:
+        return model.text ? truncate(model.text) : `${who} update`
+    }
+  },
+  severity(model) {
+    if (model.phase === 'error' || model.error) return 'error'
+    return statusSeverity(model.status) ?? (model.phase === 'finished' ? 'success' : 'info')
+  },
+  render(model) {
+    return (
+      <>
+        {textBlock(model.text)}
+        {textBlock(model.error, 'error')}
+        {fieldList([
+          ['Agent', model.agent],
+          ['Run', model.runId],
+          ['Tool', model.tool],
+          ['Status', model.status]
+        ])}
+      </>
+    )
+  }
+}
+
+// Chat messages streamed for a session
+
+export interface ChatEventModel {
+  state?: string
+  sessionKey?: string
+  runId?: string
+  role?: string
+  text?: string
+  error?: string
+}
+
+const chatDecoder: EventDecoder<ChatEventModel> = {
+  kind: 'chat',
+  decode(payload, event) {
+    const fields = record(payload)
+    if (!fields) return null
+    const message = record(fields.message)
+    return {
+      state: str(fields.state) ?? action(event),
+      sessionKey: str(fields.sessionKey),
+      runId: str(fields.runId),
+      role: str(message?.role) ?? str(fields.role),
+      text: contentText(message?.content) ?? str(message?.text) ?? str(fields.text),
+      error: errorText(fields.errorMessage) ?? errorText(fields.error)
+    }
+  },
+  summary(model) {
+    if (model.error) return `Chat error: ${truncate(model.error)}`
+    if (model.state === 'aborted') return 'Chat reply aborted'
+    const who = model.role ?? 'chat'
+    return model.text ? `${who}: ${truncate(model.text)}` : `${who} ${model.state ?? 'update'}`
+  },
+  severity(model) {
+    if (model.error || model.state === 'error') return 'error'
+    if (model.state === 'aborted') return 'warning'
+    return 'info'
+  },
+  render(model) {
+    return (
+      <>
+        {textBlock(model.text)}
+        {textBlock(model.error, 'error')}
+        {fieldList([
+          ['Role', model.role],
+          ['State', model.state],
+          ['Session', model.sessionKey],
+          ['Run', model.runId]
+        ])}
+      </>
+    )
+  }
+}
+
+// Cron job lifecycle
+
+export interface CronEventModel {
+  action?: string
+  jobId?: string
+  name?: string
+  runId?: string
+  status?: string
+  error?: string
+  durationMs?: number
+  nextRunAtMs?: number
+  output?: string
+}
+
+const cronDecoder: EventDecoder<CronEventModel> = {
+  kind: 'cron',
+  decode(payload, event) {
+    const fields = record(payload) ?? {}
+    return {
+      action: action(event) ?? str(fields.action),
+      jobId: str(fields.jobId) ?? str(fields.id),
+      name: str(fields.name) ?? str(fields.jobName),
+      runId: str(fields.runId),
+      status: str(fields.status),
+      error: errorText(fields.error),
+      durationMs: num(fields.durationMs),
+      nextRunAtMs: num(fields.nextRunAtMs),
+      output: str(fields.output) ?? str(fields.summary)
+    }
+  },
+  summary(model) {
+    const job = model.name ?? model.jobId ?? 'Cron job'
+    if (model.error) return `${job} failed: ${truncate(model.error)}`
+    const what = model.action ?? 'updated'
+    return `${job} ${what}${model.status ? `: ${model.status}` : ''}`
+  },
+  severity(model) {
+    if (model.error) return 'error'
+    return statusSeverity(model.status) ?? 'info'
+  },
+  render(model) {
+    return (
+      <>
+        {textBlock(model.output)}
+        {textBlock(model.error, 'error')}
+        {fieldList([
+          ['Job', model.name ?? model.jobId],
+          ['Run', model.runId],
+          ['Status', model.status],
+          [
+            'Duration',
+            model.durationMs !== undefined ? formatDuration(model.durationMs) : undefined
+          ],
+          [
+            'Next run',
+            model.nextRunAtMs !== undefined
+              ? new Date(model.nextRunAtMs).toLocaleString()
+              : undefined
+          ]
+        ])}
+      </>
+    )
+  }
+}
+
+// Connected clients, sent as a full list whenever someone joins or leaves
+
+export interface PresenceEntry {
+  host?: string
+  mode?: string
+  reason?: string
+  lastInputSeconds?: number
+}
+
+export interface PresenceEventModel {
+  entries: PresenceEntry[]
+}
+
+const presenceDecoder: EventDecoder<PresenceEventModel> = {
+  kind: 'presence',
+  decode(payload) {
+    const fields = record(payload)
+    const list = Array.isArray(payload)
+      ? payload
+      : (fields?.presence ?? fields?.entries ?? [payload])
+    if (!Array.isArray(list)) return null
+    return {
+      entries: list
+        .map(record)
+        .filter((entry): entry is Fields => entry !== null)
+        .map((entry) => ({
+          host: str(entry.host) ?? str(entry.deviceId) ?? str(entry.instanceId),
+          mode: str(entry.mode),
+          reason: str(entry.reason),
+          lastInputSeconds: num(entry.lastInputSeconds)
+        }))
+    }
+  },
+  summary(model) {
+    if (model.entries.length === 1) {
+      const [entry] = model.entries
+      return `${entry.host ?? 'A client'} ${entry.reason ?? 'is present'}`
+    }
+    return `${model.entries.length} clients present`
+  },
+  severity() {
+    return 'info'
+  },
+  render(model) {
+    return fieldList(
+      model.entries.map((entry, i) => [
+        entry.host ?? `Client ${i + 1}`,
+        [entry.mode, entry.reason].filter(Boolean).join(' · ') || 'present'
+      ])
+    )
+  }
+}
+
+// Periodic health snapshots
+
+export interface HealthEventModel {
+  ok?: boolean
+  /** Top-level checks that reported a boolean or string state. */
+  checks: [string, string][]
+  issues: string[]
+}
+
+const healthDecoder: EventDecoder<HealthEventModel> = {
+  kind: 'health',
+  decode(payload) {
+    const fields = record(payload)
+    if (!fields) return null
+    const checks: [string, string][] = []
+    for (const [key, value] of Object.entries(fields)) {
+      if (key === 'ok' || key === 'issues') continue
+      const nested = record(value)
+      const state = nested ? (nested.ok ?? nested.status ?? nested.state) : value
+      if (typeof state === 'boolean') checks.push([key, state ? 'ok' : 'failing'])
+      else if (typeof state === 'string' || typeof state === 'number') {
+        checks.push([key, String(state)])
+      }
+    }
+    const issues = Array.isArray(fields.issues)
+      ? fields.issues.map((issue) => errorText(issue) ?? JSON.stringify(issue))
+      : []
+    return { ok: typeof fields.ok === 'boolean' ? fields.ok : undefined, checks, issues }
+  },
+  summary(model) {
+    if (model.ok === false || model.issues.length > 0) {
+      return `Unhealthy${model.issues.length > 0 ? `: ${truncate(model.issues.join('; '))}` : ''}`
+    }
+    const failing = model.checks.filter(([, state]) => state === 'failing').map(([key]) => key)
+    if (failing.length > 0) return `Degraded: ${failing.join(', ')}`
+    return model.ok ? 'Healthy' : 'Health report'
+  },
+  severity(model) {
+    if (model.ok === false || model.issues.length > 0) return 'error'
+    if (model.checks.some(([, state]) => state === 'failing')) return 'warning'
+    return model.ok ? 'success' : 'info'
+  },
+  render(model) {
+    return (
+      <>
+        {textBlock(model.issues.join('\n'), 'error')}
+        {fieldList(model.checks)}
+      </>
+    )
+  }
+}
+
+// Keepalive ticks
+
+export interface TickEventModel {
+  ts?: number
+}
+
+const tickDecoder: EventDecoder<TickEventModel> = {
+  kind: 'tick',
+  decode(payload) {
+    return { ts: num(record(payload)?.ts) ?? num(payload) }
+  },
+  summary(model) {
+    return model.ts ? `Tick at ${new Date(model.ts).toLocaleTimeString()}` : 'Tick'
+  },
+  severity() {
+    return 'info'
+  },
+  render(model) {
+    return fieldList([['Gateway time', model.ts ? new Date(model.ts).toLocaleString() : undefined]])
+  }
+}
+
+// Telegram channel traffic
+
+export interface TelegramEventModel {
+  direction: 'in' | 'out' | 'unknown'
+  chat?: string
+  from?: string
+  text?: string
+  error?: string
+}
+
+const telegramDecoder: EventDecoder<TelegramEventModel> = {
+  kind: 'telegram',
+  decode(payload, event) {
+    const fields = record(payload)
+    if (!fields) return null
+    const message = record(fields.message) ?? fields
+    const chat = record(message.chat)
+    const from = record(message.from)
+    const verb = action(event) ?? str(fields.direction) ?? ''
+    return {
+      direction: /sent|send|out|reply/.test(verb)
+        ? 'out'
+        : /receiv|incoming|message|^in$/.test(verb)
+          ? 'in'
+          : 'unknown',
+      chat: str(chat?.title) ?? str(chat?.username) ?? str(fields.chatId) ?? str(message.chatId),
+      from: str(from?.username) ?? str(from?.first_name) ?? str(fields.from) ?? str(fields.sender),
+      text: str(message.text) ?? str(message.caption),
+      error: errorText(fields.error)
+    }
+  },
+  summary(model) {
+    if (model.error) return `Telegram error: ${truncate(model.error)}`
+    const who =
+      model.direction === 'out' ? `To ${model.chat ?? 'chat'}` : (model.from ?? 'Telegram')
+    return model.text ? `${who}: ${truncate(model.text)}` : `${who}: (no text)`
+  },
+  severity(model) {
+    return model.error ? 'error' : 'info'
+  },
+  render(model) {
+    return (
+      <>
+        {textBlock(model.text)}
+        {textBlock(model.error, 'error')}
+        {fieldList([
+          ['Direction', model.direction === 'unknown' ? undefined : model.direction],
+          ['Chat', model.chat],
+          ['From', model.from]
+        ])}
+      </>
+    )
+  }
+}
+
+// Registry
+
+// Decoders are stored type-erased; each one only ever sees its own model
+const DECODERS = new Map<string, EventDecoder<unknown>>(
+  [
+    agentDecoder,
+    chatDecoder,
+    cronDecoder,
+    presenceDecoder,
+    healthDecoder,
+    tickDecoder,
+    telegramDecoder
+  ].map((decoder) => [decoder.kind, decoder as EventDecoder<unknown>])
+)
+
+function decoderFor(name: string): EventDecoder<unknown> | undefined {
+  const lower = name.toLowerCase()
+  return DECODERS.get(lower) ?? DECODERS.get(lower.split('.')[0])
+}
+
+/** Decodes an event, or returns null when it should be shown as raw JSON. */
+export function decodeEvent(event: DecodableEvent): DecodedEvent | null {
+  const decoder = decoderFor(event.type || event.event || '')
+  if (!decoder) return null
+  try {
+    const model = decoder.decode(event.payload, event)
+    if (model === null) return null
+    return {
+      kind: decoder.kind,
+      model,
+      summary: decoder.summary(model),
+      severity: decoder.severity(model),
+      render: () => decoder.render(model)
+    }
+  } catch (err) {
+    // A payload shape we did not anticipate should not break the list
+    console.warn(`Failed to decode ${event.type} event:`, err)
+    return null
+  }
+}
+
+/** One-line summary for lists, falling back to a preview of the raw payload. */
+export function summarizeEvent(event: DecodableEvent): string {
+  const decoded = decodeEvent(event)
+  if (decoded) return decoded.summary
+  if (event.payload === undefined || event.payload === null) return ''
+  return truncate(
+    typeof event.payload === 'string' ? event.payload : (JSON.stringify(event.payload) ?? '')
+  )
+}
@@ -0,0 +1,59 @@
+import type { ConnectionState, GatewayStatus } from '../../../shared/gateway'
+
+/** Pseudo gateway id for the merged view across every gateway. */
+export const ALL_GATEWAYS = 'all'
+
+/** Id of the pseudo gateway that plays back a recorded session. */
+export const REPLAY_GATEWAY_ID = 'replay'
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  idle: 'Disconnected',
+  connecting: 'Connecting',
+  'awaiting-challenge': 'Awaiting challenge',
+  handshaking: 'Handshaking',
+  connected: 'Connected',
+  backoff: 'Reconnecting',
+  'auth-failed': 'Auth failed',
+  incompatible: 'Incompatible gateway',
+  replaying: 'Replaying capture'
+}
+
+export function stateLabel(state: ConnectionState): string {
+  return STATE_LABELS[state] ?? state
+}
+
+/** Visual tone used for badge and dot colours. */
+export function statusTone(state: ConnectionState): 'connected' | 'pending' | 'disconnected' {
+  if (state === 'connected') return 'connected'
+  if (isTerminalState(state)) return 'disconnected'
+  return 'pending'
+}
+
+/** States that stay put until the user connects again. */
+export function isTerminalState(state: ConnectionState): boolean {
+  return state === 'idle' || state === 'auth-failed' || state === 'incompatible'
+}
+
+/** Human-readable status line, including the retry countdown while backing off. */
+export function describeStatus(status: GatewayStatus, now: number): string {
+  const label = stateLabel(status.state)
+  if (status.state === 'backoff' && status.nextRetryAt) {
+    const seconds = Math.max(0, Math.ceil((status.nextRetryAt - now) / 1000))
+    return `${label} in ${seconds}s (attempt ${status.attempt})`
+  }
+  if (status.attempt > 0 && status.state !== 'connected' && !isTerminalState(status.state)) {
+    return `${label} (attempt ${status.attempt})`
+  }
+  return label
+}
+
+/** Compact "time since" label for the last frame heard from the gateway. */
+export function formatLastHeard(lastMessageAt: number | undefined, now: number): string {
+  if (!lastMessageAt) return 'never'
+  const seconds = Math.max(0, Math.floor((now - lastMessageAt) / 1000))
+  if (seconds < 5) return 'just now'
+  if (seconds < 60) return `${seconds}s ago`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ago`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m ago`
+}
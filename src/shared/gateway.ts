@@ -0,0 +1,50 @@
+// Gateway status types shared by the main process, the preload bridge and the renderer
+
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'awaiting-challenge'
+  | 'handshaking'
+  | 'connected'
+  | 'backoff'
+  | 'auth-failed'
+  | 'incompatible'
+  | 'replaying'
+
+export interface GatewayStatus {
+  state: ConnectionState
+  connected: boolean
+  url: string
+  /** Consecutive failed connection attempts since the last successful handshake. */
+  attempt: number
+  /** Epoch ms of the next reconnect attempt while in `backoff`. */
+  nextRetryAt?: number
+  lastError?: string
+  /** Round-trip time of the most recent heartbeat ping. */
+  latencyMs?: number
+  /** Epoch ms of the last frame or pong received from the gateway. */
+  lastMessageAt?: number
+  /** Protocol version negotiated in the hello response. */
+  protocol?: number
+  serverVersion?: string
+  /** Path of the session file frames are being recorded to. */
+  recording?: string
+}
+
+/** Something the gateway sent that did not match the protocol schema. */
+export interface GatewayDiagnostic {
+  kind: 'malformed-frame'
+  message: string
+  /** The offending frame, truncated. */
+  raw: string
+  timestamp: number
+  gatewayId?: string
+}
+
+export interface GatewaySummary {
+  id: string
+  name: string
+  localCli: boolean
+  isDefault: boolean
+  status: GatewayStatus
+}
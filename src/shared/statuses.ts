@@ -0,0 +1,8 @@
+// Run and job status words the gateway reports, shared by the main process and the renderer.
+// Compare against the lowercased status.
+
+export const FAILED_STATUSES = ['failed', 'error', 'timeout', 'crashed']
+export const ABORTED_STATUSES = ['aborted', 'cancelled']
+/** Ended without failing, but without doing the work either. */
+export const WARNING_STATUSES = [...ABORTED_STATUSES, 'skipped']
+export const DONE_STATUSES = ['completed', 'ok', 'success', 'done']